@@ -0,0 +1,379 @@
+import type { Server } from "bun";
+import type { BlockJSON } from "./block";
+import { MiningCancelledError, type Blockchain } from "./blockchain";
+import { UnauthorizedSealerError } from "./consensus";
+import { Transaction, type TransactionJSON } from "./transaction";
+import type { ValidationIssue } from "./validation";
+
+/**
+ * Options for starting the API server
+ */
+export interface ApiServerOptions {
+    hostname?: string;   // Interface to listen on (defaults to "127.0.0.1")
+    port?: number;       // Port to listen on (defaults to 0, which picks a free port)
+}
+
+/**
+ * One page of a list endpoint
+ */
+export interface Page<T> {
+    items: T[];          // The requested slice, oldest first
+    offset: number;      // Position of the first item in the full list
+    limit: number;       // Most items a page can hold
+    total: number;       // Length of the full list
+}
+
+/**
+ * Response body of GET /transactions/:hash
+ */
+export interface TransactionResponse {
+    transaction: TransactionJSON;
+    status: "confirmed" | "pending";
+    blockIndex: number | null;   // Block that confirmed it (null while pending)
+    blockHash: string | null;
+}
+
+/**
+ * Response body of GET /addresses/:address/balance
+ */
+export interface BalanceResponse {
+    address: string;
+    balance: number;     // Confirmed balance
+}
+
+/**
+ * Response body of GET /addresses/:address/nonce
+ */
+export interface NonceResponse {
+    address: string;
+    nonce: number;       // Sequence number the address's next transaction must use
+}
+
+/**
+ * Response body of POST /transactions
+ */
+export interface CreateTransactionResponse {
+    hash: string;        // Hash of the accepted transaction
+    blockIndex: number;  // Index of the block that will contain it when mined
+}
+
+/**
+ * Response body of GET /validate
+ */
+export interface ValidateResponse {
+    valid: boolean;
+    height: number;      // Number of blocks on the main chain
+    issues: ValidationIssue[];   // Why the chain is invalid (empty when it is valid)
+}
+
+/**
+ * Body of every error response (4xx)
+ */
+export interface ErrorResponse {
+    error: string;       // Why the request failed
+}
+
+// Page size when the request doesn't give a limit, and the largest one it may ask for
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Raised inside a handler to send an error response with a specific status
+ */
+class HttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * REST API over a Blockchain, served with Bun.serve
+ *
+ * Routes (all bodies are JSON):
+ * - GET  /blocks?offset=&limit=        Page<BlockJSON> of main-chain blocks
+ * - GET  /blocks/:indexOrHash          BlockJSON (a number is read as an index, anything else as a hash)
+ * - GET  /transactions/:hash           TransactionResponse (confirmed or pending)
+ * - GET  /addresses/:address/balance   BalanceResponse
+ * - GET  /addresses/:address/nonce     NonceResponse (account mode only)
+ * - POST /transactions                 Body: TransactionJSON (signed) - 201 CreateTransactionResponse
+ * - POST /mine                         Body: { rewardAddress } - 201 BlockJSON of the mined block
+ * - GET  /validate                     ValidateResponse
+ *
+ * Errors use ErrorResponse with status 400 (malformed request), 403 (another validator's turn to seal the next block),
+ * 404 (unknown resource or route), 405 (wrong method), 409 (mining cancelled because another block was added first),
+ * 422 (well-formed transaction the chain rejects, e.g. an overdraft)
+ * or 500 (the node can't mine, e.g. it has no validator key configured)
+ */
+export class ApiServer {
+    public readonly blockchain: Blockchain;   // The chain this server exposes
+    private readonly options: ApiServerOptions;
+    private server: Server | null = null;
+
+    /**
+     * Creates an API server for a blockchain (call start() to begin listening)
+     * @param blockchain - The chain to expose
+     * @param options - Listening address
+     */
+    constructor(blockchain: Blockchain, options: ApiServerOptions = {}) {
+        this.blockchain = blockchain;
+        this.options = options;
+    }
+
+    /**
+     * Base URL of the running server
+     * @throws Error if the server hasn't been started
+     */
+    get url(): string {
+        if (!this.server) {
+            throw new Error("API server is not running");
+        }
+        return `http://${this.server.hostname}:${this.server.port}`;
+    }
+
+    /**
+     * Starts listening
+     */
+    public start(): void {
+        this.server = Bun.serve({
+            hostname: this.options.hostname ?? "127.0.0.1",
+            port: this.options.port ?? 0,
+            routes: {
+                "/blocks": {
+                    GET: request => this.handle(() => this.listBlocks(new URL(request.url).searchParams))
+                },
+                "/blocks/:id": {
+                    GET: request => this.handle(() => this.getBlock(request.params.id))
+                },
+                "/transactions": {
+                    POST: request => this.handle(async () => this.createTransaction(await this.readBody(request)), 201)
+                },
+                "/transactions/:hash": {
+                    GET: request => this.handle(() => this.getTransaction(request.params.hash))
+                },
+                "/addresses/:address/balance": {
+                    GET: request => this.handle(() => this.getBalance(request.params.address))
+                },
+                "/addresses/:address/nonce": {
+                    GET: request => this.handle(() => this.getNonce(request.params.address))
+                },
+                "/mine": {
+                    POST: request => this.handle(async () => this.mine(await this.readBody(request)), 201)
+                },
+                "/validate": {
+                    GET: () => this.handle(() => this.validate())
+                }
+            },
+            fetch: request => {
+                const known = ["/blocks", "/transactions", "/mine", "/validate"];
+                const path = new URL(request.url).pathname;
+                return known.includes(path) || /^\/(blocks|transactions)\/[^/]+$/.test(path) || /^\/addresses\/[^/]+\/(balance|nonce)$/.test(path)
+                    ? Response.json({ error: `Method ${request.method} not allowed` } satisfies ErrorResponse, { status: 405 })
+                    : Response.json({ error: "Not found" } satisfies ErrorResponse, { status: 404 });
+            }
+        });
+    }
+
+    /**
+     * Stops listening
+     */
+    public stop(): void {
+        this.server?.stop(true);
+        this.server = null;
+    }
+
+    /**
+     * Runs a route handler and turns its result (or error) into a JSON response
+     * @param handler - Produces the response body
+     * @param status - Status code on success
+     * @returns The HTTP response
+     */
+    private async handle(handler: () => unknown, status: number = 200): Promise<Response> {
+        try {
+            return Response.json(await handler(), { status });
+        } catch (error) {
+            if (error instanceof HttpError) {
+                return Response.json({ error: error.message } satisfies ErrorResponse, { status: error.status });
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Parses a JSON request body
+     * @param request - The request
+     * @throws {HttpError} 400 if the body isn't valid JSON
+     * @returns The parsed body
+     */
+    private async readBody(request: Request): Promise<unknown> {
+        try {
+            return await request.json();
+        } catch {
+            throw new HttpError(400, "Request body must be valid JSON");
+        }
+    }
+
+    /**
+     * Checks that a request body is a JSON object, so handlers can read its fields
+     * @param body - The parsed body
+     * @throws {HttpError} 400 if the body is null, an array or a primitive
+     * @returns The body's fields
+     */
+    private readObject(body: unknown): Record<string, unknown> {
+        if (typeof body !== "object" || body === null || Array.isArray(body)) {
+            throw new HttpError(400, "Request body must be a JSON object");
+        }
+        return body as Record<string, unknown>;
+    }
+
+    /**
+     * Reads a non-negative integer query parameter
+     * @param params - Query parameters
+     * @param name - Parameter name
+     * @param fallback - Value when the parameter is absent
+     * @throws {HttpError} 400 if the parameter isn't a non-negative integer
+     * @returns The parameter's value
+     */
+    private readInteger(params: URLSearchParams, name: string, fallback: number): number {
+        const raw = params.get(name);
+        if (raw === null) return fallback;
+        if (!/^\d+$/.test(raw)) {
+            throw new HttpError(400, `Query parameter ${name} must be a non-negative integer`);
+        }
+        return Number(raw);
+    }
+
+    /**
+     * GET /blocks - lists main-chain blocks a page at a time
+     * @param params - offset (default 0) and limit (default 20, at most 100)
+     * @throws {HttpError} 400 for an invalid offset or limit
+     * @returns One page of blocks
+     */
+    private listBlocks(params: URLSearchParams): Page<BlockJSON> {
+        const offset = this.readInteger(params, "offset", 0);
+        const limit = this.readInteger(params, "limit", DEFAULT_PAGE_LIMIT);
+        if (limit < 1 || limit > MAX_PAGE_LIMIT) {
+            throw new HttpError(400, `Query parameter limit must be between 1 and ${MAX_PAGE_LIMIT}`);
+        }
+
+        const chain = this.blockchain.chain;
+        return {
+            items: chain.slice(offset, offset + limit).map(block => block.toJSON()),
+            offset,
+            limit,
+            total: chain.length
+        };
+    }
+
+    /**
+     * GET /blocks/:indexOrHash - looks up one main-chain block
+     * @param id - Block index or hash
+     * @throws {HttpError} 404 if there is no such block
+     * @returns The block
+     */
+    private getBlock(id: string): BlockJSON {
+        const block = /^\d+$/.test(id)
+            ? this.blockchain.chain[Number(id)]
+            : this.blockchain.getBlockByHash(id);
+        if (!block) {
+            throw new HttpError(404, `Block ${id} not found`);
+        }
+        return block.toJSON();
+    }
+
+    /**
+     * GET /transactions/:hash - looks up a confirmed or pending transaction
+     * @param hash - Transaction hash
+     * @throws {HttpError} 404 if the transaction is unknown
+     * @returns The transaction and where it was confirmed
+     */
+    private getTransaction(hash: string): TransactionResponse {
+        const found = this.blockchain.findTransaction(hash);
+        if (!found) {
+            throw new HttpError(404, `Transaction ${hash} not found`);
+        }
+        return {
+            transaction: found.transaction.toJSON(),
+            status: found.block ? "confirmed" : "pending",
+            blockIndex: found.block?.index ?? null,
+            blockHash: found.block?.hash ?? null
+        };
+    }
+
+    /**
+     * GET /addresses/:address/balance - reads a confirmed balance
+     * @param address - Address to look up
+     * @returns The address and its balance
+     */
+    private getBalance(address: string): BalanceResponse {
+        return { address, balance: this.blockchain.getBalanceOfAddress(address) };
+    }
+
+    /**
+     * GET /addresses/:address/nonce - reads the sequence number for the address's next transaction
+     * @param address - Sender address
+     * @throws {HttpError} 400 if the chain uses the UTXO ledger, which has no nonces
+     * @returns The address and its next nonce
+     */
+    private getNonce(address: string): NonceResponse {
+        try {
+            return { address, nonce: this.blockchain.getNextNonce(address) };
+        } catch (error) {
+            throw new HttpError(400, (error as Error).message);
+        }
+    }
+
+    /**
+     * POST /transactions - submits a signed transaction to the pending pool
+     * @param body - The transaction in its JSON form
+     * @throws {HttpError} 400 if the transaction is malformed or tampered with, 422 if the chain rejects it
+     * @returns The transaction hash and the block it is expected in
+     */
+    private createTransaction(body: unknown): CreateTransactionResponse {
+        const fields = this.readObject(body);
+        let transaction: Transaction;
+        try {
+            transaction = Transaction.fromJSON(fields as unknown as TransactionJSON);  // fromJSON checks every field
+        } catch (error) {
+            throw new HttpError(400, (error as Error).message);
+        }
+        try {
+            return { hash: transaction.hash, blockIndex: this.blockchain.createTransaction(transaction) };
+        } catch (error) {
+            throw new HttpError(422, (error as Error).message);
+        }
+    }
+
+    /**
+     * POST /mine - mines the pending transactions into a new block on worker threads, so other requests are still served
+     * @param body - { rewardAddress }: who receives the mining reward
+     * @throws {HttpError} 400 if the reward address is missing, 403 if it is another validator's turn,
+     *   409 if another block was added first, 500 if this node can't mine (e.g. no validator key)
+     * @returns The mined block
+     */
+    private async mine(body: unknown): Promise<BlockJSON> {
+        const { rewardAddress } = this.readObject(body);
+        if (typeof rewardAddress !== "string" || rewardAddress === "") {
+            throw new HttpError(400, "rewardAddress is required");
+        }
+        try {
+            return (await this.blockchain.minePendingTransactionsAsync(rewardAddress)).toJSON();
+        } catch (error) {
+            if (error instanceof MiningCancelledError) {
+                throw new HttpError(409, error.message);
+            }
+            if (error instanceof UnauthorizedSealerError) {
+                throw new HttpError(403, error.message);  // Retrying won't help until the validator whose turn it is seals a block
+            }
+            throw new HttpError(500, (error as Error).message);
+        }
+    }
+
+    /**
+     * GET /validate - runs full chain validation
+     * @returns Whether the chain is valid, its height and every issue found
+     */
+    private validate(): ValidateResponse {
+        const issues = this.blockchain.validateChain();
+        return { valid: issues.length === 0, height: this.blockchain.chain.length, issues };
+    }
+}
@@ -1,7 +1,48 @@
+import { buildMerkleProof, computeMerkleRoot, type MerkleProof } from "./merkle";
+import { meetsDifficulty } from "./difficulty";
+import { Transaction, type TransactionJSON } from "./transaction";
+import { createIssue, type ValidationIssue } from "./validation";
+import { systemClock, type Clock } from "./clock";
+import {
+    assertCanonical, ByteReader, ByteWriter, ENCODING_VERSION, hashBytes, isSupportedVersion, LEGACY_ENCODING_VERSION
+} from "./encoding";
+
+/**
+ * The fields of a block its hash commits to (see Block.encodeHeader)
+ */
+export interface BlockHeader {
+    version: number;
+    index: number;
+    previousHash: string;
+    timestamp: number;
+    merkleRoot: string;
+    difficulty: number;
+    nonce: number;
+    validator: string | null;
+}
+
+/**
+ * Plain-object form of a block, as produced by toJSON and accepted by fromJSON
+ */
+export interface BlockJSON {
+    version?: number;            // Encoding the hash was calculated from (absent in data saved before versions existed, which is legacy)
+    index: number;
+    timestamp: number;
+    previousHash: string;
+    merkleRoot: string;
+    difficulty: number;
+    nonce: number;
+    validator: string | null;
+    signature: string | null;
+    hash: string;
+    transactions: TransactionJSON[];
+}
+
 /**
  * Represents a single block in the blockchain
  * Each block contains a set of transactions and links to the previous block via hash
- * Implements cryptographic security through SHA-256 hashing and proof-of-work
+ * Implements cryptographic security through SHA-256 hashing, sealed by the chain's consensus engine
+ * (a proof-of-work nonce, or a validator's signature)
  */
 export class Block {
     private _transactions: any[];    // List of transactions in this block (uses any[] for flexibility with different transaction types)
@@ -12,6 +53,11 @@ export class Block {
     public timestamp: number;        // When the block was created (milliseconds since epoch)
     public previousHash: string;     // Hash of the previous block (creates the chain linking mechanism)
     public hash: string;             // Current block's hash (derived from all other properties for tamper detection)
+    public merkleRoot: string;       // Root of the Merkle tree over the transaction hashes (committed to by the block hash)
+    public difficulty: number;       // Proof-of-work difficulty the block was mined at (expected number of hashes)
+    public validator: string | null = null;  // Public key of the validator that sealed the block (null under proof of work)
+    public signature: string | null = null;  // Validator's signature over the block hash
+    private _version: number = ENCODING_VERSION;  // Encoding the hash and Merkle root are calculated from (see ENCODING_VERSION)
 
     /**
      * Creates a new block
@@ -19,7 +65,9 @@ export class Block {
      * @param previousHash - Hash of the previous block to maintain chain integrity
      * @param transactions - List of transactions to include in this block
      * @param nonce - Mining nonce value (starts at 0, incremented during mining)
+     * @param difficulty - Proof-of-work difficulty the block must meet (defaults to 1, which any hash meets)
      * @param hash - Optional pre-calculated hash (if null, will be calculated)
+     * @param clock - Where the block's timestamp comes from (defaults to the system clock)
      * @returns A new Block instance
      */
     constructor(
@@ -27,13 +75,17 @@ export class Block {
         previousHash: string,
         transactions: any[],
         nonce: number,
-        hash?: string
+        difficulty: number = 1,
+        hash?: string,
+        clock: Clock = systemClock
     ) {
         this.index = index;
-        this.timestamp = Date.now();
+        this.timestamp = clock.now();
         this._transactions = [...transactions];  // Create a copy to prevent external modification
+        this.merkleRoot = this.calculateMerkleRoot();
         this.previousHash = previousHash;
         this._nonce = nonce;
+        this.difficulty = difficulty;
         this.hash = hash || this.calculateHash();  // Calculate hash if not provided
     }
 
@@ -47,10 +99,30 @@ export class Block {
 
     /**
      * Setter for transactions - accepts and stores a copy of the provided array
+     * Also recomputes the Merkle root (the block hash must be recalculated separately)
      * @param value - The new transactions array
      */
     set transactions(value: any[]) {
         this._transactions = [...value];  // Store a copy to prevent external references
+        this.merkleRoot = this.calculateMerkleRoot();
+    }
+
+    /**
+     * Getter for the encoding version
+     * @returns The version the hash and Merkle root are calculated from
+     */
+    get version(): number {
+        return this._version;
+    }
+
+    /**
+     * Setter for the encoding version
+     * Also recomputes the Merkle root, since legacy blocks build their tree differently (the block hash must be recalculated separately)
+     * @param value - The new version
+     */
+    set version(value: number) {
+        this._version = value;
+        this.merkleRoot = this.calculateMerkleRoot();
     }
 
     /**
@@ -69,20 +141,74 @@ export class Block {
         this._nonce = value;
     }
 
+    /**
+     * Gets the Merkle leaf for a transaction
+     * Transactions are identified by their own hash; other payloads are hashed from their JSON form
+     * @param transaction - A transaction stored in the block
+     * @returns The leaf hash
+     */
+    private static leafOf(transaction: any): string {
+        if (transaction && typeof transaction.hash === 'string') {
+            return transaction.hash;
+        }
+        const hash = new Bun.CryptoHasher("sha256");
+        hash.update(JSON.stringify(transaction) ?? "");
+        return hash.digest("hex");
+    }
+
+    /**
+     * Calculates the Merkle root over the block's current transactions
+     * @returns The root hash of the transaction tree
+     */
+    public calculateMerkleRoot(): string {
+        const leaves = this._transactions.map(transaction => Block.leafOf(transaction));
+        return computeMerkleRoot(leaves, this._version === LEGACY_ENCODING_VERSION);
+    }
+
+    /**
+     * Builds a proof that a transaction is included in this block
+     * The proof can be checked against merkleRoot with verifyMerkleProof, without the other transactions
+     * (for a legacy block, telling it the root is of a legacy tree)
+     * @param txHash - Hash of the transaction to prove
+     * @returns The inclusion proof, or null if the transaction isn't in this block
+     */
+    public getMerkleProof(txHash: string): MerkleProof | null {
+        const leaves = this._transactions.map(transaction => Block.leafOf(transaction));
+        const index = leaves.indexOf(txHash);
+        if (index === -1) return null;
+        return buildMerkleProof(leaves, index, this._version === LEGACY_ENCODING_VERSION);
+    }
+
     /**
      * Calculates the SHA-256 hash of the block's contents
      * Hash includes all block data to ensure integrity and detect tampering
      * Any change to block data will result in a completely different hash
+     * It covers the encoded header (see encodeHeader), or for legacy blocks the old text form
+     * @throws {Error} If a header field can't be encoded (e.g. a fractional timestamp)
      * @returns Hexadecimal string representation of the SHA-256 hash
      */
     public calculateHash(): string {
+        if (this.version === LEGACY_ENCODING_VERSION) {
+            return this.calculateLegacyHash();
+        }
+        return hashBytes(this.encodeHeader());
+    }
+
+    /**
+     * Calculates the hash the way blocks were hashed before the binary encoding:
+     * the header fields concatenated as text, with nothing marking where one ends and the next begins
+     * @returns Hexadecimal string representation of the SHA-256 hash
+     */
+    private calculateLegacyHash(): string {
         // Concatenate all block data for hashing
         // Order matters for consistent hashing
         const data = this.index +             // Include index to ensure position in chain
             this.previousHash +               // Include previous hash to maintain chain integrity
             this.timestamp +                  // Include timestamp to make each block unique even with identical transactions
-            JSON.stringify(this._transactions) + // Include all transaction data
-            this._nonce;                      // Include nonce to allow mining different hashes with same data
+            this.merkleRoot +                 // Include the transaction tree root (commits to every transaction)
+            this.difficulty +                 // Include difficulty so the required work can't be lowered after mining
+            this._nonce +                     // Include nonce to allow mining different hashes with same data
+            (this.validator ?? "");           // Include the validator so a signed block can't be claimed by another
 
         // Use Bun's cryptographic hasher for SHA-256
         const hash = new Bun.CryptoHasher("sha256");
@@ -91,29 +217,261 @@ export class Block {
     }
 
     /**
-     * Validates the block by checking:
+     * Gets the fields the block hash commits to
+     * @returns The block's header
+     */
+    public getHeader(): BlockHeader {
+        return {
+            version: this.version,
+            index: this.index,
+            previousHash: this.previousHash,
+            timestamp: this.timestamp,
+            merkleRoot: this.merkleRoot,
+            difficulty: this.difficulty,
+            nonce: this._nonce,
+            validator: this.validator
+        };
+    }
+
+    /**
+     * Converts the header into its canonical binary form, which the block hash is calculated from
+     * @throws {Error} If a field can't be encoded
+     * @returns The encoded header
+     */
+    public encodeHeader(): Uint8Array {
+        return Block.writeHeader(new ByteWriter(), this.getHeader()).finish();
+    }
+
+    /**
+     * Reads a header from its binary form (see encodeHeader)
+     * @param bytes - The encoded header
+     * @throws {Error} If the encoding is malformed or not canonical
+     * @returns The header
+     */
+    public static decodeHeader(bytes: Uint8Array): BlockHeader {
+        const reader = new ByteReader(bytes);
+        const header = Block.readHeader(reader);
+        reader.end();
+        return header;
+    }
+
+    /**
+     * Writes header fields in their fixed order, starting with the version byte
+     * @param writer - Where to write them
+     * @param header - The header
+     * @returns The writer
+     */
+    private static writeHeader(writer: ByteWriter, header: BlockHeader): ByteWriter {
+        return writer
+            .u8(header.version)
+            .u64(header.index)
+            .string(header.previousHash)
+            .u64(header.timestamp)
+            .string(header.merkleRoot)
+            .u64(header.difficulty)
+            .u64(header.nonce)
+            .optionalString(header.validator);
+    }
+
+    /**
+     * Reads header fields written by writeHeader
+     * @param reader - Where to read them from
+     * @throws {Error} If the encoding is malformed
+     * @returns The header
+     */
+    private static readHeader(reader: ByteReader): BlockHeader {
+        return {
+            version: reader.version(),
+            index: reader.u64(),
+            previousHash: reader.string(),
+            timestamp: reader.u64(),
+            merkleRoot: reader.string(),
+            difficulty: reader.u64(),
+            nonce: reader.u64(),
+            validator: reader.optionalString()
+        };
+    }
+
+    /**
+     * Converts the block into its canonical binary form, as stored on disk and sent between nodes:
+     * the header, the validator's signature, then each transaction's encoding prefixed with its length
+     * @throws {Error} If the block holds anything other than transactions, or a field can't be encoded
+     * @returns The encoding
+     */
+    public encode(): Uint8Array {
+        const writer = Block.writeHeader(new ByteWriter(), this.getHeader())
+            .optionalString(this.signature)
+            .u32(this._transactions.length);
+        for (const transaction of this._transactions) {
+            if (!(transaction instanceof Transaction)) {
+                throw new Error(`Block ${this.index} can't be encoded: it holds something other than transactions`);
+            }
+            writer.bytes(transaction.encode());
+        }
+        return writer.finish();
+    }
+
+    /**
+     * Rebuilds a block from its binary form (see encode)
+     * Every transaction is decoded and verified, the Merkle root must match them, and the bytes must be
+     * exactly what encode produces for the result
+     * @param bytes - The encoding
+     * @throws {Error} If the encoding is malformed or not canonical, or the block's contents don't add up
+     * @returns The decoded block
+     */
+    public static decode(bytes: Uint8Array): Block {
+        const reader = new ByteReader(bytes);
+        const header = Block.readHeader(reader);
+        const signature = reader.optionalString();
+        const transactions = Array.from({ length: reader.u32() }, () => Transaction.decode(reader.bytes()));
+        reader.end();
+
+        const block = Block.fromHeader(header, transactions);
+        block.signature = signature;
+        assertCanonical(block.encode(), bytes);
+        return block;
+    }
+
+    /**
+     * Assembles a block from a header and its transactions, checking that the header's Merkle root matches them
+     * @param header - The block's header
+     * @param transactions - The block's transactions
+     * @throws {Error} If the Merkle root doesn't match the transactions
+     * @returns The block, with its hash calculated from the header
+     */
+    private static fromHeader(header: BlockHeader, transactions: Transaction[]): Block {
+        const block = new Block(header.index, header.previousHash, transactions, header.nonce, header.difficulty);
+        block.version = header.version;
+        block.timestamp = header.timestamp;  // Restore the original creation time instead of the clock's
+        block.validator = header.validator;
+        if (block.merkleRoot !== header.merkleRoot) {
+            throw new Error(`Invalid block data: Merkle root of block ${header.index} does not match its transactions`);
+        }
+        block.hash = block.calculateHash();
+        return block;
+    }
+
+    /**
+     * Checks that the block hash meets the block's own difficulty target
+     * The chain separately checks that this difficulty is the one required at the block's height
+     * @returns Boolean indicating if enough proof-of-work was done
+     */
+    public hasValidProofOfWork(): boolean {
+        return meetsDifficulty(this.hash, this.difficulty);
+    }
+
+    /**
+     * Validates the block on its own by checking:
      * 1. If its hash matches its contents (tamper detection)
-     * 2. If all contained transactions are valid (recursive validation)
-     * This ensures the block hasn't been tampered with and contains valid transactions
-     * @returns Boolean indicating if the block is valid
+     * 2. If the Merkle root matches the transactions
+     * 3. If all contained transactions are valid (recursive validation, including well-formed scripts)
+     * Checks that need the rest of the chain (linking, difficulty, balances, running the scripts against the
+     * outputs they unlock) are done by Blockchain.validateChain
+     * @returns Every problem found (empty if the block is valid)
      */
-    public isValid(): boolean {
+    public validateBlock(): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+
         // Check if the stored hash matches the calculated hash
         // This detects any tampering with block properties
-        if (this.hash !== this.calculateHash()) {
-            return false;
+        const calculatedHash = this.calculateHash();
+        if (this.hash !== calculatedHash) {
+            issues.push(createIssue("HASH_MISMATCH", this.index, `hash of block ${this.index} does not match its contents`, {
+                expected: calculatedHash,
+                actual: this.hash
+            }));
+        }
+
+        // The hash only covers the Merkle root, so the root must match the actual transactions
+        const calculatedRoot = this.calculateMerkleRoot();
+        if (this.merkleRoot !== calculatedRoot) {
+            issues.push(createIssue("MERKLE_MISMATCH", this.index, `Merkle root of block ${this.index} does not match its transactions`, {
+                expected: calculatedRoot,
+                actual: this.merkleRoot
+            }));
         }
 
         // Validate all transactions in the block if they have isValid method
         // This provides recursive validation down to the transaction level
         for (const transaction of this._transactions) {
-            if (transaction && typeof transaction.isValid === 'function') {
-                if (!transaction.isValid()) {
-                    return false;
-                }
+            if (transaction && typeof transaction.isValid === 'function' && !transaction.isValid()) {
+                issues.push(createIssue("INVALID_TX", this.index, `transaction ${transaction.hash} in block ${this.index} is invalid`, {
+                    txHash: transaction.hash
+                }));
             }
         }
 
-        return true;
+        return issues;
+    }
+
+    /**
+     * Checks whether the block is valid on its own (see validateBlock for the checks and the reasons)
+     * @returns Boolean indicating if the block is valid
+     */
+    public isValid(): boolean {
+        return this.validateBlock().length === 0;
+    }
+
+    /**
+     * Converts the block into a plain object that can be stored or sent as JSON
+     * @returns Plain-object form of the block (transactions are converted too)
+     */
+    public toJSON(): BlockJSON {
+        return {
+            version: this.version,
+            index: this.index,
+            timestamp: this.timestamp,
+            previousHash: this.previousHash,
+            merkleRoot: this.merkleRoot,
+            difficulty: this.difficulty,
+            nonce: this._nonce,
+            validator: this.validator,
+            signature: this.signature,
+            hash: this.hash,
+            transactions: this._transactions.map(transaction =>
+                transaction && typeof transaction.toJSON === 'function' ? transaction.toJSON() : transaction
+            )
+        };
+    }
+
+    /**
+     * Rebuilds an exact Block instance from its JSON form, including its original timestamp
+     * Every transaction is rehydrated and verified, and the stored Merkle root and hash must match the contents
+     * @param data - Object produced by toJSON (e.g. after JSON.parse)
+     * @throws {Error} If the data is malformed or has been tampered with
+     * @returns The rehydrated block
+     */
+    public static fromJSON(data: BlockJSON): Block {
+        if (!data || typeof data !== 'object' ||
+            (data.version !== undefined && !isSupportedVersion(data.version)) ||
+            !Number.isSafeInteger(data.index) ||
+            typeof data.timestamp !== 'number' ||
+            typeof data.previousHash !== 'string' ||
+            typeof data.merkleRoot !== 'string' ||
+            typeof data.difficulty !== 'number' ||
+            typeof data.nonce !== 'number' ||
+            (data.validator != null && typeof data.validator !== 'string') ||
+            (data.signature != null && typeof data.signature !== 'string') ||
+            typeof data.hash !== 'string' ||
+            !Array.isArray(data.transactions)) {
+            throw new Error("Invalid block data: malformed block");
+        }
+
+        const transactions = data.transactions.map(transaction => Transaction.fromJSON(transaction));
+        const block = Block.fromHeader({
+            version: data.version ?? LEGACY_ENCODING_VERSION,  // Data without a version was hashed the old way
+            index: data.index,
+            previousHash: data.previousHash,
+            timestamp: data.timestamp,
+            merkleRoot: data.merkleRoot,
+            difficulty: data.difficulty,
+            nonce: data.nonce,
+            validator: data.validator ?? null  // Absent in blocks stored before validators existed
+        }, transactions);
+        block.signature = data.signature ?? null;
+        if (block.hash !== data.hash) {
+            throw new Error(`Invalid block data: hash of block ${data.index} does not match its contents`);
+        }
+        return block;
     }
-} 
\ No newline at end of file
+}
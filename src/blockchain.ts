@@ -1,5 +1,103 @@
-import { Block } from "./block";
-import { Transaction } from "./transaction";
+import { Block, type BlockJSON } from "./block";
+import { COINBASE_ADDRESS, Transaction, type TransactionJSON } from "./transaction";
+import { UTXOSet, type UnspentOutput } from "./utxo";
+import { WorldState } from "./state";
+import { AddressHistory, type AddressHistoryPage } from "./history";
+import { retargetDifficulty } from "./difficulty";
+import type { BlockStore } from "./storage";
+import { Mempool } from "./mempool";
+import { blockSubsidy, issuedSupply } from "./reward";
+import { createIssue, type ValidationIssue } from "./validation";
+import type { MiningOptions } from "./miner";
+import { createConsensus, ProofOfWork, type ConsensusConfig, type ConsensusEngine } from "./consensus";
+import type { KeyPair } from "./crypto";
+import { EventHub, type BlockchainEventType, type BlockchainListener, type SubscribeOptions } from "./events";
+import { allocatedSupply, createGenesisBlock, resolveChainConfig, type ChainConfig } from "./config";
+import { randomNonces, systemClock, type Clock, type NonceSource } from "./clock";
+import { ENCODING_VERSION } from "./encoding";
+import type { SpendContext } from "./script";
+
+/**
+ * How the ledger tracks ownership of funds
+ * - "account": balances are the sum of all credits and debits for an address
+ * - "utxo": transactions consume specific unspent outputs and create new ones
+ */
+export type LedgerMode = "account" | "utxo";
+
+/**
+ * Options chosen when a blockchain is created
+ * Includes the network parameters (see ChainConfig) - any left out take their defaults
+ */
+export interface BlockchainOptions extends Partial<ChainConfig> {
+    ledger?: LedgerMode;          // Ledger model (defaults to "account")
+    consensus?: ConsensusEngine;  // How blocks are sealed and verified (defaults to proof of work)
+    maxPendingTransactions?: number; // Mempool capacity - the lowest fee rates are evicted beyond it (defaults to 5000)
+    pendingExpiry?: number;       // Milliseconds a transaction may stay pending (defaults to 24 hours)
+    store?: BlockStore;           // Persist blocks and the pending pool here, and resume from it on startup
+    clock?: Clock;                // Time source for new blocks, reward transactions, expiry and time locks (defaults to the system clock)
+    nonces?: NonceSource;         // Nonce source for reward transactions (defaults to random) - a SimulatedClock with a SeededNonceSource makes the chain reproducible
+}
+
+/**
+ * Plain-object form of a blockchain, as produced by toJSON and accepted by fromJSON
+ */
+export interface BlockchainJSON {
+    options: Required<Omit<BlockchainOptions, "store" | "consensus" | "clock" | "nonces">> & {
+        consensus: ConsensusConfig;   // Public settings of the consensus engine (older data without them is proof of work)
+    }; // Settings needed to validate the chain the same way again
+    chain: BlockJSON[];
+    pendingTransactions: TransactionJSON[];
+}
+
+/**
+ * What happened to a block passed to addBlock
+ * - "main": it is now part of the main chain (extending the tip or through a reorganization)
+ * - "side": it was stored on a side branch with no more cumulative work than the main chain
+ * - "orphan": its parent is unknown, so it is held until the parent arrives
+ * - "known": it had already been received
+ */
+export type BlockStatus = "main" | "side" | "orphan" | "known";
+
+/**
+ * Details of a chain reorganization, passed to reorg listeners
+ */
+export interface ReorgEvent {
+    commonAncestor: Block;   // Last block shared by the old and new main chains
+    depth: number;           // Number of blocks rolled back from the old main chain
+    removedBlocks: Block[];  // Blocks no longer on the main chain, oldest first
+    addedBlocks: Block[];    // Blocks that replaced them, oldest first
+}
+
+/**
+ * A confirmed or pending transaction, with where it stands on the main chain
+ */
+export interface TransactionLookup {
+    transaction: Transaction;
+    block: Block | null;     // Main-chain block that confirmed it (null while pending)
+    confirmations: number;   // Blocks from the confirming block to the tip, inclusive (0 while pending)
+}
+
+/**
+ * Which page of an address's history to read (see Blockchain.getAddressHistory)
+ */
+export interface HistoryQuery {
+    cursor?: string | null;  // nextCursor of the previous page (omit for the newest entries)
+    limit?: number;          // Most entries per page (defaults to 20)
+}
+
+/**
+ * Raised when background mining is cancelled because another block reached the chain first
+ */
+export class MiningCancelledError extends Error {}
+
+// Entries per history page when the query doesn't give a limit
+const DEFAULT_HISTORY_LIMIT = 20;
+
+// Blocks whose timestamps make up the median a new block must be later than (see medianTimePast)
+const MEDIAN_TIME_BLOCKS = 11;
+
+// Most blocks held while waiting for their parent - the oldest orphan is dropped to make room
+const MAX_ORPHAN_BLOCKS = 100;
 
 /**
  * Manages the blockchain and its operations
@@ -8,30 +106,126 @@ import { Transaction } from "./transaction";
  */
 export class Blockchain {
     public chain: Block[];                 // The actual blockchain (array of linked blocks)
-    private difficulty: number;            // Mining difficulty (number of leading zeros required in hash - higher means exponentially harder mining)
-    private pendingTransactions: Transaction[]; // Transactions waiting to be mined into the next block
-    private readonly miningReward: number = 1;  // Fixed reward for mining a block (cryptocurrency units awarded to miners)
+    private readonly consensus: ConsensusEngine; // Seals new blocks and verifies the seals of received ones
+    private config: ChainConfig;                 // Network parameters: genesis, difficulty retargeting, reward schedule and block limits
+    private readonly maxPendingTransactions: number; // Mempool capacity
+    private readonly pendingExpiry: number;        // Milliseconds before a pending transaction expires
+    private readonly clock: Clock;                 // Where the chain gets the current time
+    private readonly nonces: NonceSource;          // Where the chain gets nonces for the transactions it creates
+    private mempool: Mempool;              // Transactions waiting to be mined, prioritized by fee rate
+    private readonly ledger: LedgerMode;   // Ledger model chosen at construction (can't change once blocks exist)
+    private utxos: UTXOSet;                // Unspent outputs of the confirmed chain (only maintained in UTXO mode)
+    private state: WorldState;             // Balance and nonce index kept in step with the chain for O(1) lookups
+    private transactionIndex: Map<string, Block> = new Map(); // Main-chain block that confirmed each transaction, by hash
+    private history: AddressHistory = new AddressHistory(); // Every address's confirmed transactions with running balances
+    private store: BlockStore | null;      // Durable storage for blocks and the pending pool (null = memory only)
+    private blocks: Map<string, Block> = new Map();      // Every connected block by hash - main chain and side branches
+    private chainWork: Map<string, number> = new Map();  // Total difficulty from genesis up to and including each known block
+    private orphans: Map<string, Block> = new Map();     // Blocks whose parent hasn't arrived yet, by hash
+    private events: EventHub = new EventHub();           // Listeners for chain activity (see on)
+    private miningJobs: Map<AbortController, string> = new Map(); // Background mining in progress, with the hash of the parent it builds on
+
+    /**
+     * Initializes a new blockchain with the genesis block its network parameters describe
+     * When a store is given, its blocks are replayed and verified instead of starting from a fresh genesis block
+     * @param options - Optional settings such as the network parameters, the ledger model and storage
+     * @throws Error if the settings are invalid or the stored chain fails validation
+     */
+    constructor(options: BlockchainOptions = {}) {
+        this.ledger = options.ledger ?? "account";
+        this.consensus = options.consensus ?? new ProofOfWork();
+        this.clock = options.clock ?? systemClock;
+        this.nonces = options.nonces ?? randomNonces;
+        // Engines without proof of work keep every block at difficulty 1
+        this.config = resolveChainConfig(
+            { ...options, initialDifficulty: this.consensus.retargetsDifficulty ? options.initialDifficulty : 1 },
+            this.clock.now()
+        );
+        this.maxPendingTransactions = options.maxPendingTransactions ?? 5000;
+        this.pendingExpiry = options.pendingExpiry ?? 24 * 60 * 60 * 1000;
+        if (![this.maxPendingTransactions, this.pendingExpiry].every(limit => Number.isSafeInteger(limit) && limit > 0)) {
+            throw new Error("Mempool and expiry limits must be positive integers");
+        }
+
+        this.utxos = new UTXOSet();
+        this.state = new WorldState();
+        this.chain = [createGenesisBlock(this.config)];  // Initialize chain with genesis block
+        this.mempool = new Mempool(this.maxPendingTransactions, this.pendingExpiry);  // Start with empty pending transaction pool
+        this.resetBlockIndex();
+        this.rebuildState();  // Credit the genesis allocations
+
+        this.store = options.store ?? null;
+        if (this.store) {
+            this.loadFromStore(this.store, options.genesisTimestamp === undefined);
+        }
+    }
 
     /**
-     * Initializes a new blockchain with genesis block
-     * Sets default mining difficulty and empty transaction pool
+     * Gets the network parameters the chain follows
+     * @returns A copy of the chain's config
      */
-    constructor() {
-        this.chain = [this.createGenesisBlock()];  // Initialize chain with genesis block
-        this.difficulty = 2;               // Start with relatively easy mining (2 leading zeros)
-        // Note: Each additional level increases difficulty by 16x
-        this.pendingTransactions = [];     // Start with empty pending transaction pool
+    public getConfig(): ChainConfig {
+        return { ...this.config, allocations: { ...this.config.allocations } };
     }
 
     /**
-     * Creates the first block in the chain (genesis block)
-     * Genesis block has special properties: index 0, no previous hash, and empty transactions
-     * @returns The genesis block that starts the blockchain
+     * Resumes from a block store: replays and verifies the stored blocks and re-admits the stored pending pool
+     * Stored blocks (side branches included) go back through addBlock in the order they arrived,
+     * so the same main chain is selected again. A brand-new store is initialized with this chain's genesis block
+     * @param store - The store to load from
+     * @param adoptGenesisTime - Whether the stored genesis block sets the genesis timestamp (none was configured)
+     * @throws Error if the stored chain fails validation
      */
-    private createGenesisBlock(): Block {
-        const block = new Block(0, "0", [], 0);  // Create block with index 0, previous hash "0", no transactions, and nonce 0
-        block.hash = block.calculateHash(); // Set initial hash based on genesis block properties
-        return block;
+    private loadFromStore(store: BlockStore, adoptGenesisTime: boolean): void {
+        const blocks = store.loadBlocks();
+        if (blocks.length === 0) {
+            store.appendBlock(this.getLatestBlock());  // Persist the genesis block of a new chain
+            return;
+        }
+
+        const [genesisBlock, ...rest] = blocks.map((bytes, i) => {
+            try {
+                return Block.decode(bytes);
+            } catch (error) {
+                throw new Error(`Invalid block store: record ${i} can't be decoded (${(error as Error).message})`);
+            }
+        });
+        if (adoptGenesisTime) {
+            this.config = { ...this.config, genesisTimestamp: genesisBlock!.timestamp };
+        }
+        if (!this.isValidGenesisBlock(genesisBlock!)) {
+            throw new Error("Invalid block store: genesis block does not match the chain config");
+        }
+        this.chain = [genesisBlock!];
+        this.resetBlockIndex();
+        this.rebuildState();
+
+        // The blocks are already stored, so don't write them back while replaying
+        this.store = null;
+        try {
+            for (const block of rest) {
+                this.addBlock(block);
+            }
+        } catch (error) {
+            throw new Error(`Invalid block store: ${(error as Error).message}`);
+        } finally {
+            this.store = store;
+        }
+        const orphan = this.orphans.values().next().value;
+        if (orphan) {
+            throw new Error(`Invalid block store: block ${orphan.index} does not connect to the stored chain`);
+        }
+
+        // Pending transactions that are malformed or no longer fit the chain (e.g. now overdrafts) are dropped
+        const pending: Transaction[] = [];
+        for (const transaction of store.loadPending()) {
+            try {
+                pending.push(Transaction.decode(transaction));
+            } catch {
+                continue;
+            }
+        }
+        this.readmitPending(pending);
     }
 
     /**
@@ -48,106 +242,1158 @@ export class Blockchain {
     }
 
     /**
-     * Mines a block by finding a hash that meets the difficulty requirement
-     * Uses Proof of Work algorithm by incrementing nonce until a valid hash is found
-     * Difficulty determines how many leading zeros are required in the hash
-     * Higher difficulty means exponentially more computational work
-     * @param block - The block to mine
+     * Checks the special rules for a genesis block
+     * @param block - Candidate first block
+     * @returns Boolean indicating if the block can start this chain
+     */
+    private isValidGenesisBlock(block: Block): boolean {
+        return this.genesisIssues(block).length === 0;
+    }
+
+    /**
+     * Lists the ways a block differs from the genesis block the chain config describes (see createGenesisBlock)
+     * @param block - Candidate first block
+     * @returns Every problem found (empty if the block can start this chain)
+     */
+    private genesisIssues(block: Block): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const expect = (field: string, expected: string | number, actual: string | number) => {
+            if (expected !== actual) {
+                issues.push(createIssue("BAD_GENESIS", block.index, `genesis block ${field} should be ${expected} but is ${actual}`, {
+                    expected,
+                    actual
+                }));
+            }
+        };
+
+        // A chain created before the current encoding keeps its genesis block in the encoding it was hashed with
+        const genesis = createGenesisBlock(this.config, block.version);
+        expect("index", 0, block.index);                                        // Must be at index 0
+        expect("previous hash", genesis.previousHash, block.previousHash);      // Must point at the network's genesis previous hash
+        expect("timestamp", genesis.timestamp, block.timestamp);                // Must be created at the configured time
+        expect("Merkle root", genesis.merkleRoot, block.merkleRoot);            // Must pay out exactly the configured allocations
+        expect("nonce", 0, block.nonce);                                        // Isn't mined
+        expect("difficulty", genesis.difficulty, block.difficulty);             // Starts the first retarget window
+        expect("validator", "none", block.validator ?? "none");                 // Isn't sealed by anyone
+        issues.push(...this.versionIssues(block, null));                       // Uses one encoding throughout
+        issues.push(...block.validateBlock());                                  // Should pass general validity checks
+        return issues;
+    }
+
+    /**
+     * Checks the encoding versions in a block: a chain can move to a newer encoding but never back,
+     * and every transaction uses the same encoding as its block.
+     * This is how a chain hashed the old way migrates - its legacy blocks still verify, and the next block mined on it
+     * (like every new block) uses the current encoding
+     * @param block - The block to check
+     * @param parent - The block it builds on (null for the genesis block)
+     * @returns An issue for the block's version, and one for each transaction that doesn't match it
+     */
+    private versionIssues(block: Block, parent: Block | null): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        if (parent && block.version < parent.version) {
+            issues.push(createIssue("BAD_VERSION", block.index,
+                `block ${block.index} uses encoding version ${block.version} after version ${parent.version}`, {
+                    expected: parent.version,
+                    actual: block.version
+                }));
+        }
+        for (const transaction of block.transactions) {
+            if (transaction.version !== block.version) {
+                issues.push(createIssue("BAD_VERSION", block.index,
+                    `transaction ${transaction.hash} in block ${block.index} uses encoding version ${transaction.version}`, {
+                        txHash: transaction.hash,
+                        expected: block.version,
+                        actual: transaction.version
+                    }));
+            }
+        }
+        return issues;
+    }
+
+    /**
+     * Clears the block index and rebuilds it from the main chain alone
+     * Use after the chain has been loaded or replaced wholesale (side branches and orphans are forgotten)
+     */
+    private resetBlockIndex(): void {
+        this.blocks.clear();
+        this.chainWork.clear();
+        this.orphans.clear();
+
+        let work = 0;
+        for (const block of this.chain) {
+            work += this.consensus.blockWork(block);
+            this.blocks.set(block.hash, block);
+            this.chainWork.set(block.hash, work);
+        }
+    }
+
+    /**
+     * Gets the cumulative work of the main chain, used to choose between forks
+     * Under proof of work difficulty is the expected number of hashes per block, so the sum over all blocks
+     * measures the total work; the other engines count every block the same (see ConsensusEngine.blockWork)
+     * @returns Sum of the work of every block on the main chain
+     */
+    public getChainWork(): number {
+        return this.chainWork.get(this.getLatestBlock().hash) ?? 0;
+    }
+
+    /**
+     * Calculates the difficulty a block at the given height must be mined at
+     * Difficulty stays fixed within a retarget window. At the start of each new window it is recomputed
+     * from how long the previous window's blocks actually took compared to targetBlockTime
+     * @param height - Index of the block (must not be beyond the next block to be mined)
+     * @throws Error if the blocks needed for the calculation aren't on the chain
+     * @returns The required difficulty at that height
+     */
+    public getDifficultyForHeight(height: number): number {
+        return this.difficultyOnBranch(this.chain, height);
+    }
+
+    /**
+     * Calculates the difficulty required at a height on a given branch (see getDifficultyForHeight)
+     * @param branch - Blocks from genesis up to at least height - 1
+     * @param height - Index of the block
+     * @throws Error if the blocks needed for the calculation aren't on the branch
+     * @returns The required difficulty at that height
      */
-    private mineBlock(block: Block): void {
-        const target = "0".repeat(this.difficulty);  // Create target string with required leading zeros
+    private difficultyOnBranch(branch: Block[], height: number): number {
+        if (height === 0 || !this.consensus.retargetsDifficulty) return this.config.initialDifficulty;
+
+        const previousBlock = branch[height - 1];
+        if (!previousBlock) {
+            throw new Error(`Cannot calculate difficulty for height ${height}`);
+        }
 
-        // Keep incrementing nonce and recalculating hash until we find a hash with the required leading zeros
-        // This is the "work" in Proof of Work - computationally intensive but easy to verify
-        while (block.hash.substring(0, this.difficulty) !== target) {
-            block.nonce++;  // Increment nonce to try different hash values
-            block.hash = block.calculateHash();  // Recalculate hash with new nonce
+        // Only the first block of a window is retargeted - everything else inherits its parent's difficulty
+        if (height % this.config.retargetInterval !== 0) {
+            return previousBlock.difficulty;
         }
-        // Once loop exits, we have found a valid hash that meets difficulty requirements
+
+        // Measure the timestamps across the window that just ended
+        const firstBlock = branch[height - this.config.retargetInterval]!;
+        const actualTimespan = previousBlock.timestamp - firstBlock.timestamp;
+        const expectedTimespan = this.config.targetBlockTime * (this.config.retargetInterval - 1);
+        return retargetDifficulty(previousBlock.difficulty, actualTimespan, expectedTimespan);
+    }
+
+    /**
+     * Gets the difficulty the next mined block must meet
+     * @returns The current mining difficulty
+     */
+    public getDifficulty(): number {
+        return this.getDifficultyForHeight(this.chain.length);
+    }
+
+    /**
+     * Calculates the subsidy a block at the given height may pay its miner (on top of the fees it collects)
+     * @param height - Index of the block
+     * @returns The scheduled subsidy, halved every halvingInterval blocks and reduced to respect the supply cap
+     */
+    public getBlockSubsidy(height: number): number {
+        return blockSubsidy(height, this.config);
+    }
+
+    /**
+     * Totals the genesis allocations and the subsidies issued by the main chain so far
+     * (fees only move existing coins, so they aren't included)
+     * @returns Coins in circulation
+     */
+    public getIssuedSupply(): number {
+        return allocatedSupply(this.config) + issuedSupply(this.chain.length - 1, this.config);
     }
 
     /**
      * Adds a new transaction to the pending transactions pool
      * Performs validation checks before accepting transaction
+     * Regular transactions must be signed by the owner of fromAddress (see Transaction.signTransaction)
+     * and may not spend more (amount plus fee) than the sender's confirmed balance minus their pending outgoing amounts
+     * In UTXO mode the transaction must instead spend confirmed outputs that no pending transaction already spends
+     * In account mode its sequence number must be the sender's next nonce (see getNextNonce), so it can't be replayed
+     * A transaction with the same sender and sequence number as a pending one replaces it if it pays a higher fee
+     * (the replaced transaction's funds count as available again)
+     * Emits transactionAdded, or transactionRejected with the reason before rethrowing
      * @param transaction - The transaction to add to the pool
      * @returns The index of the block that will contain this transaction when mined
-     * @throws Error if transaction is invalid or null
+     * @throws Error if transaction is invalid, null, a mining reward, expired, already pending or already confirmed,
+     * if it uses the wrong sequence number, if the sender cannot afford it, or if it doesn't pay enough to replace
+     * a pending transaction or to enter a full pool
      */
     public createTransaction(transaction: Transaction): number {
+        let blockIndex: number;
+        try {
+            blockIndex = this.admitTransaction(transaction);
+        } catch (error) {
+            if (transaction) {
+                this.events.emit("transactionRejected", { transaction, reason: (error as Error).message });
+            }
+            throw error;
+        }
+        this.events.emit("transactionAdded", { transaction, blockIndex });
+        return blockIndex;
+    }
+
+    /**
+     * Runs the admission checks for a transaction and adds it to the pending pool (see createTransaction)
+     * Emits no events, so re-admitting the pool (after a reorganization, say) doesn't announce its transactions again
+     * @param transaction - The transaction to add to the pool
+     * @throws Error if the transaction can't be admitted
+     * @returns The index of the block that will contain this transaction when mined
+     */
+    private admitTransaction(transaction: Transaction): number {
         // Validate the transaction existence
         if (!transaction) {
             throw new Error("Invalid transaction");
         }
 
-        // Check validity of the transaction
-        // Special handling for mining rewards which use a reserved sender address
+        // Mining rewards are only ever created by the miner of a block - submitting one would mint coins
+        if (transaction.fromAddress === COINBASE_ADDRESS) {
+            throw new Error("Mining reward transactions can't be submitted");
+        }
+
+        // Check validity of the transaction (including the sender's signature)
         if (!transaction.isValid()) {
-            // Special case: Allow mining reward transactions to pass validation
-            // Mining rewards come from a special address "MINING_REWARD" indicating they're system-generated
-            if (transaction.fromAddress === "MINING_REWARD") {
-                // Mining rewards are allowed without standard validation
-            } else {
-                // Reject invalid transactions from normal addresses
-                throw new Error("Invalid transaction");
+            throw new Error("Invalid transaction");
+        }
+
+        // New blocks use the current encoding, so an older transaction could never be mined (see versionIssues)
+        if (transaction.version !== ENCODING_VERSION) {
+            throw new Error(`Transaction ${transaction.hash} uses encoding version ${transaction.version}: rebuild and sign it again`);
+        }
+
+        if (this.mempool.has(transaction.hash)) {
+            throw new Error(`Transaction ${transaction.hash} is already pending`);
+        }
+        const confirmedIn = this.transactionIndex.get(transaction.hash);
+        if (confirmedIn) {
+            throw new Error(`Transaction ${transaction.hash} is already confirmed in block ${confirmedIn.index}`);
+        }
+        if (this.mempool.isExpired(transaction, this.clock.now())) {
+            throw new Error(`Transaction ${transaction.hash} has expired`);
+        }
+
+        // A pending transaction this one would replace doesn't count against the sender's funds
+        const replaced = this.mempool.findConflict(transaction);
+
+        // Reject overdrafts: the sender can only spend what is confirmed on chain
+        // minus what they have already committed to in the pending pool
+        if (this.ledger === "utxo") {
+            this.checkInputsSpendable(transaction, replaced);
+        } else {
+            if (transaction.inputs.length > 0) {
+                throw new Error("Transaction inputs are only supported in UTXO mode");
+            }
+            if (transaction.lockingScript !== null) {
+                throw new Error("Locking scripts are only supported in UTXO mode");
+            }
+
+            // Each sender's transactions are numbered 0, 1, 2, ... - a replacement reuses the number it replaces
+            const expected = replaced ? replaced.sequence : this.getNextNonce(transaction.fromAddress);
+            if (transaction.sequence !== expected) {
+                throw new Error(
+                    `Invalid sequence number: transaction ${transaction.hash} uses ${transaction.sequence ?? "none"} ` +
+                    `but the next for address ${transaction.fromAddress} is ${expected}`
+                );
+            }
+
+            const available = this.getBalanceOfAddress(transaction.fromAddress) -
+                this.getPendingOutgoing(transaction.fromAddress, replaced);
+            if (transaction.getCost() > available) {
+                throw new Error(
+                    `Insufficient balance: address ${transaction.fromAddress} has ${available} available ` +
+                    `but transaction ${transaction.hash} sends ${transaction.getCost()}`
+                );
             }
         }
 
-        // Add valid transaction to pending pool
-        this.pendingTransactions.push(transaction);
+        // Add valid transaction to pending pool (which enforces replace-by-fee and the pool's capacity)
+        const removed = this.mempool.add(transaction);
+        if (this.ledger === "account" && removed.some(evicted => evicted !== replaced)) {
+            // An evicted transaction leaves a gap in its sender's sequence, so later ones can't be mined either
+            this.readmitPending(this.mempool.getTransactions());
+        } else {
+            this.store?.savePending(this.mempool.getTransactions());
+        }
 
         // Return the index of the next block (where this transaction will eventually be mined)
         return this.getLatestBlock().index + 1;
     }
 
     /**
-     * Mines all pending transactions into a new block
-     * Also adds a mining reward transaction for the miner in the SAME block
+     * Mines the most valuable pending transactions into a new block
+     * Transactions are taken highest fee rate first until the block's transaction count or byte limit is reached;
+     * the rest stay pending. Expired transactions are dropped first
+     * Also adds a mining reward transaction for the miner at the end of the SAME block, worth the subsidy for the block's
+     * height plus the fees collected (left out if that comes to nothing, once the supply cap is reached)
      * This is a simplified implementation - real blockchains typically include mining rewards in the next block
      * @param miningRewardAddress Address to receive mining reward
      * @throws Error if mining reward address is missing
      */
     public minePendingTransactions(miningRewardAddress: string): void {
+        const newBlock = this.createBlockTemplate(miningRewardAddress);
+
+        // Perform the mining operation (Proof of Work, or the validator's signature under the other engines)
+        this.consensus.seal(newBlock);
+
+        // Add mined block to the chain
+        this.extendChain(newBlock);
+        this.events.emit("blockMined", { block: newBlock });
+    }
+
+    /**
+     * Mines the most valuable pending transactions into a new block on worker threads, without blocking the event loop
+     * Chooses the transactions and reward exactly like minePendingTransactions, then splits the nonce space across
+     * workers (see mineInWorkers). Mining is cancelled automatically if the main chain's tip changes first -
+     * e.g. a competing block for the same height arrives through addBlock - since the block could no longer extend it
+     * @param miningRewardAddress - Address to receive mining reward
+     * @param options - Worker count, abort signal and progress callback
+     * @throws Error if mining reward address is missing
+     * @returns The mined block, once it has been added to the chain; rejects with the signal's reason if aborted,
+     *   or with a MiningCancelledError if the chain moved on
+     */
+    public async minePendingTransactionsAsync(miningRewardAddress: string, options: MiningOptions = {}): Promise<Block> {
+        const newBlock = this.createBlockTemplate(miningRewardAddress);
+
+        // Registered before the first await, so a block added while the workers start up still cancels the job
+        const controller = new AbortController();
+        this.miningJobs.set(controller, newBlock.previousHash);
+        try {
+            const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+            await this.consensus.sealAsync(newBlock, { ...options, signal });
+        } finally {
+            this.miningJobs.delete(controller);
+        }
+
+        this.extendChain(newBlock);
+        this.events.emit("blockMined", { block: newBlock });
+        return newBlock;
+    }
+
+    /**
+     * Builds the next block from the most valuable pending transactions, ready to be mined
+     * Expired transactions are dropped first; the mining reward goes last (see minePendingTransactions)
+     * @param miningRewardAddress - Address to receive mining reward
+     * @throws Error if mining reward address is missing
+     * @returns The unmined block, building on the current tip
+     */
+    private createBlockTemplate(miningRewardAddress: string): Block {
         // Validate mining reward recipient
         if (!miningRewardAddress) {
             throw new Error("Mining reward address is required");
         }
 
-        // Create a copy of pending transactions to mine
-        // This prevents modification during the mining process
-        const transactionsToMine = [...this.pendingTransactions];
-
+        // Choose the transactions to mine (a copy, so the pool can change during mining)
+        if (this.mempool.expire(this.clock.now()).length > 0) {
+            this.readmitPending(this.mempool.getTransactions());  // Also drops any that followed an expired one in sequence
+        }
+        const transactionsToMine = this.mempool.selectForBlock({
+            maxTransactions: this.config.maxBlockTransactions,
+            maxBytes: this.config.maxBlockBytes
+        });
         // Create a mining reward transaction 
-        // Using special "MINING_REWARD" address as sender indicates this is system-generated
-        const rewardTx = new Transaction("MINING_REWARD", miningRewardAddress, this.miningReward);
-        transactionsToMine.push(rewardTx);  // Add reward to the same block being mined
-
-        // Create and mine new block with all transactions
+        // Using the special COINBASE_ADDRESS as sender indicates this is system-generated
         const latestBlock = this.getLatestBlock();
-        const newBlock = new Block(
+        const reward = this.getExpectedReward(latestBlock.index + 1, transactionsToMine);
+        if (reward > 0) {
+            const rewardTx = new Transaction(COINBASE_ADDRESS, miningRewardAddress, reward, { clock: this.clock, nonces: this.nonces });
+            transactionsToMine.push(rewardTx);  // Add reward to the same block being mined
+        }
+
+        // Create new block with all transactions
+        const block = new Block(
             latestBlock.index + 1,  // Increment index
             latestBlock.hash,       // Link to previous block
             transactionsToMine,     // Include all pending transactions + mining reward
-            0                       // Start with nonce 0
+            0,                      // Start with nonce 0
+            this.getDifficulty(),   // Difficulty required at this height
+            undefined,              // Hash is calculated from the contents
+            this.clock              // Timestamp from the chain's clock
         );
 
-        // Perform the mining operation (Proof of Work)
-        this.mineBlock(newBlock);
+        // Blocks mined within the same millisecond (or on a clock standing still) still need increasing timestamps
+        const earliest = this.medianTimePast(this.chain, block.index) + 1;
+        if (block.timestamp < earliest) {
+            block.timestamp = earliest;
+            block.hash = block.calculateHash();
+        }
+        return block;
+    }
 
-        // Add mined block to the chain
-        this.chain.push(newBlock);
+    /**
+     * Cancels background mining that no longer builds on the main chain's tip
+     */
+    private cancelStaleMining(): void {
+        const tip = this.getLatestBlock();
+        for (const [controller, parentHash] of this.miningJobs) {
+            if (parentHash !== tip.hash) {
+                controller.abort(new MiningCancelledError(`Mining cancelled: block ${tip.index} (${tip.hash}) was added to the chain first`));
+            }
+        }
+    }
+
+    /**
+     * Adds a block mined elsewhere (e.g. received from a peer)
+     * A block that extends the tip is appended. A block on another branch is kept as a side branch, and if that
+     * branch now has more cumulative work than the main chain the chain reorganizes onto it (see onReorg).
+     * A block whose parent is unknown is held as an orphan and connected once the parent arrives
+     * Every connected block must pass the same checks as isChainValid along its own branch:
+     * integrity, linking, indexing, required difficulty, proof-of-work, signatures and balances
+     * @param block - The block to add
+     * @throws Error describing why the block was rejected
+     * @returns Where the block ended up
+     */
+    public addBlock(block: Block): BlockStatus {
+        if (this.blocks.has(block.hash) || this.orphans.has(block.hash)) return "known";
+        const [problem] = block.validateBlock();
+        if (problem) {
+            throw new Error(`Invalid block: ${problem.message}`);
+        }
+
+        const parent = this.blocks.get(block.previousHash);
+        if (!parent) {
+            // The required difficulty can't be worked out yet, but an orphan must at least carry the seal it claims
+            const [badSeal] = this.consensus.verifySeal(block);
+            if (badSeal) {
+                throw new Error(`Invalid block: ${badSeal.message}`);
+            }
+            this.addOrphan(block);
+            return "orphan";
+        }
+
+        this.connectBlock(block, parent);
+        this.connectOrphans(block);
+        return this.chain[block.index]?.hash === block.hash ? "main" : "side";
+    }
+
+    /**
+     * Registers a listener for chain activity (see BlockchainEvents for the events and their data)
+     * Listeners run synchronously while the chain changes, so they see the state right after the event
+     * @param type - Event name
+     * @param listener - Called with the event's data
+     * @param options - Only deliver events involving an address, e.g. to notice incoming payments
+     * @returns Function that removes the listener
+     */
+    public on<K extends BlockchainEventType>(type: K, listener: BlockchainListener<K>, options: SubscribeOptions = {}): () => void {
+        return this.events.on(type, listener, options);
+    }
 
-        // Clear pending transactions since they've been processed
-        this.pendingTransactions = [];
+    /**
+     * Registers a listener called whenever the main chain switches to a branch with more work
+     * Shorthand for on("reorg", listener)
+     * @param listener - Called with the common ancestor, depth and the blocks swapped out and in
+     * @returns Function that removes the listener
+     */
+    public onReorg(listener: (event: ReorgEvent) => void): () => void {
+        return this.on("reorg", listener);
+    }
+
+    /**
+     * Validates a block against its (known) parent's branch and adds it to the block tree
+     * @param block - The block to connect
+     * @param parent - The block it builds on
+     * @throws Error describing why the block was rejected
+     */
+    private connectBlock(block: Block, parent: Block): void {
+        if (block.index !== parent.index + 1) {
+            throw new Error(`Invalid block: block ${block.index} does not follow block ${parent.index}`);
+        }
+        const [problem] = [...this.versionIssues(block, parent), ...this.blockSizeIssues(block), ...this.coinbaseIssues(block)];
+        if (problem) {
+            throw new Error(`Invalid block: ${problem.message}`);
+        }
+
+        // Fast path: the block extends the main chain
+        if (parent.hash === this.getLatestBlock().hash) {
+            this.checkTimestamp(block, this.chain);
+            this.checkSeal(block, this.getDifficulty());
+            this.checkBlockLedger(block);
+            this.extendChain(block);
+            return;
+        }
+
+        // Side branch: check difficulty and balances along the branch the block actually belongs to
+        const branch = [...this.getBranch(parent), block];
+        this.checkTimestamp(block, branch);
+        this.checkSeal(block, this.difficultyOnBranch(branch, block.index));
+        try {
+            this.verifyLedger(branch);
+        } catch (error) {
+            throw new Error(`Invalid block: ${(error as Error).message}`);
+        }
+
+        this.indexBlock(block, parent);
+        if (this.chainWork.get(block.hash)! > this.getChainWork()) {
+            this.reorganize(branch);
+        }
+    }
+
+    /**
+     * Calculates what a block's mining reward must be worth: the subsidy for its height plus every fee it collects
+     * @param height - Index of the block
+     * @param transactions - The block's regular transactions, in block order
+     * @returns The required reward amount
+     */
+    private getExpectedReward(height: number, transactions: Transaction[]): number {
+        const fees = transactions.reduce((total, transaction) => total + transaction.fee, 0);
+        return this.getBlockSubsidy(height) + fees;
+    }
+
+    /**
+     * Checks a block's mining reward (coinbase): exactly one, as the last transaction, worth exactly the
+     * subsidy plus fees, with no inputs or fee of its own. A block with nothing to pay has no reward at all
+     * @param block - The block to check (not the genesis block)
+     * @returns The broken coinbase rule, if any (at most one issue)
+     */
+    private coinbaseIssues(block: Block): ValidationIssue[] {
+        const transactions: Transaction[] = block.transactions;
+        const regular = transactions.filter(transaction => transaction.fromAddress !== COINBASE_ADDRESS);
+        const rewardCount = transactions.length - regular.length;
+        const expected = this.getExpectedReward(block.index, regular);
+
+        if (expected === 0) {
+            return rewardCount > 0
+                ? [createIssue("BAD_COINBASE", block.index, `block ${block.index} has nothing to pay but includes a mining reward`, {
+                    expected: 0,
+                    actual: rewardCount
+                })]
+                : [];
+        }
+
+        const reward = transactions[transactions.length - 1];
+        if (rewardCount !== 1 || reward?.fromAddress !== COINBASE_ADDRESS) {
+            return [createIssue("BAD_COINBASE", block.index, `block ${block.index} must end with exactly one mining reward`, {
+                expected: 1,
+                actual: rewardCount
+            })];
+        }
+        if (reward.fee !== 0 || reward.inputs.length > 0) {
+            return [createIssue("BAD_COINBASE", block.index, `mining reward in block ${block.index} can't have inputs or a fee`, {
+                txHash: reward.hash
+            })];
+        }
+        if (reward.amount !== expected) {
+            return [createIssue("BAD_COINBASE", block.index, `mining reward in block ${block.index} is ${reward.amount} but should be ${expected}`, {
+                txHash: reward.hash,
+                expected,
+                actual: reward.amount
+            })];
+        }
+        return [];
+    }
+
+    /**
+     * Checks a block against the transaction count and byte limits (the mining reward isn't counted)
+     * @param block - The block to check
+     * @returns An issue for each limit the block exceeds
+     */
+    private blockSizeIssues(block: Block): ValidationIssue[] {
+        const transactions = block.transactions.filter(transaction => transaction.fromAddress !== COINBASE_ADDRESS);
+        const bytes = transactions.reduce((total, transaction) => total + transaction.getSize(), 0);
+
+        const issues: ValidationIssue[] = [];
+        if (transactions.length > this.config.maxBlockTransactions) {
+            issues.push(createIssue(
+                "BLOCK_TOO_LARGE",
+                block.index,
+                `block ${block.index} exceeds the block size limits with ${transactions.length} transactions`,
+                { expected: this.config.maxBlockTransactions, actual: transactions.length }
+            ));
+        }
+        if (bytes > this.config.maxBlockBytes) {
+            issues.push(createIssue(
+                "BLOCK_TOO_LARGE",
+                block.index,
+                `block ${block.index} exceeds the block size limits with ${bytes} bytes of transactions`,
+                { expected: this.config.maxBlockBytes, actual: bytes }
+            ));
+        }
+        return issues;
+    }
+
+    /**
+     * Holds a block whose parent hasn't arrived yet
+     * @param block - The orphan block
+     */
+    private addOrphan(block: Block): void {
+        if (this.orphans.size >= MAX_ORPHAN_BLOCKS) {
+            const oldest = this.orphans.keys().next().value!;
+            this.orphans.delete(oldest);
+        }
+        this.orphans.set(block.hash, block);
+    }
+
+    /**
+     * Connects any orphans (and their descendants) that were waiting for a newly connected block
+     * Orphans that turn out to be invalid are dropped
+     * @param parent - The block that was just connected
+     */
+    private connectOrphans(parent: Block): void {
+        const queue = [parent];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            for (const orphan of [...this.orphans.values()]) {
+                if (orphan.previousHash !== current.hash) continue;
+
+                this.orphans.delete(orphan.hash);
+                try {
+                    this.connectBlock(orphan, current);
+                    queue.push(orphan);
+                } catch {
+                    continue;
+                }
+            }
+        }
+    }
+
+    /**
+     * Checks a block's timestamp against the blocks before it and the chain's clock (see timestampIssues)
+     * @param block - The block to check
+     * @param branch - Blocks from genesis up to at least the block's parent
+     * @throws Error if the timestamp is too early or too far in the future
+     */
+    private checkTimestamp(block: Block, branch: Block[]): void {
+        const [problem] = this.timestampIssues(block, branch, block.index, this.clock.now());
+        if (problem) {
+            throw new Error(`Invalid block: ${problem.message}`);
+        }
+    }
+
+    /**
+     * Checks the rules that keep block timestamps honest, since difficulty retargeting and time locks rely on them:
+     * a block must be later than the median of the blocks before it, and no further ahead of the clock than
+     * maxFutureBlockTime. Together they stop a miner from post-dating blocks to ease the difficulty
+     * @param block - The block to check
+     * @param branch - Blocks from genesis up to at least height - 1
+     * @param height - Position of the block on the branch
+     * @param now - Current time by the chain's clock
+     * @returns An issue for each rule the timestamp breaks
+     */
+    private timestampIssues(block: Block, branch: Block[], height: number, now: number): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const median = this.medianTimePast(branch, height);
+        if (block.timestamp <= median) {
+            issues.push(createIssue("BAD_TIMESTAMP", height,
+                `block ${height} timestamp ${block.timestamp} is not later than the median ${median} of the blocks before it`, {
+                    expected: median,
+                    actual: block.timestamp
+                }));
+        }
+        const latest = now + this.config.maxFutureBlockTime;
+        if (block.timestamp > latest) {
+            issues.push(createIssue("BAD_TIMESTAMP", height,
+                `block ${height} timestamp ${block.timestamp} is more than ${this.config.maxFutureBlockTime}ms in the future`, {
+                    expected: latest,
+                    actual: block.timestamp
+                }));
+        }
+        return issues;
+    }
+
+    /**
+     * Calculates the median timestamp of the (up to MEDIAN_TIME_BLOCKS) blocks before a height on a branch
+     * Unlike a single block's timestamp, one miner can't move it, so it only ever goes forward
+     * @param branch - Blocks from genesis up to at least height - 1
+     * @param height - Index of the block that follows them
+     * @returns The median time past (0 for the genesis block, which has no blocks before it)
+     */
+    private medianTimePast(branch: Block[], height: number): number {
+        const timestamps = branch
+            .slice(Math.max(0, height - MEDIAN_TIME_BLOCKS), height)
+            .map(block => block.timestamp)
+            .sort((a, b) => a - b);
+        return timestamps[Math.floor(timestamps.length / 2)] ?? 0;
+    }
+
+    /**
+     * Gets what time and height locks are checked against for spends in a block (UTXO mode)
+     * The time is the median time past rather than the block's own timestamp, which its miner chooses -
+     * otherwise a miner could open a time lock early by post-dating the block
+     * @param branch - Blocks from genesis up to at least height - 1
+     * @param height - Index of the block the spends are in
+     * @returns The spend context
+     */
+    private spendContext(branch: Block[], height: number): SpendContext {
+        return { time: this.medianTimePast(branch, height), height };
+    }
+
+    /**
+     * Checks that a block was mined at the required difficulty and carries a valid seal
+     * @param block - The block to check
+     * @param requiredDifficulty - Difficulty required at the block's height on its branch
+     * @throws Error describing what is wrong with the seal
+     */
+    private checkSeal(block: Block, requiredDifficulty: number): void {
+        if (block.difficulty !== requiredDifficulty) {
+            throw new Error(`Invalid block: block ${block.index} does not meet the required difficulty`);
+        }
+        const [problem] = this.consensus.verifySeal(block);
+        if (problem) {
+            throw new Error(`Invalid block: ${problem.message}`);
+        }
+    }
+
+    /**
+     * Records a validated block in the block tree and the store
+     * @param block - The block to record
+     * @param parent - The block it builds on
+     */
+    private indexBlock(block: Block, parent: Block): void {
+        this.blocks.set(block.hash, block);
+        this.chainWork.set(block.hash, this.chainWork.get(parent.hash)! + this.consensus.blockWork(block));
+        this.store?.appendBlock(block);
+    }
+
+    /**
+     * Walks back from a block to the main chain
+     * @param tip - Any connected block
+     * @returns Every block from genesis up to and including tip
+     */
+    private getBranch(tip: Block): Block[] {
+        const sideBlocks: Block[] = [];
+        let block = tip;
+        while (this.chain[block.index]?.hash !== block.hash) {
+            sideBlocks.unshift(block);
+            block = this.blocks.get(block.previousHash)!;
+        }
+        return [...this.chain.slice(0, block.index + 1), ...sideBlocks];
+    }
+
+    /**
+     * Switches the main chain to a branch with more cumulative work
+     * The displaced blocks are rolled back: their transactions return to the pending pool
+     * (unless the new branch already confirmed them or they no longer fit) and reorg listeners are notified
+     * @param branch - The new main chain, from genesis to its tip (already validated)
+     */
+    private reorganize(branch: Block[]): void {
+        // Find where the branches diverge
+        let forkHeight = 1;
+        while (this.chain[forkHeight]?.hash === branch[forkHeight]!.hash) {
+            forkHeight++;
+        }
+        const removedBlocks = this.chain.slice(forkHeight);
+        const addedBlocks = branch.slice(forkHeight);
+
+        this.chain = branch;
+        this.rebuildState();
+
+        const confirmed = new Set(addedBlocks.flatMap(block => block.transactions.map(transaction => transaction.hash)));
+        const returned = removedBlocks
+            .flatMap(block => block.transactions)
+            .filter(transaction => transaction.fromAddress !== COINBASE_ADDRESS);
+        this.readmitPending(
+            [...returned, ...this.mempool.getTransactions()].filter(transaction => !confirmed.has(transaction.hash))
+        );
+
+        const event: ReorgEvent = {
+            commonAncestor: branch[forkHeight - 1]!,
+            depth: removedBlocks.length,
+            removedBlocks,
+            addedBlocks
+        };
+        this.cancelStaleMining();
+        for (const block of addedBlocks) {
+            this.events.emit("blockAdded", { block });
+        }
+        this.events.emit("reorg", event);
+    }
+
+    /**
+     * Trial-applies a block's transactions on top of the current ledger without changing it
+     * @param block - The candidate next block
+     * @throws Error naming the transaction that is a duplicate, out of sequence, overdraws or double spends
+     */
+    private checkBlockLedger(block: Block): void {
+        // Mining rewards included: a repeated reward would overwrite the earlier one's output in UTXO mode, losing its coins
+        const seen = new Set<string>();
+        for (const transaction of block.transactions) {
+            if (seen.has(transaction.hash) || this.transactionIndex.has(transaction.hash)) {
+                throw new Error(`Invalid block: duplicate transaction ${transaction.hash} in block ${block.index}`);
+            }
+            seen.add(transaction.hash);
+        }
+
+        if (this.ledger === "utxo") {
+            const utxos = this.utxos.clone();
+            const context = this.spendContext(this.chain, block.index);
+            for (const transaction of block.transactions) {
+                try {
+                    utxos.applyTransaction(transaction, context);
+                } catch (error) {
+                    throw new Error(`Invalid block: ${(error as Error).message} in block ${block.index}`);
+                }
+            }
+            return;
+        }
+
+        const balances = new Map<string, number>();
+        const nonces = new Map<string, number>();
+        for (const transaction of block.transactions) {
+            // Without scripts nothing could enforce a script address's conditions
+            if (transaction.lockingScript !== null) {
+                throw new Error(`Invalid block: transaction ${transaction.hash} in block ${block.index} has a locking script in account mode`);
+            }
+            if (transaction.fromAddress !== COINBASE_ADDRESS) {
+                const nonce = nonces.get(transaction.fromAddress) ?? this.state.getNonce(transaction.fromAddress);
+                if (transaction.sequence !== nonce) {
+                    throw new Error(
+                        `Invalid block: transaction ${transaction.hash} in block ${block.index} should have ` +
+                        `sequence number ${nonce} for address ${transaction.fromAddress}`
+                    );
+                }
+                nonces.set(transaction.fromAddress, nonce + 1);
+
+                const balance = (balances.get(transaction.fromAddress) ?? this.getBalanceOfAddress(transaction.fromAddress)) -
+                    transaction.getCost();
+                if (balance < 0) {
+                    throw new Error(
+                        `Invalid block: negative balance for address ${transaction.fromAddress} ` +
+                        `after transaction ${transaction.hash} in block ${block.index}`
+                    );
+                }
+                balances.set(transaction.fromAddress, balance);
+            }
+            balances.set(
+                transaction.toAddress,
+                (balances.get(transaction.toAddress) ?? this.getBalanceOfAddress(transaction.toAddress)) + transaction.amount
+            );
+        }
+    }
+
+    /**
+     * Appends an already validated block to the main chain and brings everything derived from the chain up to date
+     * @param block - The block to append (must build on the current tip)
+     */
+    private extendChain(block: Block): void {
+        // Add the block to the chain (and make it durable before anything else changes)
+        this.indexBlock(block, this.getLatestBlock());
+        this.chain.push(block);
+
+        // Keep the balance index (and in UTXO mode the unspent outputs) in step with the chain
+        this.state.applyBlock(block);
+        this.history.applyBlock(block);
+        this.indexTransactions(block);
+        if (this.ledger === "utxo") {
+            const context = this.spendContext(this.chain, block.index);
+            for (const transaction of block.transactions) {
+                this.utxos.applyTransaction(transaction, context);
+            }
+        }
+
+        this.dropSettledPending(block);
+        this.cancelStaleMining();
+        this.events.emit("blockAdded", { block });
+    }
+
+    /**
+     * Drops the pending transactions a new main-chain block confirmed or made invalid, leaving the rest of the pool as is
+     * Only the block's senders can lose out: in UTXO mode a pending transaction spending an output the block spent is
+     * now a double spend, and in account mode each sender's pending transactions must still follow on from their new
+     * nonce and fit in their new balance (a block only ever adds to everyone else's balance)
+     * @param block - The block just appended to the main chain
+     */
+    private dropSettledPending(block: Block): void {
+        const confirmed = new Set(block.transactions.map(transaction => transaction.hash));
+        const spent = new Set(block.transactions.flatMap(transaction => transaction.inputs).map(input => UTXOSet.keyOf(input)));
+        const senders = new Set(block.transactions.map(transaction => transaction.fromAddress));
+
+        const dropped: Transaction[] = [];
+        const queues = new Map<string, Transaction[]>();  // Surviving pending transactions of the block's senders (account mode)
+        for (const pending of this.mempool.getTransactions()) {
+            if (confirmed.has(pending.hash) || pending.inputs.some(input => spent.has(UTXOSet.keyOf(input)))) {
+                dropped.push(pending);
+            } else if (this.ledger === "account" && senders.has(pending.fromAddress)) {
+                queues.set(pending.fromAddress, [...(queues.get(pending.fromAddress) ?? []), pending]);
+            }
+        }
+
+        for (const [address, queue] of queues) {
+            let nonce = this.state.getNonce(address);
+            let available = this.getBalanceOfAddress(address);
+            for (const pending of queue.sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0))) {
+                if (pending.sequence !== nonce || pending.getCost() > available) {
+                    dropped.push(pending);  // Also strands the rest of the sender's sequence, which then can't match the nonce
+                    continue;
+                }
+                nonce++;
+                available -= pending.getCost();
+            }
+        }
+
+        if (dropped.length === 0) return;
+        for (const pending of dropped) {
+            this.mempool.remove(pending.hash);
+        }
+        this.store?.savePending(this.mempool.getTransactions());
+    }
+
+    /**
+     * Replaces the pending pool, re-running admission checks for each transaction in order
+     * (in account mode, in sequence number order so each sender's transactions follow on from one another)
+     * Transactions that no longer pass (e.g. now overdrafts, or out of sequence) are dropped
+     * @param transactions - Candidate pending transactions
+     */
+    private readmitPending(transactions: Transaction[]): void {
+        if (this.ledger === "account") {
+            transactions = [...transactions].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+        }
+
+        this.mempool.clear();
+        for (const transaction of transactions) {
+            try {
+                this.admitTransaction(transaction);
+            } catch {
+                continue;
+            }
+        }
+        this.store?.savePending(this.mempool.getTransactions());
+    }
+
+    /**
+     * Gets the ledger model the chain was created with
+     * @returns "account" or "utxo"
+     */
+    public getLedgerMode(): LedgerMode {
+        return this.ledger;
+    }
+
+    /**
+     * Gets the time source the chain was created with
+     * Transactions built for this chain (see Wallet.createTransaction) take their timestamps from it
+     * @returns The chain's clock
+     */
+    public getClock(): Clock {
+        return this.clock;
+    }
+
+    /**
+     * Gets the nonce source the chain was created with
+     * @returns The chain's nonce source
+     */
+    public getNonceSource(): NonceSource {
+        return this.nonces;
+    }
+
+    /**
+     * Lists the transactions waiting to be mined
+     * @returns A copy of the pending pool, in admission order
+     */
+    public getPendingTransactions(): Transaction[] {
+        return this.mempool.getTransactions();
+    }
+
+    /**
+     * Looks up a transaction on the main chain or in the pending pool
+     * @param hash - Transaction hash
+     * @returns The transaction and the block that confirmed it (null while pending), or null if unknown
+     */
+    public findTransaction(hash: string): { transaction: Transaction; block: Block | null } | null {
+        const block = this.transactionIndex.get(hash);
+        if (block) {
+            return { transaction: block.transactions.find(candidate => candidate.hash === hash)!, block };
+        }
+        const pending = this.mempool.get(hash);
+        return pending ? { transaction: pending, block: null } : null;
+    }
+
+    /**
+     * Looks up a transaction on the main chain or in the pending pool, with its confirmation count
+     * @param hash - Transaction hash
+     * @returns The transaction, the block that confirmed it and how deep that block is, or null if unknown
+     */
+    public getTransaction(hash: string): TransactionLookup | null {
+        const found = this.findTransaction(hash);
+        if (!found) return null;
+        const confirmations = found.block ? this.chain.length - found.block.index : 0;
+        return { ...found, confirmations };
+    }
+
+    /**
+     * Looks up a main-chain block by hash in constant time
+     * @param hash - Block hash
+     * @returns The block, or null if no main-chain block has that hash (side-branch blocks included)
+     */
+    public getBlockByHash(hash: string): Block | null {
+        const block = this.blocks.get(hash);
+        return block && this.chain[block.index]?.hash === hash ? block : null;
+    }
+
+    /**
+     * Gets a run of consecutive main-chain blocks
+     * @param start - Index of the first block
+     * @param end - Index of the last block (inclusive; clamped to the tip)
+     * @throws Error if the indexes aren't non-negative integers or start comes after end
+     * @returns The blocks, oldest first (empty if start is past the tip)
+     */
+    public getBlocksInRange(start: number, end: number): Block[] {
+        if (![start, end].every(index => Number.isSafeInteger(index) && index >= 0) || start > end) {
+            throw new Error("Block range must be two non-negative integers with the start no later than the end");
+        }
+        return this.chain.slice(start, end + 1);
+    }
+
+    /**
+     * Reads an address's confirmed transactions a page at a time, newest first, each with the balance it left behind
+     * Served from an index kept up to date as blocks are appended (and rebuilt on a reorganization)
+     * @param address - Address to look up
+     * @param query - Cursor and page size
+     * @throws Error if the limit isn't a positive integer, or the cursor doesn't belong to this address's current history
+     * @returns One page of the history, and the cursor of the next
+     */
+    public getAddressHistory(address: string, query: HistoryQuery = {}): AddressHistoryPage {
+        const limit = query.limit ?? DEFAULT_HISTORY_LIMIT;
+        if (!Number.isSafeInteger(limit) || limit < 1) {
+            throw new Error("History page limit must be a positive integer");
+        }
+        return this.history.getPage(address, limit, query.cursor ?? null);
+    }
+
+    /**
+     * Gets the sequence number an address's next transaction must use (account mode only)
+     * That is the number of transactions it has confirmed on chain plus the number it has pending
+     * @param address - Sender address
+     * @throws Error if the chain uses the UTXO ledger (where spent outputs already prevent replays)
+     * @returns The next nonce
+     */
+    public getNextNonce(address: string): number {
+        if (this.ledger !== "account") {
+            throw new Error("Nonces are only tracked in account mode");
+        }
+        const pending = this.mempool.getTransactions().filter(transaction => transaction.fromAddress === address);
+        return this.state.getNonce(address) + pending.length;
+    }
+
+    /**
+     * Sums the amounts (plus fees) an address is already sending in the pending transactions pool
+     * Used to stop a sender from double-committing the same confirmed funds before they are mined
+     * @param address Address whose pending debits should be summed
+     * @param excluded Pending transaction to leave out (one that is about to be replaced)
+     * @returns Total amount pending to be sent from the address
+     */
+    private getPendingOutgoing(address: string, excluded?: Transaction): number {
+        let total = 0;
+        for (const transaction of this.mempool.getTransactions()) {
+            if (transaction.fromAddress === address && transaction !== excluded) {
+                total += transaction.getCost();
+            }
+        }
+        return total;
+    }
+
+    /**
+     * Checks that a UTXO-mode transaction only spends confirmed outputs the sender owns,
+     * that no pending transaction already spends them, and that they cover the amount plus the fee
+     * @param transaction - The transaction to check
+     * @param replaced - Pending transaction it replaces, whose outputs it may spend again
+     * @throws Error describing the double spend or shortfall
+     */
+    private checkInputsSpendable(transaction: Transaction, replaced?: Transaction): void {
+        if (transaction.inputs.length === 0) {
+            throw new Error(`Transaction ${transaction.hash} has no inputs`);
+        }
+
+        // Outputs claimed by pending transactions can't be spent again until a block settles them
+        const pendingSpent = new Set<string>();
+        for (const pending of this.mempool.getTransactions()) {
+            if (pending === replaced) continue;
+            for (const input of pending.inputs) {
+                pendingSpent.add(UTXOSet.keyOf(input));
+            }
+        }
+        for (const input of transaction.inputs) {
+            const key = UTXOSet.keyOf(input);
+            if (pendingSpent.has(key)) {
+                throw new Error(`Double spend: output ${key} is already spent by a pending transaction`);
+            }
+        }
+
+        // Time and height locks must already be met by the next block that could confirm it
+        const inputTotal = this.utxos.getInputTotal(transaction, this.spendContext(this.chain, this.chain.length));
+        if (transaction.getCost() > inputTotal) {
+            throw new Error(
+                `Insufficient balance: inputs of transaction ${transaction.hash} are worth ${inputTotal} ` +
+                `but it sends ${transaction.getCost()}`
+            );
+        }
+    }
+
+    /**
+     * Lists the unspent outputs an address can spend (UTXO mode only)
+     * Reference these as transaction inputs to spend them
+     * @param address Owner address
+     * @throws Error if the chain uses the account ledger
+     * @returns The address's unspent outputs
+     */
+    public getUnspentOutputs(address: string): UnspentOutput[] {
+        if (this.ledger !== "utxo") {
+            throw new Error("Unspent outputs are only tracked in UTXO mode");
+        }
+        return this.utxos.getUnspentOutputs(address);
+    }
+
+    /**
+     * Gets the confirmed balance of an address from the world-state index
+     * The index is updated as blocks are appended, so this is a constant-time lookup
+     * @param address Address to look up
+     * @returns The current confirmed balance of the address
+     */
+    public getBalanceOfAddress(address: string): number {
+        if (!address) return 0;  // Empty address has zero balance
+        return this.state.getBalance(address);
+    }
+
+    /**
+     * Takes a snapshot of every confirmed balance in the world-state index
+     * @returns Map from address to balance (a copy - later blocks won't change it)
+     */
+    public getAllBalances(): Map<string, number> {
+        return this.state.getAllBalances();
+    }
+
+    /**
+     * Rebuilds the world-state index (and in UTXO mode the unspent outputs) by replaying the chain
+     * Use after the chain has been loaded or replaced wholesale
+     */
+    public rebuildState(): void {
+        this.state = WorldState.fromChain(this.chain);
+        this.history = AddressHistory.fromChain(this.chain);
+        this.transactionIndex.clear();
+        for (const block of this.chain) {
+            this.indexTransactions(block);
+        }
+
+        if (this.ledger === "utxo") {
+            this.utxos = new UTXOSet();
+            this.chain.forEach((block, height) => {
+                const context = this.spendContext(this.chain, height);
+                for (const transaction of block.transactions) {
+                    this.utxos.applyTransaction(transaction, context);
+                }
+            });
+        }
+    }
+
+    /**
+     * Records which main-chain block confirmed each of a block's transactions
+     * Valid chains never confirm a hash twice, but an invalid one being validated might, so the first block to confirm one is kept
+     * @param block - A block that was just added to the main chain
+     */
+    private indexTransactions(block: Block): void {
+        for (const transaction of block.transactions) {
+            if (!this.transactionIndex.has(transaction.hash)) {
+                this.transactionIndex.set(transaction.hash, block);
+            }
+        }
     }
 
     /**
      * Calculates the balance for a given address by scanning the entire blockchain
      * Sums all incoming transactions (credits) and subtracts all outgoing transactions (debits)
-     * Note: This approach requires scanning the entire chain for each balance check - not scalable for large chains
+     * Note: This approach requires scanning the entire chain for each balance check - not scalable for large chains.
+     * It is kept as the reference implementation that the world-state index is checked against
      * @param address Address to calculate balance for
-     * @returns The current balance of the address (can be negative)
+     * @returns The balance of the address according to the chain
      */
-    public getBalanceOfAddress(address: string): number {
+    public calculateBalanceFromChain(address: string): number {
         if (!address) return 0;  // Empty address has zero balance
 
         let balance = 0;
@@ -155,9 +1401,10 @@ export class Blockchain {
         for (const block of this.chain) {
             // Examine each transaction in the block
             for (const transaction of block.transactions) {
-                // Debit: If this address is sending money, subtract from balance
-                if (transaction.fromAddress === address) {
-                    balance -= transaction.amount;
+                // Debit: If this address is sending money, subtract the amount and fee from balance
+                // (mining rewards are minted, so their sentinel sender is never debited)
+                if (transaction.fromAddress === address && address !== COINBASE_ADDRESS) {
+                    balance -= transaction.getCost();
                 }
                 // Credit: If this address is receiving money, add to balance
                 if (transaction.toAddress === address) {
@@ -169,55 +1416,321 @@ export class Blockchain {
     }
 
     /**
-     * Validates the entire blockchain for integrity
+     * Checks that the world-state index agrees with a full scan of the chain for every address
+     * In UTXO mode the unspent outputs must add up to the same balances too
+     * @throws Error naming the first address whose indexed balance differs from the scan
+     */
+    public verifyStateConsistency(): void {
+        // Every address that appears on chain or in the index must agree
+        const addresses = new Set(this.state.getAllBalances().keys());
+        for (const block of this.chain) {
+            for (const transaction of block.transactions) {
+                if (transaction.fromAddress !== COINBASE_ADDRESS) addresses.add(transaction.fromAddress);
+                addresses.add(transaction.toAddress);
+            }
+        }
+
+        for (const address of addresses) {
+            const indexed = this.state.getBalance(address);
+            const scanned = this.calculateBalanceFromChain(address);
+            if (indexed !== scanned) {
+                throw new Error(`World state mismatch for address ${address}: index has ${indexed}, chain has ${scanned}`);
+            }
+            if (this.ledger === "utxo" && this.utxos.getBalance(address) !== scanned) {
+                throw new Error(
+                    `World state mismatch for address ${address}: unspent outputs hold ${this.utxos.getBalance(address)}, chain has ${scanned}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Replays every block in order and checks that no address ever spends more than it holds
+     * Mining rewards are system-generated, so the COINBASE_ADDRESS sender is never debited
+     * No transaction may be confirmed twice, and in account mode each sender's sequence numbers must run 0, 1, 2, ...
+     * In UTXO mode every input must reference an output that is unspent at that point in the chain,
+     * which catches double spends both across blocks and within a single block
+     * @throws Error naming the offending address and transaction hash if any balance goes negative,
+     * a transaction repeats or is out of sequence
+     */
+    public verifyBalances(): void {
+        this.verifyLedger(this.chain);
+    }
+
+    /**
+     * Replays the ledger of a branch (see verifyBalances)
+     * @param branch - Blocks from genesis onwards
+     * @throws Error naming the first offending transaction
+     */
+    private verifyLedger(branch: Block[]): void {
+        const [problem] = this.ledgerIssues(branch);
+        if (problem) {
+            throw new Error(problem.message);
+        }
+    }
+
+    /**
+     * Replays the ledger of a branch and collects every rule it breaks (see verifyBalances)
+     * A transaction that breaks a rule is left out of the replay, so the ones after it are checked as if it weren't there
+     * @param branch - Blocks from genesis onwards
+     * @returns An issue for each duplicate, out-of-sequence, overdrawing or unspendable transaction, in chain order
+     */
+    private ledgerIssues(branch: Block[]): ValidationIssue[] {
+        const issues: ValidationIssue[] = [];
+        const seen = new Set<string>();
+        const utxos = new UTXOSet();
+        const balances = new Map<string, number>();
+        const nonces = new Map<string, number>();
+
+        for (const [height, block] of branch.entries()) {
+            const context = this.spendContext(branch, height);
+            for (const transaction of block.transactions) {
+                // Mining rewards included (see checkBlockLedger)
+                if (seen.has(transaction.hash)) {
+                    issues.push(createIssue("DUPLICATE_TX", block.index, `Duplicate transaction ${transaction.hash} in block ${block.index}`, {
+                        txHash: transaction.hash
+                    }));
+                    continue;
+                }
+                seen.add(transaction.hash);
+
+                if (this.ledger === "utxo") {
+                    try {
+                        utxos.applyTransaction(transaction, context);
+                    } catch (error) {
+                        issues.push(createIssue("INVALID_SPEND", block.index, `${(error as Error).message} in block ${block.index}`, {
+                            txHash: transaction.hash
+                        }));
+                    }
+                    continue;
+                }
+
+                if (transaction.lockingScript !== null) {
+                    issues.push(createIssue("INVALID_SPEND", block.index,
+                        `Transaction ${transaction.hash} in block ${block.index} has a locking script in account mode`, {
+                            txHash: transaction.hash
+                        }));
+                    continue;
+                }
+
+                // Debit the sender first - a transaction can't be funded by its own output
+                if (transaction.fromAddress !== COINBASE_ADDRESS) {
+                    const nonce = nonces.get(transaction.fromAddress) ?? 0;
+                    if (transaction.sequence !== nonce) {
+                        issues.push(createIssue(
+                            "BAD_SEQUENCE",
+                            block.index,
+                            `Transaction ${transaction.hash} in block ${block.index} should have ` +
+                            `sequence number ${nonce} for address ${transaction.fromAddress}`,
+                            { txHash: transaction.hash, expected: nonce, actual: transaction.sequence ?? undefined }
+                        ));
+                        continue;
+                    }
+
+                    const available = balances.get(transaction.fromAddress) ?? 0;
+                    if (transaction.getCost() > available) {
+                        issues.push(createIssue(
+                            "OVERDRAFT",
+                            block.index,
+                            `Negative balance for address ${transaction.fromAddress} ` +
+                            `after transaction ${transaction.hash} in block ${block.index}`,
+                            { txHash: transaction.hash, expected: available, actual: transaction.getCost() }
+                        ));
+                        continue;
+                    }
+                    nonces.set(transaction.fromAddress, nonce + 1);
+                    balances.set(transaction.fromAddress, available - transaction.getCost());
+                }
+
+                // Credit the recipient
+                balances.set(transaction.toAddress, (balances.get(transaction.toAddress) ?? 0) + transaction.amount);
+            }
+        }
+        return issues;
+    }
+
+    /**
+     * Throws if the chain fails validation, naming the first issue found
+     * @param context - Prefix for the error message (e.g. where the chain was loaded from)
+     * @throws Error describing why the chain is invalid
+     */
+    private assertChainValid(context: string): void {
+        const [problem] = this.validateChain();
+        if (problem) {
+            throw new Error(`${context}: ${problem.message}`);
+        }
+    }
+
+    /**
+     * Validates the entire blockchain and reports every problem found
      * Performs multiple checks:
      * 1. Genesis block validity
-     * 2. Each block's hash validity
-     * 3. Proper linking between blocks
-     * 4. Transaction validity within blocks
-     * @returns Boolean indicating if the entire chain is valid
+     * 2. Each block's hash, Merkle root and transactions (see Block.validateBlock)
+     * 3. Proper linking and sequential indexing between blocks
+     * 4. Timestamps later than the median of the blocks before them and not too far in the future,
+     *    block size limits and the mining reward
+     * 5. Each block mined at the difficulty required for its height, and sealed as the consensus engine requires
+     *    (a hash meeting that target, or the signature of the validator chosen for the block)
+     * 6. No address overdrawn, no transaction confirmed twice and (in account mode) every sender's
+     *    sequence numbers in order when replaying the chain (see verifyBalances for the reason)
+     * 7. (UTXO mode) Every script-locked output unlocked by its spender, at the spending block's height and
+     *    median time past
+     * Emits chainInvalidated if any issue is found
+     * @returns Every issue found, ordered by block (empty if the chain is valid)
      */
-    public isChainValid(): boolean {
-        // Check if chain exists
-        if (this.chain.length === 0) return false;
+    public validateChain(): ValidationIssue[] {
+        const issues = this.chainIssues();
+        if (issues.length > 0) {
+            this.events.emit("chainInvalidated", { issues });
+        }
+        return issues;
+    }
 
-        // Check genesis block validity (special first block)
+    /**
+     * Runs every check of validateChain on the main chain
+     * @returns Every issue found, ordered by block
+     */
+    private chainIssues(): ValidationIssue[] {
         const genesisBlock = this.chain[0];
-        if (!genesisBlock ||
-            genesisBlock.index !== 0 ||            // Must be at index 0
-            genesisBlock.previousHash !== "0" ||   // Must have special previous hash "0"
-            genesisBlock.transactions.length !== 0 || // Should have no transactions
-            !genesisBlock.isValid()) {             // Should pass general validity checks
-            return false;
+        if (!genesisBlock) {
+            return [createIssue("BAD_GENESIS", 0, "chain is empty")];
         }
+        const issues = this.genesisIssues(genesisBlock);
+        const now = this.clock.now();
 
         // Check remaining blocks (start from index 1, after genesis)
         for (let i = 1; i < this.chain.length; i++) {
-            const currentBlock = this.chain[i];
-            const previousBlock = this.chain[i - 1];
-
-            // Skip if blocks are undefined (shouldn't happen due to length check)
-            if (!currentBlock || !previousBlock) return false;
+            const currentBlock = this.chain[i]!;
+            const previousBlock = this.chain[i - 1]!;
 
-            // Validate block integrity (hash matches contents)
-            if (!currentBlock.isValid()) return false;
+            // Validate block integrity (hash matches contents, transactions are valid and signed),
+            // reporting by position in case the block's own index was tampered with
+            issues.push(...currentBlock.validateBlock().map(issue => ({ ...issue, blockIndex: i })));
 
             // Validate block linking (hash chain is intact)
-            if (currentBlock.previousHash !== previousBlock.hash) return false;
+            if (currentBlock.previousHash !== previousBlock.hash) {
+                issues.push(createIssue("BROKEN_LINK", i, `block ${i} does not link to the hash of block ${i - 1}`, {
+                    expected: previousBlock.hash,
+                    actual: currentBlock.previousHash
+                }));
+            }
 
             // Validate sequential indexing
-            if (currentBlock.index !== previousBlock.index + 1) return false;
+            if (currentBlock.index !== previousBlock.index + 1) {
+                issues.push(createIssue("BAD_INDEX", i, `block at position ${i} has index ${currentBlock.index}`, {
+                    expected: previousBlock.index + 1,
+                    actual: currentBlock.index
+                }));
+            }
 
-            // Validate all transactions in block
-            for (const transaction of currentBlock.transactions) {
-                // Skip validation for mining reward transactions (they use a special sender)
-                if (transaction.fromAddress === "MINING_REWARD") continue;
+            // Validate the timestamp, the encoding versions, the block size limits and the mining reward
+            issues.push(
+                ...this.timestampIssues(currentBlock, this.chain, i, now),
+                ...this.versionIssues(currentBlock, previousBlock),
+                ...this.blockSizeIssues(currentBlock),
+                ...this.coinbaseIssues(currentBlock)
+            );
 
-                // Ensure each regular transaction is valid
-                if (!transaction.isValid()) return false;
+            // Validate the seal (proof-of-work against the difficulty the chain required at this height, or the validator's signature)
+            const requiredDifficulty = this.getDifficultyForHeight(i);
+            if (currentBlock.difficulty !== requiredDifficulty) {
+                issues.push(createIssue("BAD_DIFFICULTY", i, `block ${i} was not mined at the required difficulty`, {
+                    expected: requiredDifficulty,
+                    actual: currentBlock.difficulty
+                }));
             }
+            issues.push(...this.consensus.verifySeal(currentBlock).map(issue => ({ ...issue, blockIndex: i })));
         }
-        // If all checks pass, the chain is valid
-        return true;
+
+        // Replay the ledger to make sure nobody spent funds they didn't have (or spent an output twice)
+        issues.push(...this.ledgerIssues(this.chain));
+
+        // Sort is stable, so each block's issues keep the order the checks ran in
+        return issues.sort((a, b) => a.blockIndex - b.blockIndex);
+    }
+
+    /**
+     * Validates the entire blockchain for integrity (see validateChain for the checks and the reasons)
+     * @returns Boolean indicating if the entire chain is valid
+     */
+    public isChainValid(): boolean {
+        return this.validateChain().length === 0;
+    }
+
+    /**
+     * Converts the blockchain into a plain object that can be stored or sent as JSON
+     * Includes the settings and pending pool so fromJSON can rebuild an identical, working chain
+     * @returns Plain-object form of the blockchain
+     */
+    public toJSON(): BlockchainJSON {
+        return {
+            options: {
+                ledger: this.ledger,
+                consensus: this.consensus.toJSON(),
+                ...this.getConfig(),
+                maxPendingTransactions: this.maxPendingTransactions,
+                pendingExpiry: this.pendingExpiry
+            },
+            chain: this.chain.map(block => block.toJSON()),
+            pendingTransactions: this.mempool.getTransactions().map(transaction => transaction.toJSON())
+        };
+    }
+
+    /**
+     * Rebuilds a working blockchain from its JSON form
+     * Every block and transaction is rehydrated and verified, the whole chain must pass isChainValid,
+     * and pending transactions go through the normal admission checks again (any in an older encoding are dropped)
+     * @param data - Object produced by toJSON (e.g. after JSON.parse)
+     * @param signer - This node's validator key, to seal new blocks on a proof-of-authority or proof-of-stake chain
+     * @param sources - Clock and nonce source for the rehydrated chain (not part of the data; default to the system clock and random nonces)
+     * @throws Error if the data is malformed or has been tampered with
+     * @returns The rehydrated blockchain
+     */
+    public static fromJSON(data: BlockchainJSON, signer?: KeyPair, sources: Pick<BlockchainOptions, "clock" | "nonces"> = {}): Blockchain {
+        const blockchain = Blockchain.withBlocksOf(data, signer, sources);
+        blockchain.assertChainValid("Invalid chain data");
+
+        // Indexes are derived from the chain, so rebuild them before re-admitting pending transactions
+        blockchain.resetBlockIndex();
+        blockchain.rebuildState();
+        // Pending transactions that no longer fit the chain are dropped rather than rejected, like in loadFromStore:
+        // ones that have expired since they were saved, or were left pending in an older encoding and can never be mined
+        blockchain.readmitPending(data.pendingTransactions.map(pending => Transaction.fromJSON(pending)));
+        return blockchain;
+    }
+
+    /**
+     * Reports every problem with a chain's JSON form without loading it (see validateChain)
+     * fromJSON stops at the first problem; this lists them all, e.g. for auditing a chain file
+     * @param data - Object produced by toJSON (e.g. after JSON.parse)
+     * @throws Error if the data is malformed, or a block or transaction doesn't match its stored hash
+     * @returns Every issue found, in block order (empty for a valid chain)
+     */
+    public static validateJSON(data: BlockchainJSON): ValidationIssue[] {
+        return Blockchain.withBlocksOf(data).validateChain();
+    }
+
+    /**
+     * Creates a chain with the settings and blocks of a chain's JSON form, not yet validated or indexed
+     * @param data - Object produced by toJSON
+     * @param signer - This node's validator key, if any
+     * @param sources - Clock and nonce source for the chain
+     * @throws Error if the data is malformed, or a block or transaction doesn't match its stored hash
+     * @returns The chain, with only its blocks and settings in place
+     */
+    private static withBlocksOf(data: BlockchainJSON, signer?: KeyPair, sources: Pick<BlockchainOptions, "clock" | "nonces"> = {}): Blockchain {
+        if (!data || typeof data !== 'object' ||
+            !data.options || typeof data.options !== 'object' ||
+            !Array.isArray(data.chain) ||
+            !Array.isArray(data.pendingTransactions)) {
+            throw new Error("Invalid chain data: malformed blockchain");
+        }
+
+        const consensus = createConsensus(data.options.consensus ?? { type: "pow" }, signer);
+        // Older data has no genesis timestamp in its options - its genesis block's own is the one it was created with
+        const genesisTimestamp = data.options.genesisTimestamp ?? data.chain[0]?.timestamp;
+        const blockchain = new Blockchain({ ...data.options, genesisTimestamp, consensus, ...sources });
+        blockchain.chain = data.chain.map(block => Block.fromJSON(block));
+        return blockchain;
     }
-} 
\ No newline at end of file
+}
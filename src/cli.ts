@@ -0,0 +1,481 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { Blockchain, type BlockchainJSON, type LedgerMode } from "./blockchain";
+import type { ValidationIssue } from "./validation";
+import { Transaction } from "./transaction";
+import { addressFromPublicKey, generateKeyPair } from "./crypto";
+import { Wallet } from "./wallet";
+
+/**
+ * Where the CLI writes its output (swapped out in tests)
+ */
+export interface CliOutput {
+    log(line: string): void;     // Normal output
+    error(line: string): void;   // Error messages
+}
+
+/**
+ * Where the CLI reads keystore passwords from (swapped out in tests)
+ */
+export interface CliInput {
+    env: Record<string, string | undefined>;      // Environment variables - KEYSTORE_PASSWORD is used if set
+    promptPassword(question: string): string | null; // Asks for a password without echoing it (null if there's no terminal)
+}
+
+/**
+ * Reads passwords from the environment, or from the terminal with echo turned off
+ */
+const terminalInput: CliInput = {
+    env: process.env,
+    promptPassword(question) {
+        if (!process.stdin.isTTY) return null;
+        Bun.spawnSync(["stty", "-echo"], { stdin: "inherit" });
+        try {
+            return prompt(question);
+        } finally {
+            Bun.spawnSync(["stty", "echo"], { stdin: "inherit" });
+            process.stdout.write("\n");
+        }
+    }
+};
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;   // Rejected transaction, invalid chain or a failed operation
+const EXIT_USAGE = 2;     // Unknown command or bad arguments
+
+const DEFAULT_CHAIN_PATH = "chain.json";
+
+const USAGE = `Usage: bun run src/cli.ts <command> [options]
+
+Commands:
+  init                          Create a new chain file (--ledger account|utxo, --difficulty N, --force to overwrite)
+  keygen [keystore]             Generate a key pair and its address (saved to an encrypted keystore file if given)
+  send <keystore> <to> <amount> Sign with the sender's keystore and submit a transaction (--fee N)
+  mine <address>                Mine the pending transactions, rewarding <address>
+  balance <address>             Show an address's confirmed balance
+  show-block <n>                Show a block by index or hash
+  validate                      Check the whole chain (exits 1 if it is invalid)
+  export [file]                 Write the chain as JSON to a file (or stdout)
+  import <file>                 Verify a chain JSON file and make it the current chain
+
+Options:
+  --chain <path>                Chain file to use (defaults to ${DEFAULT_CHAIN_PATH})
+  --json                        Print machine-readable JSON
+
+Keystore passwords are read from KEYSTORE_PASSWORD, or prompted for when it isn't set`;
+
+/**
+ * Raised for bad command-line usage (exit code 2 instead of 1)
+ */
+class UsageError extends Error {}
+
+/**
+ * Parsed command line shared by every command
+ */
+interface CliContext {
+    args: string[];                // Positional arguments after the command name
+    chainPath: string;             // Chain file to operate on
+    json: boolean;                 // Print JSON instead of text
+    options: { ledger?: string; difficulty?: string; fee?: string; force?: boolean };
+    output: CliOutput;
+    input: CliInput;
+}
+
+/**
+ * Runs one CLI command against a chain file
+ * Commands that change the chain save it back to the file, replacing it atomically
+ * @param argv - Arguments after the script name, e.g. ["send", "alice.json", "bob", "1", "--json"]
+ * @param output - Where to print (defaults to the console)
+ * @param input - Where to read keystore passwords (defaults to KEYSTORE_PASSWORD or a terminal prompt)
+ * @returns Process exit code: 0 on success, 1 if a transaction is rejected, the chain is invalid
+ * or an operation fails, 2 for bad usage
+ */
+export function runCli(argv: string[], output: CliOutput = console, input: CliInput = terminalInput): number {
+    let context: CliContext;
+    let command: string | undefined;
+    try {
+        const { values, positionals } = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                chain: { type: "string" },
+                json: { type: "boolean" },
+                ledger: { type: "string" },
+                difficulty: { type: "string" },
+                fee: { type: "string" },
+                force: { type: "boolean" },
+                help: { type: "boolean", short: "h" }
+            }
+        });
+        if (values.help) {
+            output.log(USAGE);
+            return EXIT_OK;
+        }
+        [command] = positionals;
+        context = {
+            args: positionals.slice(1),
+            chainPath: values.chain ?? DEFAULT_CHAIN_PATH,
+            json: values.json ?? false,
+            options: values,
+            output,
+            input
+        };
+    } catch (error) {
+        output.error(`${(error as Error).message}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    try {
+        switch (command) {
+            case "init": return init(context);
+            case "keygen": return keygen(context);
+            case "send": return send(context);
+            case "mine": return mine(context);
+            case "balance": return balance(context);
+            case "show-block": return showBlock(context);
+            case "validate": return validate(context);
+            case "export": return exportChain(context);
+            case "import": return importChain(context);
+            default:
+                throw new UsageError(command ? `Unknown command: ${command}` : "No command given");
+        }
+    } catch (error) {
+        if (error instanceof UsageError) {
+            output.error(`${error.message}\n\n${USAGE}`);
+            return EXIT_USAGE;
+        }
+        report(context, { error: (error as Error).message }, `Error: ${(error as Error).message}`, true);
+        return EXIT_FAILURE;
+    }
+}
+
+/**
+ * Prints a command's result as JSON or text
+ * @param context - The parsed command line
+ * @param data - Result to print with --json
+ * @param text - Result to print otherwise
+ * @param isError - Print to the error stream
+ */
+function report(context: CliContext, data: unknown, text: string, isError: boolean = false): void {
+    const line = context.json ? JSON.stringify(data, null, 2) : text;
+    if (isError) {
+        context.output.error(line);
+    } else {
+        context.output.log(line);
+    }
+}
+
+/**
+ * Checks the number of positional arguments
+ * @param context - The parsed command line
+ * @param min - Fewest allowed
+ * @param max - Most allowed
+ * @throws {UsageError} If the count is out of range
+ */
+function expectArgs(context: CliContext, min: number, max: number = min): void {
+    if (context.args.length < min || context.args.length > max) {
+        throw new UsageError("Wrong number of arguments");
+    }
+}
+
+/**
+ * Gets the password for a keystore, from KEYSTORE_PASSWORD or by asking for it
+ * Never taken as an argument, so it doesn't end up in shell history or the process list
+ * @param context - The parsed command line
+ * @param path - Keystore the password is for
+ * @throws Error if there is no password and no terminal to ask for one
+ * @returns The password
+ */
+function readPassword(context: CliContext, path: string): string {
+    const password = context.input.env.KEYSTORE_PASSWORD ?? context.input.promptPassword(`Password for ${path}: `);
+    if (!password) {
+        throw new Error(`No password for ${path}: set KEYSTORE_PASSWORD or run in a terminal`);
+    }
+    return password;
+}
+
+/**
+ * Reads the chain file without verifying it
+ * @param path - Chain file path
+ * @throws Error if the file is missing or isn't JSON
+ * @returns The chain's raw JSON form
+ */
+function readChainFile(path: string): BlockchainJSON {
+    if (!existsSync(path)) {
+        throw new Error(`No chain file at ${path}`);
+    }
+    try {
+        return JSON.parse(readFileSync(path, "utf8"));
+    } catch {
+        throw new Error(`${path} is not valid JSON`);
+    }
+}
+
+/**
+ * Loads and verifies the chain file
+ * @param path - Chain file path
+ * @throws Error if the file is missing, isn't JSON, or fails verification
+ * @returns The chain and its raw JSON form
+ */
+function loadChain(path: string): { blockchain: Blockchain; data: BlockchainJSON } {
+    const data = readChainFile(path);
+    return { blockchain: Blockchain.fromJSON(data), data };
+}
+
+/**
+ * Writes the chain file, replacing it atomically so a crash never leaves it half-written
+ * @param path - Chain file path
+ * @param blockchain - The chain to save
+ */
+function saveChain(path: string, blockchain: Blockchain): void {
+    const temporaryPath = path + ".tmp";
+    writeFileSync(temporaryPath, JSON.stringify(blockchain));
+    renameSync(temporaryPath, path);
+}
+
+/**
+ * init - creates a new chain file
+ * @param context - The parsed command line
+ * @throws Error if the file exists (without --force) or the options are invalid
+ * @returns Exit code
+ */
+function init(context: CliContext): number {
+    expectArgs(context, 0);
+    if (existsSync(context.chainPath) && !context.options.force) {
+        throw new Error(`${context.chainPath} already exists (use --force to overwrite)`);
+    }
+    const ledger = context.options.ledger ?? "account";
+    if (ledger !== "account" && ledger !== "utxo") {
+        throw new UsageError(`Unknown ledger: ${ledger}`);
+    }
+
+    const blockchain = new Blockchain({
+        ledger: ledger as LedgerMode,
+        initialDifficulty: context.options.difficulty === undefined ? undefined : Number(context.options.difficulty)
+    });
+    saveChain(context.chainPath, blockchain);
+
+    const genesisHash = blockchain.chain[0]!.hash;
+    report(context, { chain: context.chainPath, ledger, genesisHash }, `Created ${ledger} chain ${context.chainPath} (genesis ${genesisHash})`);
+    return EXIT_OK;
+}
+
+/**
+ * keygen - generates a key pair, either printing it or saving it to a password-encrypted keystore
+ * @param context - The parsed command line
+ * @throws Error if the keystore file exists or there is no password for it
+ * @returns Exit code
+ */
+function keygen(context: CliContext): number {
+    expectArgs(context, 0, 1);
+    const keystorePath = context.args[0];
+    if (keystorePath) {
+        if (existsSync(keystorePath)) {
+            throw new Error(`${keystorePath} already exists`);
+        }
+        const wallet = Wallet.generate();
+        wallet.save(keystorePath, readPassword(context, keystorePath));
+        report(
+            context,
+            { keystore: keystorePath, publicKey: wallet.publicKey, address: wallet.address },
+            `Saved key to ${keystorePath}\nPublic key:  ${wallet.publicKey}\nAddress:     ${wallet.address}`
+        );
+        return EXIT_OK;
+    }
+
+    const keys = generateKeyPair();
+    const address = addressFromPublicKey(keys.publicKey);
+    report(
+        context,
+        { ...keys, address },
+        `Private key: ${keys.privateKey}\nPublic key:  ${keys.publicKey}\nAddress:     ${address}`
+    );
+    return EXIT_OK;
+}
+
+/**
+ * send - signs a transaction with the key in the sender's keystore and adds it to the pending pool
+ * In UTXO mode the sender's unspent outputs are used as inputs, oldest first, until they cover the amount plus the fee
+ * @param context - The parsed command line
+ * @throws Error if the keystore can't be opened or the chain rejects the transaction
+ * @returns Exit code
+ */
+function send(context: CliContext): number {
+    expectArgs(context, 3);
+    const [keystorePath, to, amountText] = context.args as [string, string, string];
+    const amount = Number(amountText);
+    if (!Number.isFinite(amount) || amount <= 0) {
+        throw new UsageError(`Invalid amount: ${amountText}`);
+    }
+    const fee = Number(context.options.fee ?? 0);
+    if (!Number.isFinite(fee) || fee < 0) {
+        throw new UsageError(`Invalid fee: ${context.options.fee}`);
+    }
+
+    const { blockchain, data } = loadChain(context.chainPath);
+    if (!existsSync(keystorePath)) {
+        throw new Error(`No keystore at ${keystorePath}`);
+    }
+    const wallet = Wallet.load(keystorePath, readPassword(context, keystorePath));
+    const from = wallet.address;
+
+    // UTXO mode spends enough of the sender's outputs to cover the cost; account mode numbers the transaction instead
+    const inputs = [];
+    let sequence: number | undefined;
+    if (data.options.ledger === "utxo") {
+        let total = 0;
+        for (const { txHash, outputIndex, amount: value } of blockchain.getUnspentOutputs(from)) {
+            if (total >= amount + fee) break;
+            inputs.push({ txHash, outputIndex });
+            total += value;
+        }
+    } else {
+        sequence = blockchain.getNextNonce(from);
+    }
+
+    const transaction = new Transaction(from, to, amount, { inputs, fee, sequence });
+    wallet.sign(transaction);
+    const blockIndex = blockchain.createTransaction(transaction);
+    saveChain(context.chainPath, blockchain);
+
+    report(context, { hash: transaction.hash, blockIndex }, `Submitted ${transaction.hash} (expected in block ${blockIndex})`);
+    return EXIT_OK;
+}
+
+/**
+ * mine - mines the pending transactions into a new block
+ * @param context - The parsed command line
+ * @returns Exit code
+ */
+function mine(context: CliContext): number {
+    expectArgs(context, 1);
+    const { blockchain } = loadChain(context.chainPath);
+    blockchain.minePendingTransactions(context.args[0]!);
+    saveChain(context.chainPath, blockchain);
+
+    const block = blockchain.chain[blockchain.chain.length - 1]!;
+    report(
+        context,
+        block.toJSON(),
+        `Mined block ${block.index} (${block.hash}) with ${block.transactions.length} transaction(s)`
+    );
+    return EXIT_OK;
+}
+
+/**
+ * balance - shows an address's confirmed balance
+ * @param context - The parsed command line
+ * @returns Exit code
+ */
+function balance(context: CliContext): number {
+    expectArgs(context, 1);
+    const { blockchain } = loadChain(context.chainPath);
+    const address = context.args[0]!;
+    const value = blockchain.getBalanceOfAddress(address);
+    report(context, { address, balance: value }, `${address}: ${value}`);
+    return EXIT_OK;
+}
+
+/**
+ * show-block - prints a block by index or hash
+ * @param context - The parsed command line
+ * @throws Error if there is no such block
+ * @returns Exit code
+ */
+function showBlock(context: CliContext): number {
+    expectArgs(context, 1);
+    const { blockchain } = loadChain(context.chainPath);
+    const id = context.args[0]!;
+    const block = /^\d+$/.test(id)
+        ? blockchain.chain[Number(id)]
+        : blockchain.chain.find(candidate => candidate.hash === id);
+    if (!block) {
+        throw new Error(`Block ${id} not found`);
+    }
+
+    const lines = [
+        `Block ${block.index}`,
+        `  Hash:          ${block.hash}`,
+        `  Previous hash: ${block.previousHash}`,
+        `  Merkle root:   ${block.merkleRoot}`,
+        `  Timestamp:     ${new Date(block.timestamp).toISOString()}`,
+        `  Difficulty:    ${block.difficulty}`,
+        `  Nonce:         ${block.nonce}`,
+        `  Transactions:  ${block.transactions.length}`,
+        ...block.transactions.map(transaction =>
+            `    ${transaction.hash}  ${transaction.fromAddress} -> ${transaction.toAddress}  ${transaction.amount}`
+        )
+    ];
+    report(context, block.toJSON(), lines.join("\n"));
+    return EXIT_OK;
+}
+
+/**
+ * validate - checks the whole chain file
+ * A chain file that can't be loaded (tampered, malformed) counts as invalid
+ * @param context - The parsed command line
+ * @returns Exit code: 0 if valid, 1 if not
+ */
+function validate(context: CliContext): number {
+    expectArgs(context, 0);
+    let data: BlockchainJSON;
+    let issues: ValidationIssue[];
+    try {
+        data = readChainFile(context.chainPath);
+        issues = Blockchain.validateJSON(data);  // Every issue, where loading the chain would stop at the first
+    } catch (error) {
+        const reason = (error as Error).message;
+        report(context, { valid: false, error: reason }, `Chain is invalid: ${reason}`, true);
+        return EXIT_FAILURE;
+    }
+
+    const valid = issues.length === 0;
+    const height = data.chain.length;
+    const text = valid
+        ? `Chain is valid (${height} blocks)`
+        : ["Chain is invalid:", ...issues.map(issue => `  ${issue.code} (block ${issue.blockIndex}): ${issue.message}`)].join("\n");
+    report(context, { valid, height, issues }, text, !valid);
+    return valid ? EXIT_OK : EXIT_FAILURE;
+}
+
+/**
+ * export - writes the verified chain as JSON
+ * @param context - The parsed command line
+ * @returns Exit code
+ */
+function exportChain(context: CliContext): number {
+    expectArgs(context, 0, 1);
+    const { blockchain } = loadChain(context.chainPath);
+    const target = context.args[0];
+    if (!target) {
+        context.output.log(JSON.stringify(blockchain, null, 2));
+        return EXIT_OK;
+    }
+
+    writeFileSync(target, JSON.stringify(blockchain, null, 2));
+    report(context, { exported: target, height: blockchain.chain.length }, `Exported ${blockchain.chain.length} blocks to ${target}`);
+    return EXIT_OK;
+}
+
+/**
+ * import - verifies a chain JSON file and replaces the current chain with it
+ * @param context - The parsed command line
+ * @throws Error if the file fails verification (the current chain is left untouched)
+ * @returns Exit code
+ */
+function importChain(context: CliContext): number {
+    expectArgs(context, 1);
+    const { blockchain } = loadChain(context.args[0]!);
+    saveChain(context.chainPath, blockchain);
+    report(
+        context,
+        { chain: context.chainPath, height: blockchain.chain.length },
+        `Imported ${blockchain.chain.length} blocks into ${context.chainPath}`
+    );
+    return EXIT_OK;
+}
+
+if (import.meta.main) {
+    process.exit(runCli(Bun.argv.slice(2)));
+}
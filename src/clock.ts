@@ -0,0 +1,94 @@
+/**
+ * Source of the current time for timestamps and expiry checks
+ */
+export interface Clock {
+    now(): number;       // Milliseconds since epoch
+}
+
+/**
+ * Source of the random uniqueness values that keep otherwise identical transactions' hashes apart
+ */
+export interface NonceSource {
+    next(): string;
+}
+
+/**
+ * The real time (the default)
+ */
+export const systemClock: Clock = {
+    now: () => Date.now()
+};
+
+/**
+ * Random nonces (the default)
+ */
+export const randomNonces: NonceSource = {
+    next: () => Math.random().toString(36).substring(2)
+};
+
+/**
+ * Clock that only moves when told to, for reproducible chains and tests
+ * Each reading advances it by a fixed step, so successive timestamps differ just as they would in real time
+ */
+export class SimulatedClock implements Clock {
+    private time: number;
+
+    /**
+     * Creates a clock
+     * @param start - Time of the first reading (milliseconds since epoch)
+     * @param step - Milliseconds added after every reading (defaults to 0, a clock that stands still)
+     * @throws {Error} If the start or step isn't a non-negative integer
+     */
+    constructor(start: number, private readonly step: number = 0) {
+        if (![start, step].every(value => Number.isSafeInteger(value) && value >= 0)) {
+            throw new Error("Clock start and step must be non-negative integers");
+        }
+        this.time = start;
+    }
+
+    /**
+     * Reads the clock, then moves it on by its step
+     * @returns The current simulated time
+     */
+    public now(): number {
+        const time = this.time;
+        this.time += this.step;
+        return time;
+    }
+
+    /**
+     * Moves the clock forward
+     * @param milliseconds - How far to move it
+     * @throws {Error} If asked to move backwards
+     */
+    public advance(milliseconds: number): void {
+        if (!(milliseconds >= 0)) {
+            throw new Error("A clock can't move backwards");
+        }
+        this.time += milliseconds;
+    }
+}
+
+/**
+ * Deterministic nonces derived from a seed: the same seed always gives the same sequence
+ * Each nonce is the start of the SHA-256 of the seed and a counter
+ */
+export class SeededNonceSource implements NonceSource {
+    private counter = 0;
+
+    /**
+     * Creates a nonce sequence
+     * @param seed - Seed that picks the sequence
+     */
+    constructor(private readonly seed: string) {}
+
+    /**
+     * Gets the next nonce in the sequence
+     * @returns 16 hex characters
+     */
+    public next(): string {
+        const hash = new Bun.CryptoHasher("sha256");
+        hash.update(`${this.seed}|${this.counter++}`);
+        return hash.digest("hex").slice(0, 16);
+    }
+}
@@ -0,0 +1,124 @@
+import { Block } from "./block";
+import { isValidDifficulty } from "./difficulty";
+import { isValidRewardSchedule } from "./reward";
+import { COINBASE_ADDRESS, Transaction } from "./transaction";
+import { ENCODING_VERSION } from "./encoding";
+
+/**
+ * Network parameters every node on a chain must agree on
+ * Nodes with the same config build the same genesis block, so they can exchange blocks
+ */
+export interface ChainConfig {
+    networkId: string;             // Names the network - any id but the default "" gives the genesis block a previous hash of its own
+    genesisTimestamp: number;      // Timestamp of the genesis block (defaults to when the chain is created)
+    allocations: Record<string, number>; // Premined balances the genesis block pays out, by address
+    initialDifficulty: number;     // Difficulty of the first retarget window (defaults to 256, roughly two leading hex zeros; proof of work only)
+    targetBlockTime: number;       // Desired milliseconds between blocks (defaults to 10 seconds)
+    retargetInterval: number;      // Blocks per retarget window (defaults to 10, must be at least 2)
+    maxFutureBlockTime: number;    // Most milliseconds a block's timestamp may be ahead of the receiving node's clock (defaults to targetBlockTime)
+    initialReward: number;         // Mining subsidy before the first halving (defaults to 1)
+    halvingInterval: number;       // Blocks between subsidy halvings (defaults to 210,000)
+    maxSupply: number;             // Cap on the coins ever issued as subsidies (defaults to the schedule's total, 2 x initialReward x halvingInterval)
+    maxBlockTransactions: number;  // Most regular transactions per block, not counting the reward (defaults to 1000)
+    maxBlockBytes: number;         // Most bytes of regular transactions per block (defaults to 1,000,000)
+}
+
+/**
+ * Fills in the defaults for any parameters left out and checks the result
+ * @param config - Parameters to use
+ * @param now - Genesis timestamp to use if none is given
+ * @throws {Error} If any parameter is invalid
+ * @returns The complete config
+ */
+export function resolveChainConfig(config: Partial<ChainConfig>, now: number): ChainConfig {
+    const initialReward = config.initialReward ?? 1;
+    const halvingInterval = config.halvingInterval ?? 210_000;
+    const targetBlockTime = config.targetBlockTime ?? 10_000;
+    const resolved: ChainConfig = {
+        networkId: config.networkId ?? "",
+        genesisTimestamp: config.genesisTimestamp ?? now,
+        allocations: { ...config.allocations },
+        initialDifficulty: config.initialDifficulty ?? 256,
+        targetBlockTime,
+        retargetInterval: config.retargetInterval ?? 10,
+        // Post-dating a block can then stretch a retarget window by at most about one block's worth of time
+        maxFutureBlockTime: config.maxFutureBlockTime ?? targetBlockTime,
+        initialReward,
+        halvingInterval,
+        maxSupply: config.maxSupply ?? 2 * initialReward * halvingInterval,
+        maxBlockTransactions: config.maxBlockTransactions ?? 1000,
+        maxBlockBytes: config.maxBlockBytes ?? 1_000_000
+    };
+
+    if (typeof resolved.networkId !== 'string' || !Number.isSafeInteger(resolved.genesisTimestamp) || resolved.genesisTimestamp < 0) {
+        throw new Error("Network id must be a string and the genesis timestamp a non-negative integer");
+    }
+    if (!Object.entries(resolved.allocations).every(([address, amount]) =>
+        address !== "" && address !== COINBASE_ADDRESS && Number.isFinite(amount) && amount > 0)) {
+        throw new Error("Genesis allocations must pay positive amounts to addresses");
+    }
+    if (!isValidDifficulty(resolved.initialDifficulty)) {
+        throw new Error("Initial difficulty must be a positive integer");
+    }
+    if (!(resolved.targetBlockTime > 0) || !Number.isSafeInteger(resolved.retargetInterval) || resolved.retargetInterval < 2) {
+        throw new Error("Target block time must be positive and the retarget interval at least 2 blocks");
+    }
+    if (!Number.isSafeInteger(resolved.maxFutureBlockTime) || resolved.maxFutureBlockTime < 0) {
+        throw new Error("Maximum future block time must be a non-negative integer");
+    }
+    if (![resolved.maxBlockTransactions, resolved.maxBlockBytes].every(limit => Number.isSafeInteger(limit) && limit > 0)) {
+        throw new Error("Block limits must be positive integers");
+    }
+    if (!isValidRewardSchedule(resolved)) {
+        throw new Error("Initial reward must be positive, the halving interval a positive integer and the supply cap non-negative");
+    }
+    return resolved;
+}
+
+/**
+ * Builds the genesis block a config describes
+ * Everything in it comes from the config, so the same config always gives the same block and hash:
+ * index 0, a previous hash derived from the network id, the genesis timestamp, nonce 0, the initial difficulty,
+ * and one allocation per premined address (paid like a mining reward, in address order)
+ * @param config - The chain's config
+ * @param version - Encoding to hash it with (an older version rebuilds the genesis block of a chain created before it)
+ * @returns The genesis block
+ */
+export function createGenesisBlock(config: ChainConfig, version: number = ENCODING_VERSION): Block {
+    const allocations = Object.keys(config.allocations).sort().map((address, i) =>
+        new Transaction(COINBASE_ADDRESS, address, config.allocations[address]!, {
+            timestamp: config.genesisTimestamp,
+            nonce: `genesis-${i}`,
+            version
+        })
+    );
+
+    const block = new Block(0, genesisPreviousHash(config.networkId), allocations, 0, config.initialDifficulty);
+    block.version = version;
+    block.timestamp = config.genesisTimestamp;
+    block.hash = block.calculateHash();
+    return block;
+}
+
+/**
+ * Totals the coins premined by a config's genesis allocations
+ * @param config - The chain's config
+ * @returns Sum of the allocations
+ */
+export function allocatedSupply(config: ChainConfig): number {
+    return Object.values(config.allocations).reduce((total, amount) => total + amount, 0);
+}
+
+/**
+ * Gets the previous hash a network's genesis block points at
+ * The default network keeps the original "0"; any other network id gets the hash of its name,
+ * so chains of different networks never share a genesis block
+ * @param networkId - Network id
+ * @returns The genesis previous hash
+ */
+function genesisPreviousHash(networkId: string): string {
+    if (networkId === "") return "0";
+    const hash = new Bun.CryptoHasher("sha256");
+    hash.update(`network|${networkId}`);
+    return hash.digest("hex");
+}
@@ -0,0 +1,370 @@
+import type { Block } from "./block";
+import { signMessage, verifySignature, type KeyPair } from "./crypto";
+import { ByteWriter, hashBytes } from "./encoding";
+import { mineInWorkers, type MiningOptions } from "./miner";
+import { createIssue, type ValidationIssue } from "./validation";
+
+/**
+ * Consensus algorithms a chain can use
+ * - "pow": proof of work - miners search for a nonce whose hash meets a retargeted difficulty
+ * - "poa": proof of authority - a fixed set of validators sign blocks in round-robin turns
+ * - "pos": proof of stake - each block's validator is drawn from a fixed stake table, weighted by stake
+ */
+export type ConsensusType = "pow" | "poa" | "pos";
+
+/**
+ * Public settings of a consensus engine, as produced by toJSON and accepted by createConsensus
+ * (never includes the signer's private key)
+ */
+export type ConsensusConfig =
+    | { type: "pow" }
+    | { type: "poa"; validators: string[] }             // Validator public keys, in turn order
+    | { type: "pos"; stakes: Record<string, number> };  // Stake of each validator, by public key
+
+/**
+ * Decides who may produce a block and how a produced block proves it (its "seal")
+ * The chain still checks everything else (linking, transactions, rewards, balances) the same way for every engine
+ */
+export interface ConsensusEngine {
+    readonly type: ConsensusType;
+    readonly retargetsDifficulty: boolean;   // Whether blocks carry a retargeted proof-of-work difficulty (otherwise always 1)
+    seal(block: Block): void;                // Make a new block acceptable (sets its hash, and its validator and signature if any)
+    sealAsync(block: Block, options: MiningOptions): Promise<void>; // seal without blocking the event loop
+    verifySeal(block: Block): ValidationIssue[]; // Every problem with a block's seal (empty if it is valid)
+    blockWork(block: Block): number;         // How much a block adds to its branch's weight when choosing between forks
+    toJSON(): ConsensusConfig;
+}
+
+/**
+ * Proof of work - the default engine
+ * A block is sealed by finding a nonce that makes its hash meet the block's difficulty;
+ * branches are weighed by their total difficulty (the expected number of hashes behind them)
+ */
+export class ProofOfWork implements ConsensusEngine {
+    public readonly type = "pow";
+    public readonly retargetsDifficulty = true;
+
+    /**
+     * Mines a block by finding a hash that meets the difficulty requirement
+     * Uses Proof of Work algorithm by incrementing nonce until a valid hash is found
+     * The hash, read as a number, must not exceed the target derived from the block's difficulty
+     * Doubling the difficulty doubles the expected computational work
+     * @param block - The block to mine
+     */
+    public seal(block: Block): void {
+        // Keep incrementing nonce and recalculating hash until we find a hash below the target
+        // This is the "work" in Proof of Work - computationally intensive but easy to verify
+        block.hash = block.calculateHash();
+        while (!block.hasValidProofOfWork()) {
+            block.nonce++;  // Increment nonce to try different hash values
+            block.hash = block.calculateHash();  // Recalculate hash with new nonce
+        }
+        // Once loop exits, we have found a valid hash that meets difficulty requirements
+    }
+
+    /**
+     * Mines a block on worker threads (see mineInWorkers)
+     * @param block - The block to mine
+     * @param options - Worker count, abort signal and progress callback
+     * @returns Resolves once the block is mined; rejects if mining is aborted
+     */
+    public sealAsync(block: Block, options: MiningOptions): Promise<void> {
+        return mineInWorkers(block, options);
+    }
+
+    /**
+     * Checks that a block's hash meets its own difficulty
+     * (the chain separately checks that this difficulty is the one required at the block's height)
+     * @param block - The block to check
+     * @returns An INSUFFICIENT_WORK issue if the hash misses the target
+     */
+    public verifySeal(block: Block): ValidationIssue[] {
+        if (block.hasValidProofOfWork()) return [];
+        return [createIssue("INSUFFICIENT_WORK", block.index, `hash of block ${block.index} does not meet its difficulty of ${block.difficulty}`, {
+            actual: block.hash
+        })];
+    }
+
+    /**
+     * Gets the work behind a block
+     * @param block - A validated block
+     * @returns The block's difficulty
+     */
+    public blockWork(block: Block): number {
+        return block.difficulty;
+    }
+
+    /**
+     * Converts the engine into its public settings
+     * @returns The settings
+     */
+    public toJSON(): ConsensusConfig {
+        return { type: "pow" };
+    }
+}
+
+/**
+ * Options for the signature-based engines
+ */
+export interface ValidatorOptions {
+    signer?: KeyPair;    // This node's validator key, needed to seal blocks (verifying works without one)
+}
+
+/**
+ * Proof of authority
+ * Only the listed validators may produce blocks, taking turns in list order: block n is sealed by validator (n - 1) mod size.
+ * Every block counts the same when choosing between forks
+ */
+export class ProofOfAuthority implements ConsensusEngine {
+    public readonly type = "poa";
+    public readonly retargetsDifficulty = false;
+    public readonly validators: string[];     // Validator public keys, in turn order
+    private readonly signer: KeyPair | null;  // Key this node seals its turns with
+
+    /**
+     * Creates a proof-of-authority engine
+     * @param validators - Public keys of the validators, in turn order
+     * @param options - This node's validator key
+     * @throws {Error} If the validator set is empty, has duplicates or malformed keys, or doesn't include the signer
+     */
+    constructor(validators: string[], options: ValidatorOptions = {}) {
+        if (validators.length === 0 || !validators.every(isPublicKey) || new Set(validators).size !== validators.length) {
+            throw new Error("Validator set must be a non-empty list of distinct public keys");
+        }
+        this.validators = [...validators];
+        this.signer = options.signer ?? null;
+        if (this.signer && !this.validators.includes(this.signer.publicKey)) {
+            throw new Error("Signer is not in the validator set");
+        }
+    }
+
+    /**
+     * Gets the validator whose turn it is at a height
+     * @param index - Block index (at least 1)
+     * @returns The validator's public key
+     */
+    public validatorFor(index: number): string {
+        return this.validators[(index - 1) % this.validators.length]!;
+    }
+
+    /**
+     * Signs a block as its validator
+     * @param block - The block to seal
+     * @throws {Error} If this node has no signer
+     * @throws {UnauthorizedSealerError} If it isn't the signer's turn
+     */
+    public seal(block: Block): void {
+        signBlock(block, this.signer, this.validatorFor(block.index));
+    }
+
+    /**
+     * Signs a block as its validator (signing is quick, so this doesn't need workers)
+     * @param block - The block to seal
+     * @param options - Only the abort signal is used
+     * @throws {Error} If this node has no signer
+     * @throws {UnauthorizedSealerError} If it isn't the signer's turn
+     */
+    public async sealAsync(block: Block, options: MiningOptions): Promise<void> {
+        options.signal?.throwIfAborted();
+        this.seal(block);
+    }
+
+    /**
+     * Checks that a block is signed by the validator whose turn it was
+     * @param block - The block to check
+     * @returns A BAD_SEAL issue if it isn't
+     */
+    public verifySeal(block: Block): ValidationIssue[] {
+        return sealIssues(block, this.validatorFor(block.index));
+    }
+
+    /**
+     * Gets the weight of a block - every block counts the same
+     * @returns 1
+     */
+    public blockWork(): number {
+        return 1;
+    }
+
+    /**
+     * Converts the engine into its public settings (without the signer)
+     * @returns The settings
+     */
+    public toJSON(): ConsensusConfig {
+        return { type: "poa", validators: [...this.validators] };
+    }
+}
+
+/**
+ * Proof of stake (simplified: a fixed stake table)
+ * The validator of each block is drawn at random from the stake table, weighted by stake, using the hash of the
+ * parent block and the height as the seed - so every node draws the same validator. Every block counts the same
+ * when choosing between forks
+ */
+export class ProofOfStake implements ConsensusEngine {
+    public readonly type = "pos";
+    public readonly retargetsDifficulty = false;
+    private readonly stakes: [string, number][];  // (public key, stake) pairs, sorted by key so the draw doesn't depend on order
+    private readonly totalStake: number;
+    private readonly signer: KeyPair | null;      // Key this node seals with when it is drawn
+
+    /**
+     * Creates a proof-of-stake engine
+     * @param stakes - Stake of each validator, by public key
+     * @param options - This node's validator key
+     * @throws {Error} If there are no validators, a key is malformed, a stake isn't a positive integer,
+     *   or the signer has no stake
+     */
+    constructor(stakes: Record<string, number>, options: ValidatorOptions = {}) {
+        this.stakes = Object.entries(stakes).sort(([a], [b]) => (a < b ? -1 : 1));
+        if (this.stakes.length === 0 || !this.stakes.every(([key, stake]) => isPublicKey(key) && Number.isSafeInteger(stake) && stake > 0)) {
+            throw new Error("Stake table must map public keys to positive integer stakes");
+        }
+        this.totalStake = this.stakes.reduce((total, [, stake]) => total + stake, 0);
+        this.signer = options.signer ?? null;
+        if (this.signer && !(this.signer.publicKey in stakes)) {
+            throw new Error("Signer has no stake");
+        }
+    }
+
+    /**
+     * Draws the validator for the block after a parent, weighted by stake
+     * @param previousHash - Hash of the parent block
+     * @param index - Index of the new block
+     * @returns The drawn validator's public key
+     */
+    public validatorFor(previousHash: string, index: number): string {
+        // Encoded field by field, so no other (previousHash, index) pair shares the seed
+        const seed = hashBytes(new ByteWriter().string(previousHash).u64(index).finish());
+        let ticket = Number(BigInt("0x" + seed) % BigInt(this.totalStake));
+
+        // Walk the stake table until the ticket falls inside a validator's share
+        for (const [validator, stake] of this.stakes) {
+            if (ticket < stake) return validator;
+            ticket -= stake;
+        }
+        throw new Error("Unreachable: ticket exceeds the total stake");
+    }
+
+    /**
+     * Signs a block as its validator
+     * @param block - The block to seal
+     * @throws {Error} If this node has no signer
+     * @throws {UnauthorizedSealerError} If the signer wasn't drawn for this block
+     */
+    public seal(block: Block): void {
+        signBlock(block, this.signer, this.validatorFor(block.previousHash, block.index));
+    }
+
+    /**
+     * Signs a block as its validator (signing is quick, so this doesn't need workers)
+     * @param block - The block to seal
+     * @param options - Only the abort signal is used
+     * @throws {Error} If this node has no signer
+     * @throws {UnauthorizedSealerError} If the signer wasn't drawn for this block
+     */
+    public async sealAsync(block: Block, options: MiningOptions): Promise<void> {
+        options.signal?.throwIfAborted();
+        this.seal(block);
+    }
+
+    /**
+     * Checks that a block is signed by the validator drawn for it
+     * @param block - The block to check
+     * @returns A BAD_SEAL issue if it isn't
+     */
+    public verifySeal(block: Block): ValidationIssue[] {
+        return sealIssues(block, this.validatorFor(block.previousHash, block.index));
+    }
+
+    /**
+     * Gets the weight of a block - every block counts the same
+     * @returns 1
+     */
+    public blockWork(): number {
+        return 1;
+    }
+
+    /**
+     * Converts the engine into its public settings (without the signer)
+     * @returns The settings
+     */
+    public toJSON(): ConsensusConfig {
+        return { type: "pos", stakes: Object.fromEntries(this.stakes) };
+    }
+}
+
+/**
+ * Rebuilds a consensus engine from its public settings
+ * @param config - Settings produced by an engine's toJSON
+ * @param signer - This node's validator key (proof of authority and proof of stake only)
+ * @throws {Error} If the settings are malformed
+ * @returns The engine
+ */
+export function createConsensus(config: ConsensusConfig, signer?: KeyPair): ConsensusEngine {
+    switch (config?.type) {
+        case "pow":
+            return new ProofOfWork();
+        case "poa":
+            if (!Array.isArray(config.validators)) break;
+            return new ProofOfAuthority(config.validators, { signer });
+        case "pos":
+            if (!config.stakes || typeof config.stakes !== 'object') break;
+            return new ProofOfStake(config.stakes, { signer });
+    }
+    throw new Error("Invalid consensus settings");
+}
+
+/**
+ * Checks that a string looks like a hex-encoded Ed25519 public key
+ * @param key - The string to check
+ * @returns Boolean indicating if it is 32 bytes of lowercase hex
+ */
+function isPublicKey(key: unknown): boolean {
+    return typeof key === 'string' && /^[0-9a-f]{64}$/.test(key);
+}
+
+/**
+ * Raised when a validator tries to seal a block that another validator must produce
+ */
+export class UnauthorizedSealerError extends Error {}
+
+/**
+ * Signs a block on behalf of the validator expected to produce it
+ * The validator's public key is part of the block hash, and the signature covers that hash
+ * @param block - The block to seal
+ * @param signer - This node's validator key
+ * @param expected - Public key of the validator whose turn it is
+ * @throws {Error} If there is no signer
+ * @throws {UnauthorizedSealerError} If the signer isn't the expected validator
+ */
+function signBlock(block: Block, signer: KeyPair | null, expected: string): void {
+    if (!signer) {
+        throw new Error("A validator key is required to seal blocks");
+    }
+    if (signer.publicKey !== expected) {
+        throw new UnauthorizedSealerError(`Block ${block.index} must be sealed by validator ${expected}`);
+    }
+    block.validator = signer.publicKey;
+    block.hash = block.calculateHash();
+    block.signature = signMessage(block.hash, signer.privateKey);
+}
+
+/**
+ * Checks that a block is signed by the validator expected to produce it
+ * @param block - The block to check
+ * @param expected - Public key of the validator whose turn it was
+ * @returns A BAD_SEAL issue for the wrong validator or a missing or invalid signature
+ */
+function sealIssues(block: Block, expected: string): ValidationIssue[] {
+    if (block.validator !== expected) {
+        return [createIssue("BAD_SEAL", block.index, `block ${block.index} must be sealed by validator ${expected}`, {
+            expected,
+            actual: block.validator ?? undefined
+        })];
+    }
+    if (!block.signature || !verifySignature(block.hash, block.signature, expected)) {
+        return [createIssue("BAD_SEAL", block.index, `signature of block ${block.index} is missing or invalid`)];
+    }
+    return [];
+}
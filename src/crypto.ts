@@ -0,0 +1,131 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from "node:crypto";
+
+/**
+ * A hex-encoded Ed25519 key pair
+ * The private key is the raw 32-byte seed, the public key is the raw 32-byte point
+ */
+export interface KeyPair {
+    privateKey: string;  // Hex-encoded private key (keep secret - anyone holding it can spend)
+    publicKey: string;   // Hex-encoded public key (safe to share, used to verify signatures)
+}
+
+// DER prefixes that wrap a raw 32-byte Ed25519 key into the PKCS#8 / SPKI structures node:crypto expects
+const PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+const SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+const KEY_LENGTH = 32;
+const CHECKSUM_LENGTH = 4;  // Bytes of checksum at the end of an address
+
+/**
+ * Converts a hex-encoded raw private key into a KeyObject
+ * @param privateKey - Hex-encoded 32-byte private key
+ * @throws {Error} If the key is not 32 bytes of hex
+ * @returns The private KeyObject
+ */
+function toPrivateKeyObject(privateKey: string) {
+    const raw = Buffer.from(privateKey, "hex");
+    if (raw.length !== KEY_LENGTH || raw.toString("hex") !== privateKey.toLowerCase()) {
+        throw new Error("Invalid private key");
+    }
+    return createPrivateKey({ key: Buffer.concat([PKCS8_PREFIX, raw]), format: "der", type: "pkcs8" });
+}
+
+/**
+ * Converts a hex-encoded raw public key into a KeyObject
+ * @param publicKey - Hex-encoded 32-byte public key
+ * @throws {Error} If the key is not 32 bytes of hex
+ * @returns The public KeyObject
+ */
+function toPublicKeyObject(publicKey: string) {
+    const raw = Buffer.from(publicKey, "hex");
+    if (raw.length !== KEY_LENGTH || raw.toString("hex") !== publicKey.toLowerCase()) {
+        throw new Error("Invalid public key");
+    }
+    return createPublicKey({ key: Buffer.concat([SPKI_PREFIX, raw]), format: "der", type: "spki" });
+}
+
+/**
+ * Generates a fresh random Ed25519 key pair
+ * @returns The new key pair as hex strings
+ */
+export function generateKeyPair(): KeyPair {
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    return {
+        // The raw key material is the tail of the DER encoding (after the fixed prefix)
+        privateKey: privateKey.export({ format: "der", type: "pkcs8" }).subarray(PKCS8_PREFIX.length).toString("hex"),
+        publicKey: publicKey.export({ format: "der", type: "spki" }).subarray(SPKI_PREFIX.length).toString("hex")
+    };
+}
+
+/**
+ * Derives the public key belonging to a private key
+ * @param privateKey - Hex-encoded private key
+ * @throws {Error} If the private key is malformed
+ * @returns Hex-encoded public key
+ */
+export function getPublicKey(privateKey: string): string {
+    const publicKey = createPublicKey(toPrivateKeyObject(privateKey));
+    return publicKey.export({ format: "der", type: "spki" }).subarray(SPKI_PREFIX.length).toString("hex");
+}
+
+/**
+ * Derives the address that a public key controls
+ * Addresses are the hex-encoded public key followed by a 4-byte checksum, so ownership can still be checked
+ * directly while a mistyped address is caught by isValidAddress instead of sending funds nowhere
+ * @param publicKey - Hex-encoded public key
+ * @returns The address owned by this public key
+ */
+export function addressFromPublicKey(publicKey: string): string {
+    const key = publicKey.toLowerCase();
+    return key + addressChecksum(key);
+}
+
+/**
+ * Checks that an address is well-formed and its checksum matches (see addressFromPublicKey)
+ * @param address - Address to check
+ * @returns Boolean indicating if the address could belong to a key
+ */
+export function isValidAddress(address: string): boolean {
+    if (typeof address !== 'string' || !new RegExp(`^[0-9a-f]{${(KEY_LENGTH + CHECKSUM_LENGTH) * 2}}$`).test(address)) {
+        return false;
+    }
+    const key = address.slice(0, KEY_LENGTH * 2);
+    return address.slice(KEY_LENGTH * 2) === addressChecksum(key);
+}
+
+/**
+ * Computes the checksum appended to a public key to form its address
+ * @param publicKey - Lowercase hex-encoded public key
+ * @returns The first 4 bytes of its SHA-256, hex-encoded
+ */
+function addressChecksum(publicKey: string): string {
+    const hash = new Bun.CryptoHasher("sha256");
+    hash.update(publicKey);
+    return hash.digest("hex").slice(0, CHECKSUM_LENGTH * 2);
+}
+
+/**
+ * Signs a message with a private key
+ * @param message - The data to sign (usually a transaction hash)
+ * @param privateKey - Hex-encoded private key
+ * @throws {Error} If the private key is malformed
+ * @returns Hex-encoded Ed25519 signature
+ */
+export function signMessage(message: string, privateKey: string): string {
+    return sign(null, Buffer.from(message), toPrivateKeyObject(privateKey)).toString("hex");
+}
+
+/**
+ * Verifies a signature against a message and public key
+ * Malformed keys or signatures are treated as failed verification rather than errors
+ * @param message - The data that was signed
+ * @param signature - Hex-encoded signature
+ * @param publicKey - Hex-encoded public key of the claimed signer
+ * @returns Boolean indicating if the signature is valid
+ */
+export function verifySignature(message: string, signature: string, publicKey: string): boolean {
+    try {
+        return verify(null, Buffer.from(message), toPublicKeyObject(publicKey), Buffer.from(signature, "hex"));
+    } catch {
+        return false;
+    }
+}
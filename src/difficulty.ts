@@ -0,0 +1,58 @@
+// Largest possible SHA-256 value - the target for difficulty 1 (any hash is accepted)
+export const MAX_TARGET = (1n << 256n) - 1n;
+
+// Retargeting never moves difficulty by more than this factor at once (limits timestamp manipulation)
+const MAX_ADJUSTMENT_FACTOR = 4;
+
+/**
+ * Checks that a difficulty is a usable value
+ * Difficulty is the expected number of hashes needed to find a block, so it must be a positive integer
+ * @param difficulty - Difficulty to check
+ * @returns Boolean indicating if the difficulty is valid
+ */
+export function isValidDifficulty(difficulty: number): boolean {
+    return Number.isSafeInteger(difficulty) && difficulty >= 1;
+}
+
+/**
+ * Converts a difficulty into the numeric target a block hash must not exceed
+ * Doubling the difficulty halves the target, so each step is proportional rather than a 16x hex-digit jump
+ * @param difficulty - Expected number of hashes per block (positive integer)
+ * @throws {Error} If the difficulty is not a positive integer
+ * @returns The target as a 256-bit integer
+ */
+export function difficultyToTarget(difficulty: number): bigint {
+    if (!isValidDifficulty(difficulty)) {
+        throw new Error("Invalid difficulty");
+    }
+    return MAX_TARGET / BigInt(difficulty);
+}
+
+/**
+ * Checks whether a block hash satisfies a difficulty
+ * @param hash - Hex-encoded SHA-256 block hash
+ * @param difficulty - Difficulty the hash must meet
+ * @returns Boolean indicating if the hash is at or below the target
+ */
+export function meetsDifficulty(hash: string, difficulty: number): boolean {
+    if (!/^[0-9a-f]{64}$/.test(hash) || !isValidDifficulty(difficulty)) return false;
+    return BigInt("0x" + hash) <= difficultyToTarget(difficulty);
+}
+
+/**
+ * Calculates the next difficulty from how long recent blocks actually took
+ * Blocks arriving faster than targeted raise the difficulty, slower blocks lower it
+ * The change is clamped to a factor of 4 either way, and difficulty never drops below 1
+ * @param difficulty - Difficulty of the window that just ended
+ * @param actualTimespan - Milliseconds the window actually took
+ * @param expectedTimespan - Milliseconds the window should have taken
+ * @returns The difficulty for the next window
+ */
+export function retargetDifficulty(difficulty: number, actualTimespan: number, expectedTimespan: number): number {
+    // Clamp the observed time so a single window can't swing difficulty too far
+    const timespan = Math.min(
+        Math.max(actualTimespan, expectedTimespan / MAX_ADJUSTMENT_FACTOR),
+        expectedTimespan * MAX_ADJUSTMENT_FACTOR
+    );
+    return Math.max(1, Math.round(difficulty * expectedTimespan / timespan));
+}
@@ -0,0 +1,324 @@
+/**
+ * Version of the canonical binary encoding that new blocks and transactions are hashed, stored and sent with
+ * Every encoding starts with its version byte, so the format can change without making old data ambiguous
+ */
+export const ENCODING_VERSION = 1;
+
+/**
+ * Version of blocks and transactions hashed the old way, by concatenating their fields as text
+ * They still verify (and can be encoded for storage and transport), but new ones are never created
+ */
+export const LEGACY_ENCODING_VERSION = 0;
+
+// Longest string or byte field accepted when decoding (1 MiB - more than any block limit allows per transaction)
+const MAX_FIELD_BYTES = 1 << 20;
+
+/**
+ * Checks that a version is one this code can hash and decode
+ * @param version - Version to check
+ * @returns Boolean indicating if the version is supported
+ */
+export function isSupportedVersion(version: unknown): version is number {
+    return version === ENCODING_VERSION || version === LEGACY_ENCODING_VERSION;
+}
+
+/**
+ * Calculates the SHA-256 hash of an encoding
+ * @param bytes - Encoded data
+ * @returns Hexadecimal string representation of the SHA-256 hash
+ */
+export function hashBytes(bytes: Uint8Array): string {
+    const hash = new Bun.CryptoHasher("sha256");
+    hash.update(bytes);
+    return hash.digest("hex");
+}
+
+/**
+ * Builds a canonical encoding field by field
+ * Integers are fixed-width big-endian, numbers are IEEE 754 doubles, and strings and byte arrays
+ * are prefixed with their length - so no two different sequences of fields produce the same bytes
+ */
+export class ByteWriter {
+    private parts: Uint8Array[] = [];
+
+    /**
+     * Writes a single byte
+     * @param value - Integer from 0 to 255
+     * @throws {Error} If the value doesn't fit
+     * @returns This writer, so calls can be chained
+     */
+    public u8(value: number): this {
+        if (!Number.isInteger(value) || value < 0 || value > 0xff) {
+            throw new Error(`Cannot encode ${value} as a byte`);
+        }
+        this.parts.push(Uint8Array.of(value));
+        return this;
+    }
+
+    /**
+     * Writes a 4-byte unsigned integer (used for lengths, counts and output indexes)
+     * @param value - Integer from 0 to 2^32 - 1
+     * @throws {Error} If the value doesn't fit
+     * @returns This writer, so calls can be chained
+     */
+    public u32(value: number): this {
+        if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+            throw new Error(`Cannot encode ${value} as a 32-bit unsigned integer`);
+        }
+        const bytes = new Uint8Array(4);
+        new DataView(bytes.buffer).setUint32(0, value);
+        this.parts.push(bytes);
+        return this;
+    }
+
+    /**
+     * Writes an 8-byte unsigned integer (used for heights, timestamps, difficulties and nonces)
+     * @param value - Non-negative safe integer
+     * @throws {Error} If the value isn't a non-negative safe integer
+     * @returns This writer, so calls can be chained
+     */
+    public u64(value: number): this {
+        if (!Number.isSafeInteger(value) || value < 0) {
+            throw new Error(`Cannot encode ${value} as a 64-bit unsigned integer`);
+        }
+        const bytes = new Uint8Array(8);
+        new DataView(bytes.buffer).setBigUint64(0, BigInt(value));
+        this.parts.push(bytes);
+        return this;
+    }
+
+    /**
+     * Writes an 8-byte IEEE 754 double (used for amounts and fees)
+     * @param value - Finite number (negative zero is written as zero, so every value has one encoding)
+     * @throws {Error} If the value isn't finite
+     * @returns This writer, so calls can be chained
+     */
+    public f64(value: number): this {
+        if (!Number.isFinite(value)) {
+            throw new Error(`Cannot encode ${value} as a finite number`);
+        }
+        const bytes = new Uint8Array(8);
+        new DataView(bytes.buffer).setFloat64(0, value === 0 ? 0 : value);
+        this.parts.push(bytes);
+        return this;
+    }
+
+    /**
+     * Writes a byte array prefixed with its length
+     * @param value - Bytes to write
+     * @returns This writer, so calls can be chained
+     */
+    public bytes(value: Uint8Array): this {
+        this.u32(value.length);
+        this.parts.push(value);
+        return this;
+    }
+
+    /**
+     * Writes a string as length-prefixed UTF-8
+     * @param value - String to write
+     * @returns This writer, so calls can be chained
+     */
+    public string(value: string): this {
+        return this.bytes(Buffer.from(value, "utf8"));
+    }
+
+    /**
+     * Writes a string that may be absent: a 0 byte for null, or a 1 byte followed by the string
+     * @param value - String to write, or null
+     * @returns This writer, so calls can be chained
+     */
+    public optionalString(value: string | null): this {
+        return value === null ? this.u8(0) : this.u8(1).string(value);
+    }
+
+    /**
+     * Writes an integer that may be absent: a 0 byte for null, or a 1 byte followed by the integer
+     * @param value - Non-negative safe integer, or null
+     * @throws {Error} If the value isn't a non-negative safe integer
+     * @returns This writer, so calls can be chained
+     */
+    public optionalU64(value: number | null): this {
+        return value === null ? this.u8(0) : this.u8(1).u64(value);
+    }
+
+    /**
+     * Gets everything written so far
+     * @returns The encoding
+     */
+    public finish(): Uint8Array {
+        return Buffer.concat(this.parts);
+    }
+}
+
+/**
+ * Reads a canonical encoding field by field, rejecting anything ByteWriter wouldn't have produced:
+ * truncated fields, oversized lengths, flags other than 0 or 1, invalid UTF-8 and non-canonical numbers
+ */
+export class ByteReader {
+    private offset = 0;
+    private readonly view: DataView;
+    private static readonly utf8 = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+
+    /**
+     * Starts reading an encoding
+     * @param data - Encoded bytes
+     */
+    constructor(private readonly data: Uint8Array) {
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    /**
+     * Claims the next bytes of the encoding
+     * @param length - Number of bytes needed
+     * @throws {Error} If the encoding ends first
+     * @returns Offset of the first claimed byte
+     */
+    private take(length: number): number {
+        if (this.offset + length > this.data.length) {
+            throw new Error("Invalid encoding: unexpected end of data");
+        }
+        const start = this.offset;
+        this.offset += length;
+        return start;
+    }
+
+    /**
+     * Reads a single byte
+     * @throws {Error} If the encoding ends first
+     * @returns The byte's value
+     */
+    public u8(): number {
+        return this.view.getUint8(this.take(1));
+    }
+
+    /**
+     * Reads a 4-byte unsigned integer
+     * @throws {Error} If the encoding ends first
+     * @returns The integer
+     */
+    public u32(): number {
+        return this.view.getUint32(this.take(4));
+    }
+
+    /**
+     * Reads an 8-byte unsigned integer
+     * @throws {Error} If the encoding ends first or the value is beyond the safe integer range
+     * @returns The integer
+     */
+    public u64(): number {
+        const value = this.view.getBigUint64(this.take(8));
+        if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+            throw new Error("Invalid encoding: integer out of range");
+        }
+        return Number(value);
+    }
+
+    /**
+     * Reads an 8-byte IEEE 754 double
+     * @throws {Error} If the encoding ends first or the value is NaN, infinite or negative zero
+     * @returns The number
+     */
+    public f64(): number {
+        const value = this.view.getFloat64(this.take(8));
+        if (!Number.isFinite(value) || Object.is(value, -0)) {
+            throw new Error("Invalid encoding: non-canonical number");
+        }
+        return value;
+    }
+
+    /**
+     * Reads a length-prefixed byte array
+     * @throws {Error} If the length is too large or the encoding ends first
+     * @returns The bytes
+     */
+    public bytes(): Uint8Array {
+        const length = this.u32();
+        if (length > MAX_FIELD_BYTES) {
+            throw new Error("Invalid encoding: field too long");
+        }
+        const start = this.take(length);
+        return this.data.subarray(start, start + length);
+    }
+
+    /**
+     * Reads a length-prefixed UTF-8 string
+     * @throws {Error} If the bytes aren't valid UTF-8 or the encoding ends first
+     * @returns The string
+     */
+    public string(): string {
+        const bytes = this.bytes();
+        try {
+            return ByteReader.utf8.decode(bytes);
+        } catch {
+            throw new Error("Invalid encoding: string is not valid UTF-8");
+        }
+    }
+
+    /**
+     * Reads a string that may be absent (see ByteWriter.optionalString)
+     * @throws {Error} If the presence flag isn't 0 or 1
+     * @returns The string, or null
+     */
+    public optionalString(): string | null {
+        return this.present() ? this.string() : null;
+    }
+
+    /**
+     * Reads an integer that may be absent (see ByteWriter.optionalU64)
+     * @throws {Error} If the presence flag isn't 0 or 1 or the value is out of range
+     * @returns The integer, or null
+     */
+    public optionalU64(): number | null {
+        return this.present() ? this.u64() : null;
+    }
+
+    /**
+     * Reads the presence flag in front of an optional field
+     * @throws {Error} If the flag isn't 0 or 1
+     * @returns Whether the field follows
+     */
+    private present(): boolean {
+        const flag = this.u8();
+        if (flag > 1) {
+            throw new Error("Invalid encoding: presence flag must be 0 or 1");
+        }
+        return flag === 1;
+    }
+
+    /**
+     * Reads a version byte
+     * @throws {Error} If the version isn't supported
+     * @returns The version
+     */
+    public version(): number {
+        const version = this.u8();
+        if (!isSupportedVersion(version)) {
+            throw new Error(`Invalid encoding: unsupported version ${version}`);
+        }
+        return version;
+    }
+
+    /**
+     * Checks that the whole encoding has been read
+     * @throws {Error} If bytes are left over
+     */
+    public end(): void {
+        if (this.offset !== this.data.length) {
+            throw new Error("Invalid encoding: unexpected trailing bytes");
+        }
+    }
+}
+
+/**
+ * Checks that decoded data encodes back to exactly the bytes it came from
+ * Catches any representation the field-level checks let through, so each value has exactly one encoding
+ * @param decoded - Encoding of the decoded value
+ * @param original - Bytes it was decoded from
+ * @throws {Error} If they differ
+ */
+export function assertCanonical(decoded: Uint8Array, original: Uint8Array): void {
+    if (Buffer.compare(decoded, original) !== 0) {
+        throw new Error("Invalid encoding: not in canonical form");
+    }
+}
@@ -0,0 +1,129 @@
+import type { Block } from "./block";
+import type { ReorgEvent } from "./blockchain";
+import type { Transaction } from "./transaction";
+import type { ValidationIssue } from "./validation";
+
+/**
+ * Events a Blockchain emits, by name, with the data passed to listeners
+ * - transactionAdded: createTransaction accepted a transaction into the pending pool
+ * - transactionRejected: createTransaction refused a transaction (reason is the error it threw)
+ * - blockMined: a block was mined on this chain (minePendingTransactions or minePendingTransactionsAsync)
+ * - blockAdded: a block joined the main chain - mined here, received through addBlock, or switched in by a reorganization
+ * - reorg: the main chain switched to a branch with more cumulative work
+ * - chainInvalidated: validateChain found the chain invalid
+ */
+export interface BlockchainEvents {
+    transactionAdded: { transaction: Transaction; blockIndex: number };  // Block expected to contain it
+    transactionRejected: { transaction: Transaction; reason: string };
+    blockMined: { block: Block };
+    blockAdded: { block: Block };
+    reorg: ReorgEvent;
+    chainInvalidated: { issues: ValidationIssue[] };
+}
+
+export type BlockchainEventType = keyof BlockchainEvents;
+
+/**
+ * Function called with an event's data
+ */
+export type BlockchainListener<K extends BlockchainEventType> = (event: BlockchainEvents[K]) => void;
+
+/**
+ * Function told about an error a listener threw, with the event it was handling
+ */
+export type ListenerErrorHandler = (error: unknown, type: BlockchainEventType) => void;
+
+/**
+ * Options for subscribing to events
+ */
+export interface SubscribeOptions {
+    // Only deliver events with a transaction sent from or to this address. Chain-wide events that carry no
+    // transactions (chainInvalidated) are still delivered
+    address?: string;
+}
+
+/**
+ * A registered listener and its filter
+ */
+interface Subscription {
+    listener: (event: any) => void;
+    address: string | null;
+}
+
+/**
+ * Keeps the listeners for each event and calls the matching ones when an event is emitted
+ * Listeners run synchronously, in the order they subscribed. Events announce changes already made, so an error a
+ * listener throws goes to the error handler instead of the emitter, and the remaining listeners still run
+ */
+export class EventHub {
+    private subscriptions: Map<BlockchainEventType, Set<Subscription>> = new Map();
+
+    /**
+     * @param onListenerError - Told about each error a listener throws (defaults to logging it)
+     */
+    constructor(private readonly onListenerError: ListenerErrorHandler = logListenerError) {}
+
+    /**
+     * Registers a listener for one event
+     * @param type - Event name
+     * @param listener - Called with the event's data
+     * @param options - Optional address filter
+     * @returns Function that removes the listener
+     */
+    public on<K extends BlockchainEventType>(type: K, listener: BlockchainListener<K>, options: SubscribeOptions = {}): () => void {
+        const subscription: Subscription = { listener, address: options.address ?? null };
+        let subscriptions = this.subscriptions.get(type);
+        if (!subscriptions) {
+            subscriptions = new Set();
+            this.subscriptions.set(type, subscriptions);
+        }
+        subscriptions.add(subscription);
+        return () => { subscriptions.delete(subscription); };
+    }
+
+    /**
+     * Calls every listener subscribed to an event whose filter it passes
+     * @param type - Event name
+     * @param event - The event's data
+     */
+    public emit<K extends BlockchainEventType>(type: K, event: BlockchainEvents[K]): void {
+        const subscriptions = this.subscriptions.get(type);
+        if (!subscriptions || subscriptions.size === 0) return;
+
+        const transactions = transactionsOf(event);
+        for (const { listener, address } of [...subscriptions]) {
+            if (address !== null && transactions !== null &&
+                !transactions.some(transaction => transaction.fromAddress === address || transaction.toAddress === address)) {
+                continue;
+            }
+            try {
+                listener(event);
+            } catch (error) {
+                this.onListenerError(error, type);
+            }
+        }
+    }
+}
+
+/**
+ * Logs an error a listener threw - the default error handler
+ * @param error - What the listener threw
+ * @param type - Event it was handling
+ */
+function logListenerError(error: unknown, type: BlockchainEventType): void {
+    console.error(`A ${type} listener threw:`, error);
+}
+
+/**
+ * Gets the transactions an event is about, for address filtering
+ * @param event - Data of any event
+ * @returns The transactions, or null for chain-wide events that carry none
+ */
+function transactionsOf(event: BlockchainEvents[BlockchainEventType]): Transaction[] | null {
+    if ("transaction" in event) return [event.transaction];
+    if ("block" in event) return event.block.transactions;
+    if ("addedBlocks" in event) {
+        return [...event.removedBlocks, ...event.addedBlocks].flatMap(block => block.transactions);
+    }
+    return null;
+}
@@ -1,32 +1,60 @@
 import { Blockchain } from "./blockchain";
-import { Transaction } from "./transaction";
+import { Wallet } from "./wallet";
 
 // Initialize a new blockchain
 const blockchain = new Blockchain();
 
+// Create a wallet for each participant - the checksummed address is derived from the wallet's public key
+// (Wallet.fromSeedPhrase recreates wallets from a seed phrase, and wallet.save writes an encrypted keystore)
+const wallet1 = Wallet.generate();
+const wallet2 = Wallet.generate();
+const address1 = wallet1.address;
+const address2 = wallet2.address;
+
+// Give address1 something to spend by mining a few blocks to it
+// Transfers can never exceed the sender's confirmed balance
+console.log("Mining funds for address1...");
+for (let i = 0; i < 3; i++) {
+    blockchain.minePendingTransactions(address1); // Each block rewards 1
+}
+
 // Create sample transactions between two addresses
+// The wallet signs each one with its private key and gives it the sender's next sequence number (nonce)
+// so it can't be replayed
 console.log("Creating transactions...");
-const transaction1 = new Transaction("address1", "address2", 100); // Send 100 from address1 to address2
-const transaction2 = new Transaction("address2", "address1", 50);  // Send 50 back from address2 to address1
-
-// Add transactions to the pending pool
+const transaction1 = wallet1.createTransaction(blockchain, address2, 2); // Send 2 from address1 to address2
 blockchain.createTransaction(transaction1);
-blockchain.createTransaction(transaction2);
 
 // Mine the pending transactions into a new block
 // The miner (address "miner") will receive a reward of 1
 console.log("Mining pending transactions...");
 blockchain.minePendingTransactions("miner");
 
+// address2 can now spend the coins it received
+const transaction2 = wallet2.createTransaction(blockchain, address1, 1); // Send 1 back from address2 to address1
+blockchain.createTransaction(transaction2);
+blockchain.minePendingTransactions("miner");
+
+// Overdrafts are rejected at admission
+try {
+    blockchain.createTransaction(wallet2.createTransaction(blockchain, address1, 5));
+} catch (error) {
+    console.log("Rejected:", (error as Error).message);
+}
+
 // Check final balances after all transactions
 console.log("Balances:");
-console.log("Address1 balance:", blockchain.getBalanceOfAddress("address1")); // Should be -50 (sent 100, received 50)
-console.log("Address2 balance:", blockchain.getBalanceOfAddress("address2")); // Should be 50 (received 100, sent 50)
-console.log("Miner balance:", blockchain.getBalanceOfAddress("miner"));      // Should be 1 (mining reward)
+console.log("Address1 balance:", blockchain.getBalanceOfAddress(address1)); // Should be 2 (mined 3, sent 2, received 1)
+console.log("Address2 balance:", blockchain.getBalanceOfAddress(address2)); // Should be 1 (received 2, sent 1)
+console.log("Miner balance:", blockchain.getBalanceOfAddress("miner"));      // Should be 2 (two mining rewards)
 
 // Verify the integrity of the blockchain
 console.log("Is chain valid?", blockchain.isChainValid());
 
 // Display the entire blockchain
 console.log("\nBlockchain:");
-console.log(JSON.stringify(blockchain.chain, null, 2)); 
\ No newline at end of file
+console.log(JSON.stringify(blockchain.chain, null, 2));
+
+// Serialize the chain and load it back - the reloaded chain is verified and fully usable
+const restored = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+console.log("\nReloaded chain valid?", restored.isChainValid()); 
\ No newline at end of file
@@ -0,0 +1,103 @@
+import type { Block } from "./block";
+import { COINBASE_ADDRESS, type Transaction } from "./transaction";
+
+/**
+ * One confirmed transaction in an address's history
+ */
+export interface AddressHistoryEntry {
+    transaction: Transaction;
+    blockIndex: number;  // Height of the main-chain block that confirmed it
+    blockHash: string;
+    change: number;      // Net effect on the address's balance (negative when it paid out more than it received)
+    balance: number;     // The address's confirmed balance right after this transaction
+}
+
+/**
+ * One page of an address's history
+ */
+export interface AddressHistoryPage {
+    entries: AddressHistoryEntry[];  // Newest first
+    nextCursor: string | null;       // Pass back to get the next (older) page, or null if this is the last one
+}
+
+/**
+ * Incrementally maintained index of every address's confirmed transactions, with the running balance after each
+ * Updated block by block as the chain grows, like WorldState, so histories don't need to scan the chain
+ * Balances follow the same rules as WorldState: a sender is debited the amount plus the fee
+ * (except for mining rewards) and the recipient is credited the amount
+ */
+export class AddressHistory {
+    private histories: Map<string, AddressHistoryEntry[]> = new Map();  // Entries per address, oldest first
+
+    /**
+     * Builds a history index by replaying an entire chain
+     * @param chain - Blocks to replay, in order
+     * @returns A history index reflecting every block in the chain
+     */
+    public static fromChain(chain: Block[]): AddressHistory {
+        const history = new AddressHistory();
+        for (const block of chain) {
+            history.applyBlock(block);
+        }
+        return history;
+    }
+
+    /**
+     * Records every transaction in a newly appended block
+     * @param block - The block that was added to the chain
+     */
+    public applyBlock(block: Block): void {
+        for (const transaction of block.transactions) {
+            const changes = new Map<string, number>();
+            if (transaction.fromAddress !== COINBASE_ADDRESS) {
+                changes.set(transaction.fromAddress, -transaction.getCost());
+            }
+            // A payment to oneself is one entry whose change is just the fee
+            changes.set(transaction.toAddress, (changes.get(transaction.toAddress) ?? 0) + transaction.amount);
+
+            for (const [address, change] of changes) {
+                const entries = this.histories.get(address) ?? [];
+                const balance = (entries.at(-1)?.balance ?? 0) + change;
+                entries.push({ transaction, blockIndex: block.index, blockHash: block.hash, change, balance });
+                this.histories.set(address, entries);
+            }
+        }
+    }
+
+    /**
+     * Reads a page of an address's history, newest first
+     * Cursors stay valid as blocks are appended, since new entries only ever go in front of the first page
+     * @param address - Address to look up
+     * @param limit - Most entries to return (a positive integer)
+     * @param cursor - nextCursor of the previous page, or null for the newest entries
+     * @throws {Error} If the cursor is malformed, or its entry is no longer on the main chain after a reorganization
+     * @returns The page
+     */
+    public getPage(address: string, limit: number, cursor: string | null = null): AddressHistoryPage {
+        const entries = this.histories.get(address) ?? [];
+        const end = cursor === null ? entries.length : this.resolveCursor(entries, cursor) + 1;
+        const start = Math.max(0, end - limit);
+
+        return {
+            entries: entries.slice(start, end).reverse(),
+            nextCursor: start > 0 ? `${start - 1}:${entries[start - 1]!.transaction.hash}` : null
+        };
+    }
+
+    /**
+     * Finds the entry a cursor points at
+     * A cursor names the entry's position and its transaction hash, so a cursor whose entry was rolled back is caught
+     * @param entries - The address's history, oldest first
+     * @param cursor - Cursor to resolve
+     * @throws {Error} If the cursor doesn't name an entry of this history
+     * @returns Position of the entry
+     */
+    private resolveCursor(entries: AddressHistoryEntry[], cursor: string): number {
+        const match = /^(\d+):([0-9a-f]+)$/.exec(cursor);
+        const position = match ? Number(match[1]) : -1;
+        if (!match || entries[position]?.transaction.hash !== match[2]) {
+            throw new Error(`History cursor ${cursor} does not match this address's history`);
+        }
+        return position;
+    }
+}
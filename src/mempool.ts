@@ -0,0 +1,237 @@
+import type { Transaction } from "./transaction";
+
+/**
+ * Limits on the transactions a block template may include
+ */
+export interface BlockLimits {
+    maxTransactions: number;   // Most regular transactions per block (the mining reward isn't counted)
+    maxBytes: number;          // Most bytes of regular transactions per block (see Transaction.getSize)
+}
+
+/**
+ * A pending transaction with the figures it is ranked by, worked out once when it joins the pool
+ */
+interface PoolEntry {
+    transaction: Transaction;
+    size: number;      // Encoded size in bytes (see Transaction.getSize)
+    feeRate: number;   // Fee per byte
+}
+
+/**
+ * Pool of pending transactions, prioritized by fee rate
+ * Only bookkeeping lives here - the Blockchain decides whether a transaction is affordable before adding it
+ *
+ * - The pool holds at most maxSize transactions. When it is full, a newcomer must pay a higher fee rate
+ *   than the cheapest pending transaction, which is evicted to make room
+ * - Transactions older than the expiry (by their timestamp) are dropped by expire()
+ * - A transaction with the same sender and sequence number as a pending one replaces it if it pays a higher fee
+ */
+export class Mempool {
+    private entries: Map<string, PoolEntry> = new Map();  // Pending transactions by hash, in admission order
+    private readonly maxSize: number;   // Most transactions the pool holds
+    private readonly expiry: number;    // Milliseconds a transaction may wait before it is dropped
+
+    /**
+     * Creates an empty pool
+     * @param maxSize - Most transactions the pool holds
+     * @param expiry - Milliseconds after its timestamp that a transaction expires
+     */
+    constructor(maxSize: number, expiry: number) {
+        this.maxSize = maxSize;
+        this.expiry = expiry;
+    }
+
+    /**
+     * Number of pending transactions
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Checks whether a transaction is pending
+     * @param hash - Transaction hash
+     * @returns Boolean indicating if it is in the pool
+     */
+    public has(hash: string): boolean {
+        return this.entries.has(hash);
+    }
+
+    /**
+     * Looks up a pending transaction
+     * @param hash - Transaction hash
+     * @returns The transaction, or undefined if it isn't pending
+     */
+    public get(hash: string): Transaction | undefined {
+        return this.entries.get(hash)?.transaction;
+    }
+
+    /**
+     * Lists the pending transactions
+     * @returns A copy of the pool, in admission order
+     */
+    public getTransactions(): Transaction[] {
+        return [...this.entries.values()].map(entry => entry.transaction);
+    }
+
+    /**
+     * Finds the pending transaction a new one would replace (same sender and sequence number)
+     * @param transaction - The incoming transaction
+     * @returns The pending transaction it conflicts with, or undefined
+     */
+    public findConflict(transaction: Transaction): Transaction | undefined {
+        if (transaction.sequence === null) return undefined;
+        for (const { transaction: pending } of this.entries.values()) {
+            if (pending.fromAddress === transaction.fromAddress && pending.sequence === transaction.sequence) {
+                return pending;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks whether a transaction has waited longer than the expiry
+     * @param transaction - The transaction
+     * @param now - Current time in milliseconds
+     * @returns Boolean indicating if it is stale
+     */
+    public isExpired(transaction: Transaction, now: number): boolean {
+        return now - transaction.timestamp > this.expiry;
+    }
+
+    /**
+     * Adds a transaction, replacing a conflicting one or evicting the cheapest if the pool is full
+     * @param transaction - The transaction to add (already checked by the Blockchain)
+     * @throws {Error} If it is already pending, doesn't outbid the transaction it replaces,
+     * or doesn't outbid the cheapest transaction in a full pool
+     * @returns Transactions removed to make room (the replaced or evicted one, if any)
+     */
+    public add(transaction: Transaction): Transaction[] {
+        if (this.entries.has(transaction.hash)) {
+            throw new Error(`Transaction ${transaction.hash} is already pending`);
+        }
+        const size = transaction.getSize();
+        const entry: PoolEntry = { transaction, size, feeRate: transaction.fee / size };
+
+        const conflict = this.findConflict(transaction);
+        if (conflict) {
+            if (transaction.fee <= conflict.fee) {
+                throw new Error(
+                    `Replacement transaction ${transaction.hash} must pay a higher fee than ${conflict.fee}`
+                );
+            }
+            this.entries.delete(conflict.hash);
+            this.entries.set(transaction.hash, entry);
+            return [conflict];
+        }
+
+        if (this.entries.size < this.maxSize) {
+            this.entries.set(transaction.hash, entry);
+            return [];
+        }
+
+        const cheapest = this.getCheapest()!;
+        if (entry.feeRate <= cheapest.feeRate) {
+            throw new Error(
+                `Mempool is full: transaction ${transaction.hash} must pay a higher fee rate than the cheapest pending transaction`
+            );
+        }
+        this.entries.delete(cheapest.transaction.hash);
+        this.entries.set(transaction.hash, entry);
+        return [cheapest.transaction];
+    }
+
+    /**
+     * Removes a transaction from the pool
+     * @param hash - Transaction hash
+     * @returns Boolean indicating if it was pending
+     */
+    public remove(hash: string): boolean {
+        return this.entries.delete(hash);
+    }
+
+    /**
+     * Empties the pool
+     */
+    public clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Drops every transaction that has waited longer than the expiry
+     * @param now - Current time in milliseconds
+     * @returns The dropped transactions
+     */
+    public expire(now: number): Transaction[] {
+        const expired = this.getTransactions().filter(transaction => this.isExpired(transaction, now));
+        for (const transaction of expired) {
+            this.entries.delete(transaction.hash);
+        }
+        return expired;
+    }
+
+    /**
+     * Chooses the transactions for the next block: highest fee rate first, within the block limits
+     * A sender's numbered transactions are taken in sequence order, since each depends on the one before it.
+     * A transaction that would overflow the byte limit is skipped (along with the rest of its sender's sequence)
+     * so smaller ones can still fill the space
+     * @param limits - Maximum transaction count and bytes
+     * @returns The selected transactions, in the order they must appear in the block
+     */
+    public selectForBlock(limits: BlockLimits): Transaction[] {
+        // One queue per sender for numbered transactions, and one per transaction for the rest
+        const queues = new Map<string, PoolEntry[]>();
+        for (const entry of this.entries.values()) {
+            const { transaction } = entry;
+            const key = transaction.sequence === null ? `#${transaction.hash}` : transaction.fromAddress;
+            const queue = queues.get(key);
+            if (queue) {
+                queue.push(entry);
+            } else {
+                queues.set(key, [entry]);
+            }
+        }
+        for (const queue of queues.values()) {
+            queue.sort((a, b) => a.transaction.sequence! - b.transaction.sequence!);
+        }
+
+        const selected: Transaction[] = [];
+        let bytes = 0;
+        while (selected.length < limits.maxTransactions && queues.size > 0) {
+            // Take the best next transaction of any queue (queues are in admission order, so ties go to the oldest)
+            let bestKey = "";
+            let best: PoolEntry | undefined;
+            for (const [key, queue] of queues) {
+                if (!best || queue[0]!.feeRate > best.feeRate) {
+                    bestKey = key;
+                    best = queue[0]!;
+                }
+            }
+
+            const queue = queues.get(bestKey)!;
+            if (bytes + best!.size > limits.maxBytes) {
+                queues.delete(bestKey);
+                continue;
+            }
+            selected.push(best!.transaction);
+            bytes += best!.size;
+            queue.shift();
+            if (queue.length === 0) queues.delete(bestKey);
+        }
+        return selected;
+    }
+
+    /**
+     * Finds the pending transaction with the lowest fee rate (the oldest one on a tie)
+     * @returns The cheapest transaction's entry, or undefined if the pool is empty
+     */
+    private getCheapest(): PoolEntry | undefined {
+        let cheapest: PoolEntry | undefined;
+        for (const entry of this.entries.values()) {
+            if (!cheapest || entry.feeRate < cheapest.feeRate) {
+                cheapest = entry;
+            }
+        }
+        return cheapest;
+    }
+}
@@ -0,0 +1,141 @@
+/**
+ * One step of a Merkle inclusion proof
+ * The sibling hash is combined with the running hash on the given side
+ */
+export interface MerkleProofStep {
+    hash: string;                  // Sibling node hash at this level
+    position: "left" | "right";    // Which side the sibling sits on
+}
+
+/**
+ * Proof that a leaf is included in a Merkle tree
+ * Contains just the sibling hashes on the path to the root (log2(n) entries)
+ */
+export interface MerkleProof {
+    leaf: string;                  // The leaf being proven (a transaction hash)
+    index: number;                 // Position of the leaf in the block
+    steps: MerkleProofStep[];      // Sibling hashes from the leaf level up to the root
+}
+
+// Root of a tree with no leaves (a block without transactions)
+export const EMPTY_MERKLE_ROOT = "0".repeat(64);
+
+// Prefix bytes that keep leaves and inner nodes apart (as in RFC 6962), so an inner node can't pass for a leaf
+const LEAF_PREFIX = 0x00;
+const NODE_PREFIX = 0x01;
+
+/**
+ * Hashes a leaf into the bottom level of the tree
+ * @param leaf - Leaf hash (a transaction hash)
+ * @returns Hex-encoded SHA-256 of the leaf prefix and the leaf
+ */
+function hashLeaf(leaf: string): string {
+    const hash = new Bun.CryptoHasher("sha256");
+    hash.update(Uint8Array.of(LEAF_PREFIX));
+    hash.update(leaf);
+    return hash.digest("hex");
+}
+
+/**
+ * Hashes two child nodes into their parent
+ * @param left - Left child hash
+ * @param right - Right child hash
+ * @param legacy - Whether to hash the way legacy trees did, without the node prefix
+ * @returns Hex-encoded SHA-256 of the node prefix and the concatenated children
+ */
+function hashPair(left: string, right: string, legacy: boolean): string {
+    const hash = new Bun.CryptoHasher("sha256");
+    if (!legacy) hash.update(Uint8Array.of(NODE_PREFIX));
+    hash.update(left + right);
+    return hash.digest("hex");
+}
+
+/**
+ * Builds every level of the tree, from the leaves up to the root
+ * The last node of a level with an odd number of nodes moves up a level unchanged. Legacy trees paired it
+ * with itself instead (as Bitcoin does), which gives [a, b, c] and [a, b, c, c] the same root
+ * @param leaves - Leaf hashes in block order
+ * @param legacy - Whether to build the tree the way legacy blocks did, with unprefixed hashes
+ * @returns Array of levels, where levels[0] is the hashed leaves and the last level holds the root
+ */
+function buildLevels(leaves: string[], legacy: boolean): string[][] {
+    let level = legacy ? leaves : leaves.map(hashLeaf);
+    const levels: string[][] = [level];
+
+    while (level.length > 1) {
+        const next: string[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+            const left = level[i]!;
+            const right = level[i + 1];
+            if (right === undefined && !legacy) {
+                next.push(left);
+            } else {
+                next.push(hashPair(left, right ?? left, legacy));  // Legacy trees duplicate the last node on odd levels
+            }
+        }
+        levels.push(next);
+        level = next;
+    }
+    return levels;
+}
+
+/**
+ * Calculates the Merkle root of a list of leaf hashes
+ * @param leaves - Leaf hashes (transaction hashes) in block order
+ * @param legacy - Whether to build the tree the way legacy blocks did (see LEGACY_ENCODING_VERSION)
+ * @returns The root hash, or EMPTY_MERKLE_ROOT when there are no leaves
+ */
+export function computeMerkleRoot(leaves: string[], legacy: boolean = false): string {
+    if (leaves.length === 0) return EMPTY_MERKLE_ROOT;
+
+    const levels = buildLevels(leaves, legacy);
+    return levels[levels.length - 1]![0]!;
+}
+
+/**
+ * Builds an inclusion proof for the leaf at a given position
+ * @param leaves - Leaf hashes in block order
+ * @param index - Position of the leaf to prove
+ * @param legacy - Whether the tree is built the way legacy blocks did
+ * @throws {Error} If the index is out of range
+ * @returns Proof containing the sibling hashes on the path to the root
+ */
+export function buildMerkleProof(leaves: string[], index: number, legacy: boolean = false): MerkleProof {
+    const leaf = leaves[index];
+    if (leaf === undefined) {
+        throw new Error("Leaf index out of range");
+    }
+
+    const steps: MerkleProofStep[] = [];
+    const levels = buildLevels(leaves, legacy);
+    let position = index;
+
+    // Walk up every level below the root, recording the sibling at each step
+    for (const level of levels.slice(0, -1)) {
+        const isRightChild = position % 2 === 1;
+        const sibling = level[isRightChild ? position - 1 : position + 1] ?? (legacy ? level[position] : undefined);
+        if (sibling !== undefined) {  // A node without a sibling moves up unchanged
+            steps.push({ hash: sibling, position: isRightChild ? "left" : "right" });
+        }
+        position = Math.floor(position / 2);
+    }
+
+    return { leaf, index, steps };
+}
+
+/**
+ * Verifies a Merkle inclusion proof without needing the rest of the tree
+ * The tree kind comes from whoever supplies the root (e.g. the block header's version), never from the proof,
+ * since a legacy proof with no steps would accept the root itself as a leaf
+ * @param proof - The proof to check
+ * @param root - The Merkle root the leaf should be included under (e.g. from a block header)
+ * @param legacy - Whether the root is of a legacy tree (see computeMerkleRoot)
+ * @returns Boolean indicating if the proof leads from the leaf to the root
+ */
+export function verifyMerkleProof(proof: MerkleProof, root: string, legacy: boolean = false): boolean {
+    let hash = legacy ? proof.leaf : hashLeaf(proof.leaf);
+    for (const step of proof.steps) {
+        hash = step.position === "left" ? hashPair(step.hash, hash, legacy) : hashPair(hash, step.hash, legacy);
+    }
+    return hash === root;
+}
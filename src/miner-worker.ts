@@ -0,0 +1,34 @@
+import { Block } from "./block";
+import type { MiningJob, MiningMessage } from "./miner";
+
+declare var self: Worker;
+
+/**
+ * Searches one slice of the nonce space for a hash meeting the block's difficulty (see mineInWorkers)
+ * Runs until it finds one or the main thread terminates the worker
+ */
+self.onmessage = (event: MessageEvent<MiningJob>) => {
+    const job = event.data;
+
+    // Rebuild the header - the transactions themselves aren't needed, only the Merkle root the hash commits to
+    const block = new Block(job.index, job.previousHash, [], job.startNonce, job.difficulty);
+    block.version = job.version;
+    block.timestamp = job.timestamp;
+    block.merkleRoot = job.merkleRoot;
+
+    let tried = 0;
+    for (;;) {
+        block.hash = block.calculateHash();
+        tried++;
+        if (block.hasValidProofOfWork()) {
+            self.postMessage({ type: "progress", hashes: tried } satisfies MiningMessage);
+            self.postMessage({ type: "found", nonce: block.nonce, hash: block.hash } satisfies MiningMessage);
+            return;
+        }
+        if (tried === job.reportEvery) {
+            self.postMessage({ type: "progress", hashes: tried } satisfies MiningMessage);
+            tried = 0;
+        }
+        block.nonce += job.step;
+    }
+};
@@ -0,0 +1,127 @@
+import { availableParallelism } from "node:os";
+import type { Block } from "./block";
+
+/**
+ * Progress of a mining job, reported as workers finish each batch of hashes
+ */
+export interface MiningProgress {
+    hashes: number;      // Hashes tried so far, across every worker
+    elapsed: number;     // Milliseconds since mining started
+    hashRate: number;    // Hashes per second so far
+}
+
+/**
+ * Options for mining on worker threads
+ */
+export interface MiningOptions {
+    workers?: number;        // Worker threads to split the nonce space across (defaults to the number of CPUs)
+    signal?: AbortSignal;    // Stops mining when aborted (the promise rejects with the signal's reason)
+    onProgress?: (progress: MiningProgress) => void;
+}
+
+/**
+ * Work sent to each mining worker: the block header and the slice of the nonce space to search
+ * Worker k of n tries nonces k, k + n, k + 2n, ... so no two workers repeat a hash
+ */
+export interface MiningJob {
+    version: number;
+    index: number;
+    previousHash: string;
+    timestamp: number;
+    merkleRoot: string;
+    difficulty: number;
+    startNonce: number;      // First nonce this worker tries
+    step: number;            // Distance between the nonces it tries (the number of workers)
+    reportEvery: number;     // Hashes between progress messages
+}
+
+/**
+ * Messages a mining worker sends back
+ * - "progress": it tried another batch of hashes
+ * - "found": it found a nonce whose hash meets the difficulty
+ */
+export type MiningMessage =
+    | { type: "progress"; hashes: number }
+    | { type: "found"; nonce: number; hash: string };
+
+// Hashes each worker tries between progress messages
+const REPORT_EVERY = 10_000;
+
+/**
+ * Mines a block on worker threads without blocking the event loop
+ * The nonce space is split across the workers; the first one to find a hash meeting the block's difficulty wins
+ * and the rest are stopped. The block's nonce and hash are set once the result has been checked
+ * @param block - The block to mine (its header must not change while mining)
+ * @param options - Worker count, abort signal and progress callback
+ * @throws {Error} If the worker count isn't a positive integer
+ * @returns Resolves once the block is mined; rejects with the signal's reason if aborted, or if a worker fails
+ */
+export function mineInWorkers(block: Block, options: MiningOptions = {}): Promise<void> {
+    const count = options.workers ?? availableParallelism();
+    if (!Number.isSafeInteger(count) || count < 1) {
+        throw new Error("Worker count must be a positive integer");
+    }
+    const signal = options.signal;
+    if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+        const workers: Worker[] = [];
+        const started = Date.now();
+        let hashes = 0;
+        let settled = false;
+
+        // Stops every worker and settles the promise exactly once
+        const settle = (error?: unknown) => {
+            if (settled) return;
+            settled = true;
+            for (const worker of workers) {
+                worker.terminate();
+            }
+            signal?.removeEventListener("abort", onAbort);
+            if (error === undefined) {
+                resolve();
+            } else {
+                reject(error);
+            }
+        };
+        const onAbort = () => settle(signal!.reason);
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        const onMessage = (message: MiningMessage) => {
+            if (settled) return;
+            if (message.type === "progress") {
+                hashes += message.hashes;
+                const elapsed = Date.now() - started;
+                options.onProgress?.({ hashes, elapsed, hashRate: elapsed > 0 ? (hashes / elapsed) * 1000 : 0 });
+                return;
+            }
+
+            // Don't take the worker's word for it
+            block.nonce = message.nonce;
+            block.hash = block.calculateHash();
+            settle(block.hash === message.hash && block.hasValidProofOfWork()
+                ? undefined
+                : new Error(`Mining worker returned an invalid nonce for block ${block.index}`));
+        };
+
+        for (let i = 0; i < count; i++) {
+            const worker = new Worker(new URL("./miner-worker.ts", import.meta.url).href);
+            worker.onmessage = (event: MessageEvent<MiningMessage>) => onMessage(event.data);
+            worker.onerror = event => settle(new Error(`Mining worker failed: ${event.message}`));
+            workers.push(worker);
+            worker.postMessage({
+                version: block.version,
+                index: block.index,
+                previousHash: block.previousHash,
+                timestamp: block.timestamp,
+                merkleRoot: block.merkleRoot,
+                difficulty: block.difficulty,
+                startNonce: i,
+                step: count,
+                reportEvery: REPORT_EVERY
+            } satisfies MiningJob);
+        }
+    });
+}
@@ -0,0 +1,504 @@
+import type { Server, ServerWebSocket } from "bun";
+import { randomUUID } from "node:crypto";
+import { Block } from "./block";
+import type { Blockchain, BlockStatus } from "./blockchain";
+import { Transaction } from "./transaction";
+import type { MiningOptions } from "./miner";
+
+/**
+ * Messages exchanged between nodes (sent as JSON text frames)
+ * Blocks and transactions travel in their binary encoding (see Block.encode), as base64 text
+ */
+export type NodeMessage =
+    | { type: "hello"; nodeId: string; url: string; genesisHash: string; work: number; peers: string[] }
+    | { type: "transaction"; transaction: string }
+    | { type: "block"; block: string }
+    | { type: "getBlocks"; locator: string[] }
+    | { type: "blocks"; blocks: string[] };
+
+/**
+ * Options for starting a node
+ */
+export interface NodeOptions {
+    hostname?: string;   // Interface to listen on (defaults to "127.0.0.1")
+    port?: number;       // Port to listen on (defaults to 0, which picks a free port)
+    seeds?: string[];    // WebSocket URLs of peers to connect to on startup
+}
+
+/**
+ * A live connection to another node, inbound or outbound
+ */
+interface PeerConnection {
+    send(message: string): void;
+    close(): void;
+    nodeId: string | null;   // Learned from the peer's hello
+    url: string | null;      // Where the peer listens (so others can discover it)
+}
+
+// Most blocks sent in a single "blocks" reply - a peer that is further behind asks again
+const MAX_BLOCKS_PER_REPLY = 500;
+
+/**
+ * Peer-to-peer node that shares a Blockchain with other nodes over WebSocket
+ *
+ * Transactions added to the chain's pending pool and blocks mined on the chain (through the node or directly,
+ * e.g. by the API or CLI) are gossiped to every peer, which validate them and pass them on. On connecting, nodes exchange
+ * a handshake with their cumulative chain work and known peers: unknown peers are connected to (discovery)
+ * and a node with less work requests the blocks it is missing. Requests carry a block locator (hashes
+ * sampled back along the requester's main chain) so the reply starts at the fork point, even when the
+ * two nodes are on different branches.
+ *
+ * All nodes on a network must start from the same genesis block, e.g. by creating their chains from the
+ * same ChainConfig (genesis timestamp included) or loading one chain with Blockchain.fromJSON.
+ * Peers with a different genesis hash are disconnected
+ */
+export class Node {
+    public readonly blockchain: Blockchain;       // The chain this node serves
+    public readonly nodeId: string = randomUUID(); // Random identity, used to avoid connecting to ourselves
+    private readonly options: NodeOptions;
+    private server: Server | null = null;
+    private connections: Set<PeerConnection> = new Set();  // Every open connection (inbound and outbound)
+    private connecting: Set<string> = new Set();           // URLs with an outbound connection in progress or open
+    private seenTransactions: Set<string> = new Set();     // Hashes already admitted or relayed (stops gossip loops)
+    private seenBlocks: Set<string> = new Set();
+    private relayingFrom: PeerConnection | null = null;    // Peer whose transaction is being admitted (not sent back to it)
+
+    /**
+     * Creates a node for a blockchain (call start() to begin listening)
+     * @param blockchain - The chain to share
+     * @param options - Listening address and seed peers
+     */
+    constructor(blockchain: Blockchain, options: NodeOptions = {}) {
+        this.blockchain = blockchain;
+        this.options = options;
+
+        // Gossip every transaction added and block mined on this chain, whether through the node, on the chain directly
+        // or from a peer (which handleTransaction leaves out)
+        blockchain.on("transactionAdded", ({ transaction }) => {
+            if (this.seenTransactions.has(transaction.hash)) return;
+            this.seenTransactions.add(transaction.hash);
+            this.broadcast({ type: "transaction", transaction: toBase64(transaction.encode()) }, this.relayingFrom ?? undefined);
+        });
+        blockchain.on("blockMined", ({ block }) => {
+            this.seenBlocks.add(block.hash);
+            this.broadcast({ type: "block", block: toBase64(block.encode()) });
+        });
+    }
+
+    /**
+     * URL other nodes can connect to
+     * @throws Error if the node hasn't been started
+     */
+    get url(): string {
+        if (!this.server) {
+            throw new Error("Node is not running");
+        }
+        return `ws://${this.server.hostname}:${this.server.port}`;
+    }
+
+    /**
+     * Starts listening and connects to the seed peers
+     * Seeds that can't be reached are skipped
+     */
+    public async start(): Promise<void> {
+        const node = this;
+        this.server = Bun.serve<PeerConnection, {}>({
+            hostname: this.options.hostname ?? "127.0.0.1",
+            port: this.options.port ?? 0,
+            fetch(request, server) {
+                const connection: PeerConnection = { send: () => {}, close: () => {}, nodeId: null, url: null };
+                if (server.upgrade(request, { data: connection })) return undefined;
+                return new Response("Expected a WebSocket upgrade", { status: 426 });
+            },
+            websocket: {
+                open(ws: ServerWebSocket<PeerConnection>) {
+                    ws.data.send = message => { ws.send(message); };
+                    ws.data.close = () => ws.close();
+                    node.addConnection(ws.data);
+                },
+                message(ws: ServerWebSocket<PeerConnection>, message: string | Buffer) {
+                    node.handleMessage(ws.data, message.toString());
+                },
+                close(ws: ServerWebSocket<PeerConnection>) {
+                    node.connections.delete(ws.data);
+                }
+            }
+        });
+
+        await Promise.all((this.options.seeds ?? []).map(url => this.connect(url).catch(() => undefined)));
+    }
+
+    /**
+     * Disconnects from every peer and stops listening
+     */
+    public stop(): void {
+        for (const connection of this.connections) {
+            connection.close();
+        }
+        this.connections.clear();
+        this.connecting.clear();
+        this.server?.stop(true);
+        this.server = null;
+    }
+
+    /**
+     * Opens an outbound connection to a peer and performs the handshake
+     * @param url - WebSocket URL of the peer
+     * @throws Error if the peer can't be reached
+     */
+    public async connect(url: string): Promise<void> {
+        if (this.connecting.has(url) || (this.server && url === this.url)) return;
+        this.connecting.add(url);
+
+        const socket = new WebSocket(url);
+        const connection: PeerConnection = {
+            send: message => socket.send(message),
+            close: () => socket.close(),
+            nodeId: null,
+            url
+        };
+
+        await new Promise<void>((resolve, reject) => {
+            socket.addEventListener("open", () => {
+                this.addConnection(connection);
+                resolve();
+            });
+            socket.addEventListener("error", () => {
+                this.connecting.delete(url);
+                reject(new Error(`Could not connect to peer ${url}`));
+            });
+        });
+        socket.addEventListener("message", event => this.handleMessage(connection, String(event.data)));
+        socket.addEventListener("close", () => {
+            this.connections.delete(connection);
+            this.connecting.delete(url);
+        });
+    }
+
+    /**
+     * Lists the URLs of peers that have completed the handshake
+     * @returns Peer URLs
+     */
+    public getPeers(): string[] {
+        const urls = new Set<string>();
+        for (const connection of this.connections) {
+            if (connection.nodeId && connection.url) urls.add(connection.url);
+        }
+        return [...urls];
+    }
+
+    /**
+     * Adds a transaction to the local chain and gossips it to every peer
+     * @param transaction - The signed transaction
+     * @throws Error if the local chain rejects it
+     * @returns The index of the block that will contain it
+     */
+    public createTransaction(transaction: Transaction): number {
+        return this.blockchain.createTransaction(transaction);  // Gossiped by the transactionAdded listener
+    }
+
+    /**
+     * Mines the pending transactions locally and gossips the new block to every peer
+     * @param miningRewardAddress - Address to receive the mining reward
+     * @returns The newly mined block
+     */
+    public minePendingTransactions(miningRewardAddress: string): Block {
+        this.blockchain.minePendingTransactions(miningRewardAddress);
+        return this.blockchain.chain[this.blockchain.chain.length - 1]!;
+    }
+
+    /**
+     * Mines the pending transactions on worker threads and gossips the new block to every peer
+     * Mining is cancelled if a competing block for the same height arrives from a peer first
+     * @param miningRewardAddress - Address to receive the mining reward
+     * @param options - Worker count, abort signal and progress callback
+     * @returns The newly mined block; rejects if mining was aborted or cancelled
+     */
+    public minePendingTransactionsAsync(miningRewardAddress: string, options: MiningOptions = {}): Promise<Block> {
+        return this.blockchain.minePendingTransactionsAsync(miningRewardAddress, options);
+    }
+
+    /**
+     * Registers a newly opened connection and introduces ourselves
+     * @param connection - The new connection
+     */
+    private addConnection(connection: PeerConnection): void {
+        this.connections.add(connection);
+        this.send(connection, {
+            type: "hello",
+            nodeId: this.nodeId,
+            url: this.url,
+            genesisHash: this.blockchain.chain[0]!.hash,
+            work: this.blockchain.getChainWork(),
+            peers: this.getPeers()
+        });
+    }
+
+    /**
+     * Sends a message to one peer
+     * @param connection - The peer
+     * @param message - The message to send
+     */
+    private send(connection: PeerConnection, message: NodeMessage): void {
+        try {
+            connection.send(JSON.stringify(message));
+        } catch {
+            this.connections.delete(connection);  // The socket went away underneath us
+        }
+    }
+
+    /**
+     * Sends a message to every handshaken peer, optionally skipping the one it came from
+     * @param message - The message to send
+     * @param except - Connection to skip
+     */
+    private broadcast(message: NodeMessage, except?: PeerConnection): void {
+        for (const connection of this.connections) {
+            if (connection !== except && connection.nodeId) {
+                this.send(connection, message);
+            }
+        }
+    }
+
+    /**
+     * Handles a message from a peer
+     * Malformed messages, data the chain rejects and anything but a hello before the handshake are ignored -
+     * peers can't crash the node
+     * @param connection - Where the message came from
+     * @param raw - The JSON text frame
+     */
+    private handleMessage(connection: PeerConnection, raw: string): void {
+        let message: unknown;
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            return;
+        }
+        if (typeof message !== "object" || message === null || Array.isArray(message)) return;
+
+        // Nothing a peer sends may reach the top level, so handlers that trip over unexpected data are stopped here
+        try {
+            const fields = message as Record<string, unknown>;
+            if (fields.type !== "hello" && !connection.nodeId) return;
+            switch (fields.type) {
+                case "hello":
+                    this.handleHello(connection, fields);
+                    break;
+                case "transaction":
+                    this.handleTransaction(connection, fields.transaction);
+                    break;
+                case "block":
+                    this.handleBlock(connection, fields.block);
+                    break;
+                case "getBlocks":
+                    this.handleGetBlocks(connection, fields.locator);
+                    break;
+                case "blocks":
+                    this.handleBlocks(connection, fields.blocks);
+                    break;
+            }
+        } catch {
+            return;
+        }
+    }
+
+    /**
+     * Builds a block locator for our main chain
+     * The ten most recent hashes, then exponentially further back, always ending with the genesis block
+     * @returns Block hashes, newest first
+     */
+    private getLocator(): string[] {
+        const chain = this.blockchain.chain;
+        const locator: string[] = [];
+        let step = 1;
+        for (let index = chain.length - 1; index > 0; index -= step) {
+            locator.push(chain[index]!.hash);
+            if (locator.length >= 10) step *= 2;
+        }
+        locator.push(chain[0]!.hash);
+        return locator;
+    }
+
+    /**
+     * Asks a peer for the blocks after the newest point our chains share
+     * @param connection - The peer
+     * @param after - Hash of a block we already have from this peer (tried before our own locator)
+     */
+    private requestBlocks(connection: PeerConnection, after?: string): void {
+        const locator = this.getLocator();
+        this.send(connection, { type: "getBlocks", locator: after ? [after, ...locator] : locator });
+    }
+
+    /**
+     * Replies with the main-chain blocks that follow the first locator hash we recognize
+     * @param connection - The peer asking
+     * @param locator - The peer's block locator, newest first
+     */
+    private handleGetBlocks(connection: PeerConnection, locator: unknown): void {
+        if (!isStringArray(locator)) return;
+
+        const chain = this.blockchain.chain;
+        const onChain = new Map(chain.map(block => [block.hash, block.index]));
+        const shared = locator.find(hash => onChain.has(hash));
+        const fromIndex = shared === undefined ? 1 : onChain.get(shared)! + 1;  // Genesis is always shared
+        this.send(connection, {
+            type: "blocks",
+            blocks: chain.slice(fromIndex, fromIndex + MAX_BLOCKS_PER_REPLY).map(block => toBase64(block.encode()))
+        });
+    }
+
+    /**
+     * Completes the handshake: checks the peer is on our network, discovers its peers, and catches up if behind
+     * A hello with missing or mistyped fields is treated like one from another network
+     * @param connection - The peer
+     * @param message - Its hello message (unchecked)
+     */
+    private handleHello(connection: PeerConnection, message: Record<string, unknown>): void {
+        if (!isHello(message) || message.nodeId === this.nodeId || message.genesisHash !== this.blockchain.chain[0]!.hash) {
+            this.connections.delete(connection);
+            connection.close();
+            return;
+        }
+        connection.nodeId = message.nodeId;
+        connection.url = message.url;
+
+        // Discovery: connect to anyone the peer knows that we don't
+        for (const url of [message.url, ...message.peers]) {
+            if (url !== this.url && !this.getPeers().includes(url)) {
+                this.connect(url).catch(() => undefined);
+            }
+        }
+
+        if (message.work > this.blockchain.getChainWork()) {
+            this.requestBlocks(connection);
+        }
+    }
+
+    /**
+     * Admits a gossiped transaction and passes it on (through the transactionAdded listener)
+     * A rejected transaction isn't marked as seen: the hash doesn't cover the signature or unlocking scripts, so a
+     * tampered copy mustn't shut out the genuine one, and one that arrived too early may be admitted later
+     * @param connection - The peer it came from
+     * @param data - The encoded transaction
+     */
+    private handleTransaction(connection: PeerConnection, data: unknown): void {
+        let transaction: Transaction;
+        try {
+            transaction = Transaction.decode(fromBase64(data));
+        } catch {
+            return;
+        }
+        if (this.seenTransactions.has(transaction.hash)) return;
+
+        this.relayingFrom = connection;
+        try {
+            this.blockchain.createTransaction(transaction);
+        } catch {
+            // Rejected - left unseen
+        } finally {
+            this.relayingFrom = null;
+        }
+    }
+
+    /**
+     * Adds a gossiped block and passes it on
+     * A block whose parent we don't have means we missed some (or the peer is on another branch) - ask for them
+     * Only blocks the chain accepts are marked as seen, for the same reason as transactions (see handleTransaction)
+     * @param connection - The peer it came from
+     * @param data - The encoded block
+     */
+    private handleBlock(connection: PeerConnection, data: unknown): void {
+        let block: Block;
+        try {
+            block = Block.decode(fromBase64(data));
+        } catch {
+            return;
+        }
+        if (this.seenBlocks.has(block.hash)) return;
+
+        let status: BlockStatus;
+        try {
+            status = this.blockchain.addBlock(block);
+        } catch {
+            return;
+        }
+
+        if (status === "orphan") {
+            this.requestBlocks(connection);  // Not seen yet: it is only checked once its parent arrives
+            return;
+        }
+        this.seenBlocks.add(block.hash);
+        if (status !== "known") {
+            this.broadcast({ type: "block", block: toBase64(block.encode()) }, connection);
+        }
+    }
+
+    /**
+     * Adds a batch of blocks requested from a peer, asking for more if the batch was full
+     * @param connection - The peer that sent them
+     * @param blocks - Consecutive encoded blocks, oldest first
+     */
+    private handleBlocks(connection: PeerConnection, blocks: unknown): void {
+        if (!Array.isArray(blocks)) return;
+
+        let last: Block | null = null;
+        for (const data of blocks) {
+            try {
+                last = Block.decode(fromBase64(data));
+                this.blockchain.addBlock(last);
+                this.seenBlocks.add(last.hash);
+            } catch {
+                return;
+            }
+        }
+
+        // A full batch means the peer may have more - continue from the last block it sent
+        if (last && blocks.length === MAX_BLOCKS_PER_REPLY) {
+            this.requestBlocks(connection, last.hash);
+        }
+    }
+}
+
+/**
+ * Checks that a value is an array of strings
+ * @param value - Value from a peer's message
+ * @returns Boolean indicating if every element is a string
+ */
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(element => typeof element === 'string');
+}
+
+/**
+ * Checks that a message has every field of a hello, with the right types
+ * @param message - Message from a peer
+ * @returns Boolean indicating if it is a well-formed hello
+ */
+function isHello(message: Record<string, unknown>): message is Extract<NodeMessage, { type: "hello" }> {
+    return typeof message.nodeId === 'string' &&
+        typeof message.url === 'string' &&
+        typeof message.genesisHash === 'string' &&
+        typeof message.work === 'number' &&
+        isStringArray(message.peers);
+}
+
+/**
+ * Converts an encoding to the base64 text carried in messages
+ * @param bytes - The encoding
+ * @returns Base64 text
+ */
+function toBase64(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString("base64");
+}
+
+/**
+ * Reads an encoding back from message text
+ * @param text - Base64 text
+ * @throws {Error} If the text isn't a string
+ * @returns The encoding
+ */
+function fromBase64(text: unknown): Uint8Array {
+    if (typeof text !== 'string') {
+        throw new Error("Invalid message: expected base64 text");
+    }
+    return Buffer.from(text, "base64");
+}
@@ -0,0 +1,66 @@
+/**
+ * How new coins are issued to miners
+ * Block 1 onwards pays initialReward, halving every halvingInterval blocks, until maxSupply has been issued
+ */
+export interface RewardSchedule {
+    initialReward: number;     // Subsidy of the first halving era
+    halvingInterval: number;   // Blocks per era - the subsidy halves at the start of each new one
+    maxSupply: number;         // Most coins that will ever be issued as subsidies
+}
+
+// After this many halvings the subsidy is treated as zero (it is far below any meaningful amount)
+const MAX_HALVINGS = 64;
+
+/**
+ * Checks that a reward schedule is usable
+ * @param schedule - Schedule to check
+ * @returns Boolean indicating if the reward is a positive finite number, the interval a positive integer
+ * and the supply cap non-negative
+ */
+export function isValidRewardSchedule(schedule: RewardSchedule): boolean {
+    return Number.isFinite(schedule.initialReward) && schedule.initialReward > 0 &&
+        Number.isSafeInteger(schedule.halvingInterval) && schedule.halvingInterval > 0 &&
+        Number.isFinite(schedule.maxSupply) && schedule.maxSupply >= 0;
+}
+
+/**
+ * Subsidy the halving schedule pays at a height, before the supply cap is applied
+ * @param height - Block index (the genesis block at 0 pays nothing)
+ * @param schedule - The reward schedule
+ * @returns The uncapped subsidy
+ */
+function scheduledSubsidy(height: number, schedule: RewardSchedule): number {
+    if (height < 1) return 0;
+    const halvings = Math.floor((height - 1) / schedule.halvingInterval);
+    return halvings >= MAX_HALVINGS ? 0 : schedule.initialReward / 2 ** halvings;
+}
+
+/**
+ * Total subsidy issued by every block from 1 up to and including a height, respecting the supply cap
+ * Summed a whole era at a time, so it doesn't need to visit every block
+ * @param height - Last block index to include
+ * @param schedule - The reward schedule
+ * @returns Coins issued so far
+ */
+export function issuedSupply(height: number, schedule: RewardSchedule): number {
+    let issued = 0;
+    let remaining = Math.max(0, height);
+    for (let era = 0; remaining > 0 && era < MAX_HALVINGS; era++) {
+        const blocks = Math.min(remaining, schedule.halvingInterval);
+        issued += blocks * (schedule.initialReward / 2 ** era);
+        remaining -= blocks;
+    }
+    return Math.min(issued, schedule.maxSupply);
+}
+
+/**
+ * Subsidy a block at the given height may claim
+ * Follows the halving schedule, reduced once the supply cap is reached so issuance never exceeds it
+ * @param height - Block index
+ * @param schedule - The reward schedule
+ * @returns The subsidy (0 for the genesis block and once the cap is reached)
+ */
+export function blockSubsidy(height: number, schedule: RewardSchedule): number {
+    const remaining = schedule.maxSupply - issuedSupply(height - 1, schedule);
+    return Math.max(0, Math.min(scheduledSubsidy(height, schedule), remaining));
+}
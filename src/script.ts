@@ -0,0 +1,400 @@
+import { verifySignature } from "./crypto";
+
+/**
+ * When and where a spend happens - what time and height locks are checked against
+ */
+export interface SpendContext {
+    time: number;        // Median time past of the block the spend is in (or of the next block, for a pending spend)
+    height: number;      // Index of that block (or of the next block, for a pending spend)
+}
+
+/**
+ * Everything a script can see while it runs
+ */
+export interface ScriptContext extends SpendContext {
+    txHash: string;      // Hash of the spending transaction - the message CHECKSIG and CHECKMULTISIG verify
+}
+
+// Limits that keep every script cheap to run and bounded, whatever it contains
+const MAX_SCRIPT_LENGTH = 10_000;   // Characters per script
+const MAX_PUSH_LENGTH = 1024;       // Characters per data item
+const MAX_STACK_SIZE = 100;         // Items on the stack at once
+const MAX_SCRIPT_STEPS = 500;       // Operations per spend (unlocking and locking script together; each key checked counts)
+const MAX_MULTISIG_KEYS = 20;       // Public keys in one CHECKMULTISIG
+
+// Prefix of the address that owns outputs locked by a script
+const SCRIPT_ADDRESS_PREFIX = "script:";
+
+/**
+ * Operations the script VM understands
+ * - DUP, DROP, SWAP: stack manipulation
+ * - EQUAL, EQUALVERIFY, VERIFY: comparisons ("VERIFY" variants fail the script instead of pushing false)
+ * - SHA256: replaces the top item with the hash of its text (see hashSecret)
+ * - CHECKSIG, CHECKSIGVERIFY: <signature> <publicKey> - checks a signature over the spending transaction's hash
+ * - CHECKMULTISIG, CHECKMULTISIGVERIFY: <signature x m> m <publicKey x n> n - checks m signatures against n keys
+ *   (signatures must be in the same order as their keys)
+ * - CHECKTIMEVERIFY, CHECKHEIGHTVERIFY: <lock> - fails unless the spend's time or height has reached lock
+ * - IF, NOTIF, ELSE, ENDIF: run a branch depending on the top item
+ */
+const OPCODES = new Set([
+    "DUP", "DROP", "SWAP",
+    "EQUAL", "EQUALVERIFY", "VERIFY",
+    "SHA256",
+    "CHECKSIG", "CHECKSIGVERIFY", "CHECKMULTISIG", "CHECKMULTISIGVERIFY",
+    "CHECKTIMEVERIFY", "CHECKHEIGHTVERIFY",
+    "IF", "NOTIF", "ELSE", "ENDIF"
+]);
+
+/**
+ * Splits a script into its tokens and checks that it is well-formed
+ * A script is a space-separated list of opcodes (see OPCODES) and data items; data items are lowercase hex
+ * (public keys, signatures, hashes) or decimal numbers, which are pushed onto the stack as they are
+ * @param script - Script text
+ * @throws {Error} If the script is too long, has an unknown token or oversized item, or unbalanced IF/ENDIF
+ * @returns The tokens, in order
+ */
+export function parseScript(script: string): string[] {
+    if (typeof script !== 'string' || script.length > MAX_SCRIPT_LENGTH) {
+        throw new Error(`Script must be a string of at most ${MAX_SCRIPT_LENGTH} characters`);
+    }
+    const tokens = script.trim() === "" ? [] : script.trim().split(/\s+/);
+
+    let depth = 0;  // Open IF blocks
+    for (const token of tokens) {
+        if (token === "IF" || token === "NOTIF") {
+            depth++;
+        } else if (token === "ELSE" || token === "ENDIF") {
+            if (depth === 0) throw new Error(`${token} without IF in script`);
+            if (token === "ENDIF") depth--;
+        } else if (!OPCODES.has(token) && (!/^[0-9a-f]+$/.test(token) || token.length > MAX_PUSH_LENGTH)) {
+            throw new Error(`Invalid script token ${token.slice(0, 20)}`);
+        }
+    }
+    if (depth !== 0) {
+        throw new Error("IF without ENDIF in script");
+    }
+    return tokens;
+}
+
+/**
+ * Checks that a script is well-formed and, for unlocking scripts, only pushes data
+ * @param script - Script text
+ * @param pushOnly - Whether opcodes are forbidden (unlocking scripts may only supply data)
+ * @returns Boolean indicating if the script can be used
+ */
+export function isValidScript(script: string, pushOnly: boolean = false): boolean {
+    try {
+        const tokens = parseScript(script);
+        return !pushOnly || tokens.every(token => !OPCODES.has(token));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Runs an unlocking script followed by the locking script it claims to satisfy
+ * The unlocking script may only push data; the locking script then runs on that stack and must finish
+ * with a true value (anything but empty or all zeros) on top
+ * @param unlockingScript - Data supplied by the spender (e.g. signatures or a hash preimage)
+ * @param lockingScript - Conditions set by the output being spent
+ * @param context - Spending transaction hash, time and height
+ * @throws {Error} Describing why the spend is not allowed
+ */
+export function verifyScript(unlockingScript: string, lockingScript: string, context: ScriptContext): void {
+    const unlocking = parseScript(unlockingScript);
+    if (unlocking.some(token => OPCODES.has(token))) {
+        throw new Error("unlocking script may only push data");
+    }
+
+    const machine = new ScriptMachine(context);
+    machine.run(unlocking);
+    machine.run(parseScript(lockingScript));
+    if (!machine.succeeded()) {
+        throw new Error("script did not finish with a true value");
+    }
+}
+
+/**
+ * Gets the address that owns outputs locked by a script
+ * Payments locked by a script must go to this address, and only spends that satisfy the script can move them
+ * @param lockingScript - Script text
+ * @returns The script's address ("script:" followed by the SHA-256 of the script)
+ */
+export function scriptAddress(lockingScript: string): string {
+    return SCRIPT_ADDRESS_PREFIX + hashSecret(lockingScript);
+}
+
+/**
+ * Checks whether an address belongs to a script rather than a key
+ * @param address - Address to check
+ * @returns Boolean indicating if it is a script address
+ */
+export function isScriptAddress(address: string): boolean {
+    return address.startsWith(SCRIPT_ADDRESS_PREFIX);
+}
+
+/**
+ * Hashes a value the way the SHA256 opcode does (the SHA-256 of its text), e.g. to build a hash lock
+ * @param secret - The value to hash
+ * @returns Hex-encoded SHA-256
+ */
+export function hashSecret(secret: string): string {
+    const hash = new Bun.CryptoHasher("sha256");
+    hash.update(secret);
+    return hash.digest("hex");
+}
+
+/**
+ * Builds an M-of-N multisignature locking script
+ * Unlock with the signatures of any `required` of the keys, in key order
+ * @param required - Signatures needed (M)
+ * @param publicKeys - Keys allowed to sign (N)
+ * @throws {Error} If M isn't between 1 and N, or there are more than 20 keys
+ * @returns The locking script
+ */
+export function multisigScript(required: number, publicKeys: string[]): string {
+    if (!Number.isSafeInteger(required) || required < 1 || required > publicKeys.length || publicKeys.length > MAX_MULTISIG_KEYS) {
+        throw new Error(`Multisig needs between 1 and N signatures from at most ${MAX_MULTISIG_KEYS} keys`);
+    }
+    return [required, ...publicKeys, publicKeys.length, "CHECKMULTISIG"].join(" ");
+}
+
+/**
+ * Builds a locking script that a key can only unlock from a given time or block height onwards
+ * Unlock with the key's signature
+ * @param lock - Timestamp (milliseconds) or block height the spend must reach
+ * @param publicKey - Key that may spend once the lock has passed
+ * @param kind - Whether lock is a "time" or a "height" (defaults to "time")
+ * @returns The locking script
+ */
+export function timeLockScript(lock: number, publicKey: string, kind: "time" | "height" = "time"): string {
+    return `${lock} ${kind === "time" ? "CHECKTIMEVERIFY" : "CHECKHEIGHTVERIFY"} ${publicKey} CHECKSIG`;
+}
+
+/**
+ * Builds a locking script that anyone who knows the secret behind a hash can unlock
+ * Unlock with the secret itself (see hashSecret)
+ * @param hash - Hash of the secret
+ * @returns The locking script
+ */
+export function hashLockScript(hash: string): string {
+    return `SHA256 ${hash} EQUAL`;
+}
+
+/**
+ * Stack machine that runs scripts against one spend
+ * The stack and step count carry over from the unlocking script to the locking script
+ */
+class ScriptMachine {
+    private stack: string[] = [];
+    private steps = 0;
+
+    /**
+     * Creates a machine for one spend
+     * @param context - Spending transaction hash, time and height
+     */
+    constructor(private readonly context: ScriptContext) {}
+
+    /**
+     * Checks whether the scripts run so far succeeded
+     * @returns Boolean indicating if the top item is true
+     */
+    public succeeded(): boolean {
+        const top = this.stack[this.stack.length - 1];
+        return top !== undefined && isTrue(top);
+    }
+
+    /**
+     * Runs a parsed script on the current stack
+     * @param tokens - Tokens from parseScript
+     * @throws {Error} If an operation fails, the stack overflows or underflows, or the step limit is reached
+     */
+    public run(tokens: string[]): void {
+        const branches: boolean[] = [];  // For each open IF: whether the branch being read runs
+
+        for (const token of tokens) {
+            this.step(1);
+            const executing = branches.every(Boolean);
+
+            if (token === "IF" || token === "NOTIF") {
+                // A skipped branch doesn't look at the stack, but its nested IFs still need matching up
+                branches.push(executing && isTrue(this.pop(token)) === (token === "IF"));
+                continue;
+            }
+            if (token === "ELSE") {
+                branches.push(!branches.pop()!);
+                continue;
+            }
+            if (token === "ENDIF") {
+                branches.pop();
+                continue;
+            }
+            if (!executing) continue;
+
+            if (!OPCODES.has(token)) {
+                this.push(token);
+                continue;
+            }
+            this.execute(token);
+        }
+    }
+
+    /**
+     * Runs one opcode (other than the flow-control ones)
+     * @param opcode - The opcode
+     * @throws {Error} If the operation fails
+     */
+    private execute(opcode: string): void {
+        switch (opcode) {
+            case "DUP": {
+                const top = this.pop(opcode);
+                this.push(top);
+                this.push(top);
+                break;
+            }
+            case "DROP":
+                this.pop(opcode);
+                break;
+            case "SWAP": {
+                const top = this.pop(opcode);
+                const below = this.pop(opcode);
+                this.push(top);
+                this.push(below);
+                break;
+            }
+            case "EQUAL":
+            case "EQUALVERIFY":
+                this.result(opcode, this.pop(opcode) === this.pop(opcode));
+                break;
+            case "VERIFY":
+                this.result(opcode, isTrue(this.pop(opcode)));
+                break;
+            case "SHA256":
+                this.push(hashSecret(this.pop(opcode)));
+                break;
+            case "CHECKSIG":
+            case "CHECKSIGVERIFY": {
+                const publicKey = this.pop(opcode);
+                const signature = this.pop(opcode);
+                this.result(opcode, verifySignature(this.context.txHash, signature, publicKey));
+                break;
+            }
+            case "CHECKMULTISIG":
+            case "CHECKMULTISIGVERIFY":
+                this.result(opcode, this.checkMultisig(opcode));
+                break;
+            case "CHECKTIMEVERIFY": {
+                const lock = this.popNumber(opcode);
+                if (this.context.time < lock) throw new Error(`time lock until ${lock} has not passed`);
+                break;
+            }
+            case "CHECKHEIGHTVERIFY": {
+                const lock = this.popNumber(opcode);
+                if (this.context.height < lock) throw new Error(`height lock until block ${lock} has not passed`);
+                break;
+            }
+        }
+    }
+
+    /**
+     * Pops the operands of CHECKMULTISIG and checks the signatures
+     * Each signature must match a key after the one the previous signature matched, so keys are used at most once
+     * @param opcode - CHECKMULTISIG or CHECKMULTISIGVERIFY (for error messages)
+     * @throws {Error} If the key or signature counts are out of range
+     * @returns Boolean indicating if enough keys signed
+     */
+    private checkMultisig(opcode: string): boolean {
+        const keyCount = this.popNumber(opcode);
+        if (keyCount > MAX_MULTISIG_KEYS) throw new Error(`${opcode} allows at most ${MAX_MULTISIG_KEYS} keys`);
+        const publicKeys = Array.from({ length: keyCount }, () => this.pop(opcode)).reverse();
+        const required = this.popNumber(opcode);
+        if (required > keyCount) throw new Error(`${opcode} requires more signatures than it has keys`);
+        const signatures = Array.from({ length: required }, () => this.pop(opcode)).reverse();
+        this.step(keyCount);
+
+        let keyIndex = 0;
+        for (const signature of signatures) {
+            while (keyIndex < publicKeys.length && !verifySignature(this.context.txHash, signature, publicKeys[keyIndex]!)) {
+                keyIndex++;
+            }
+            if (keyIndex === publicKeys.length) return false;
+            keyIndex++;
+        }
+        return true;
+    }
+
+    /**
+     * Pushes a check's outcome, or for the VERIFY variants fails unless it passed
+     * @param opcode - The opcode that made the check
+     * @param passed - The check's outcome
+     * @throws {Error} If a VERIFY variant's check failed
+     */
+    private result(opcode: string, passed: boolean): void {
+        if (opcode.endsWith("VERIFY")) {
+            if (!passed) throw new Error(`${opcode} failed`);
+        } else {
+            this.push(passed ? "1" : "0");
+        }
+    }
+
+    /**
+     * Counts steps towards the limit
+     * @param count - Steps taken
+     * @throws {Error} If the limit is exceeded
+     */
+    private step(count: number): void {
+        this.steps += count;
+        if (this.steps > MAX_SCRIPT_STEPS) {
+            throw new Error(`script exceeded ${MAX_SCRIPT_STEPS} steps`);
+        }
+    }
+
+    /**
+     * Pushes an item onto the stack
+     * @param item - The item
+     * @throws {Error} If the stack is full
+     */
+    private push(item: string): void {
+        if (this.stack.length >= MAX_STACK_SIZE) {
+            throw new Error(`script stack exceeded ${MAX_STACK_SIZE} items`);
+        }
+        this.stack.push(item);
+    }
+
+    /**
+     * Pops the top item
+     * @param opcode - The opcode that needs it (for error messages)
+     * @throws {Error} If the stack is empty
+     * @returns The item
+     */
+    private pop(opcode: string): string {
+        const item = this.stack.pop();
+        if (item === undefined) {
+            throw new Error(`${opcode} needs more items than the stack holds`);
+        }
+        return item;
+    }
+
+    /**
+     * Pops the top item as a non-negative integer
+     * @param opcode - The opcode that needs it (for error messages)
+     * @throws {Error} If the stack is empty or the item isn't a decimal number
+     * @returns The number
+     */
+    private popNumber(opcode: string): number {
+        const item = this.pop(opcode);
+        if (!/^\d{1,15}$/.test(item)) {
+            throw new Error(`${opcode} expects a number but found ${item.slice(0, 20)}`);
+        }
+        return Number(item);
+    }
+}
+
+/**
+ * Reads a stack item as a boolean: empty and all-zero items are false, everything else is true
+ * @param item - Stack item
+ * @returns The item's truth value
+ */
+function isTrue(item: string): boolean {
+    return !/^0*$/.test(item);
+}
@@ -0,0 +1,77 @@
+import type { Block } from "./block";
+import { COINBASE_ADDRESS, type Transaction } from "./transaction";
+
+/**
+ * Incrementally maintained index of every address's confirmed balance and nonce
+ * (the number of transactions it has sent, which is the sequence number its next transaction must use)
+ * Updated block by block as the chain grows, so balance lookups don't need to scan the chain
+ * Works for both ledger modes: in UTXO mode a spend consumes inputs and returns change to the sender,
+ * which nets out to the same debit of `amount` plus `fee` that the account model applies
+ */
+export class WorldState {
+    private balances: Map<string, number> = new Map();  // Confirmed balance per address
+    private nonces: Map<string, number> = new Map();    // Confirmed transactions sent per address
+
+    /**
+     * Builds a world state by replaying an entire chain
+     * @param chain - Blocks to replay, in order
+     * @returns A world state reflecting every block in the chain
+     */
+    public static fromChain(chain: Block[]): WorldState {
+        const state = new WorldState();
+        for (const block of chain) {
+            state.applyBlock(block);
+        }
+        return state;
+    }
+
+    /**
+     * Applies every transaction in a newly appended block
+     * @param block - The block that was added to the chain
+     */
+    public applyBlock(block: Block): void {
+        for (const transaction of block.transactions) {
+            this.applyTransaction(transaction);
+        }
+    }
+
+    /**
+     * Applies a single transaction's debit and credit, and advances the sender's nonce
+     * The sender pays the amount plus the fee (the miner's reward transaction collects the fee)
+     * Mining rewards are system-generated, so the COINBASE_ADDRESS sender is never debited
+     * @param transaction - The confirmed transaction
+     */
+    public applyTransaction(transaction: Transaction): void {
+        if (transaction.fromAddress !== COINBASE_ADDRESS) {
+            this.balances.set(transaction.fromAddress, this.getBalance(transaction.fromAddress) - transaction.getCost());
+            this.nonces.set(transaction.fromAddress, this.getNonce(transaction.fromAddress) + 1);
+        }
+        this.balances.set(transaction.toAddress, this.getBalance(transaction.toAddress) + transaction.amount);
+    }
+
+    /**
+     * Looks up an address's balance in constant time
+     * @param address - Address to look up
+     * @returns The confirmed balance (0 for unknown addresses)
+     */
+    public getBalance(address: string): number {
+        return this.balances.get(address) ?? 0;
+    }
+
+    /**
+     * Looks up how many confirmed transactions an address has sent
+     * @param address - Address to look up
+     * @returns The nonce (0 for addresses that have never sent anything)
+     */
+    public getNonce(address: string): number {
+        return this.nonces.get(address) ?? 0;
+    }
+
+    /**
+     * Takes a snapshot of every known balance
+     * @returns A copy of the balance index (later blocks won't change it)
+     */
+    public getAllBalances(): Map<string, number> {
+        return new Map(this.balances);
+    }
+}
@@ -0,0 +1,228 @@
+import { closeSync, existsSync, fsyncSync, mkdirSync, openSync, readFileSync, renameSync, truncateSync, writeSync } from "node:fs";
+import { join } from "node:path";
+import { Block, type BlockJSON } from "./block";
+import { Transaction, type TransactionJSON } from "./transaction";
+
+/**
+ * Storage backend that persists a blockchain between process restarts
+ * Stores only deal in the binary encodings (see Block.encode) - the Blockchain decodes and verifies everything it loads back
+ */
+export interface BlockStore {
+    loadBlocks(): Uint8Array[];                         // Every stored block's encoding, oldest first (empty for a new store)
+    appendBlock(block: Block): void;                    // Durably record a newly added block
+    loadPending(): Uint8Array[];                        // Encodings of the last saved pending pool
+    savePending(transactions: Transaction[]): void;     // Replace the saved pending pool
+}
+
+// Bytes in the length prefix of each record, and in the CRC-32 of its contents that follows it
+const LENGTH_BYTES = 4;
+const CHECKSUM_BYTES = 4;
+const HEADER_BYTES = LENGTH_BYTES + CHECKSUM_BYTES;
+
+/**
+ * Default block store backed by two files in a directory:
+ * - blocks.dat: append-only log of encoded blocks, each record prefixed with its length and the CRC-32 of its
+ *   contents (4 bytes each, big-endian)
+ * - pending.dat: the pending pool's encoded transactions as records of the same form, replaced atomically on every save
+ *
+ * A block only counts as written once all of its record is on disk. If the process dies mid-append, the torn last
+ * record is shorter than its length says, fails its checksum (e.g. the length reached the disk but the contents didn't)
+ * or doesn't decode, and is truncated away the next time the store is loaded. A bad record anywhere else is corruption
+ *
+ * Stores written before the binary encoding kept JSON instead (blocks.log with one block per line, and pending.json).
+ * Such a store is migrated when opened: its blocks are rewritten to blocks.dat, keeping the hashes they were created with,
+ * and the old files are left in place but no longer read once their replacements exist
+ */
+export class FileBlockStore implements BlockStore {
+    private readonly blocksPath: string;   // Path of the append-only block log
+    private readonly pendingPath: string;  // Path of the pending pool snapshot
+    private readonly legacyPendingPath: string; // Pending pool snapshot of a store written before the binary encoding
+
+    /**
+     * Opens (or creates) a block store in a directory, migrating a store written before the binary encoding
+     * @param directory - Directory holding the store's files (created if missing)
+     * @throws {Error} If an old block log being migrated is corrupt
+     */
+    constructor(directory: string) {
+        mkdirSync(directory, { recursive: true });
+        this.blocksPath = join(directory, "blocks.dat");
+        this.pendingPath = join(directory, "pending.dat");
+        this.legacyPendingPath = join(directory, "pending.json");
+
+        const legacyBlocksPath = join(directory, "blocks.log");
+        if (!existsSync(this.blocksPath) && existsSync(legacyBlocksPath)) {
+            this.migrateLegacyLog(legacyBlocksPath);
+        }
+    }
+
+    /**
+     * Reads every complete block from the log, truncating a half-written last record
+     * @throws {Error} If a record before the last one fails its checksum
+     * @returns Encoded blocks, oldest first
+     */
+    public loadBlocks(): Uint8Array[] {
+        if (!existsSync(this.blocksPath)) return [];
+
+        const content = readFileSync(this.blocksPath);
+        let { records, intactLength } = readRecords(content, this.blocksPath);
+
+        // A last record that checks out but still doesn't decode can only be an interrupted append as well
+        const last = records.at(-1);
+        if (last && !decodes(last)) {
+            records = records.slice(0, -1);
+            intactLength -= HEADER_BYTES + last.length;
+        }
+
+        // Whatever follows the intact records is an interrupted append - drop it
+        if (intactLength < content.length) {
+            truncateSync(this.blocksPath, intactLength);
+        }
+        return records;
+    }
+
+    /**
+     * Appends a block to the log and flushes it to disk before returning
+     * @param block - The block to record
+     */
+    public appendBlock(block: Block): void {
+        const fd = openSync(this.blocksPath, "a");
+        try {
+            writeSync(fd, toRecord(block.encode()));
+            fsyncSync(fd);  // Don't report success until the record is durable
+        } finally {
+            closeSync(fd);
+        }
+    }
+
+    /**
+     * Reads the last saved pending pool
+     * A missing or unreadable snapshot is treated as an empty pool (pending transactions can be resubmitted)
+     * @returns Encoded pending transactions
+     */
+    public loadPending(): Uint8Array[] {
+        if (!existsSync(this.pendingPath)) {
+            return this.loadLegacyPending();
+        }
+        const content = readFileSync(this.pendingPath);
+        try {
+            const { records, intactLength } = readRecords(content, this.pendingPath);
+            return intactLength === content.length ? records : [];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Replaces the saved pending pool
+     * Writes to a temporary file and renames it over the old one, so a crash never leaves a partial snapshot
+     * @param transactions - The current pending pool
+     */
+    public savePending(transactions: Transaction[]): void {
+        writeAtomically(this.pendingPath, Buffer.concat(transactions.map(transaction => toRecord(transaction.encode()))));
+    }
+
+    /**
+     * Reads the JSON pending pool of a store written before the binary encoding
+     * @returns Encoded pending transactions (empty if there are none or they can't be read)
+     */
+    private loadLegacyPending(): Uint8Array[] {
+        if (!existsSync(this.legacyPendingPath)) return [];
+        try {
+            const data = JSON.parse(readFileSync(this.legacyPendingPath, "utf8"));
+            return Array.isArray(data) ? data.map((transaction: TransactionJSON) => Transaction.fromJSON(transaction).encode()) : [];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Rewrites a JSON block log (one block per line) as the binary log
+     * A half-written last line is dropped, as it would have been when loading the old log
+     * @param legacyPath - Path of the JSON log
+     * @throws {Error} If a complete line isn't a valid block
+     */
+    private migrateLegacyLog(legacyPath: string): void {
+        const lines = readFileSync(legacyPath, "utf8").split("\n");
+        lines.pop();  // Whatever follows the last newline is empty or an interrupted append
+
+        const records = lines.map((line, i) => {
+            let data: BlockJSON;
+            try {
+                data = JSON.parse(line);
+            } catch {
+                throw new Error(`Corrupt block store: record ${i} in ${legacyPath} is not valid JSON`);
+            }
+            return toRecord(Block.fromJSON(data).encode());
+        });
+        writeAtomically(this.blocksPath, Buffer.concat(records));
+    }
+}
+
+/**
+ * Prefixes an encoding with its length and checksum, making it one record of a store file
+ * @param bytes - The encoding
+ * @returns The record
+ */
+function toRecord(bytes: Uint8Array): Buffer {
+    const record = Buffer.alloc(HEADER_BYTES + bytes.length);
+    record.writeUInt32BE(bytes.length, 0);
+    record.writeUInt32BE(Bun.hash.crc32(bytes), LENGTH_BYTES);
+    record.set(bytes, HEADER_BYTES);
+    return record;
+}
+
+/**
+ * Splits a store file into its records, stopping at a torn last record
+ * @param content - The file's contents
+ * @param path - The file's path (for error messages)
+ * @throws {Error} If a record other than the last fails its checksum
+ * @returns The intact records, and how many bytes they take up (less than the file if the last one is torn)
+ */
+function readRecords(content: Buffer, path: string): { records: Uint8Array[]; intactLength: number } {
+    const records: Uint8Array[] = [];
+    let offset = 0;
+    while (offset + HEADER_BYTES <= content.length) {
+        const end = offset + HEADER_BYTES + content.readUInt32BE(offset);
+        if (end > content.length) break;
+        const bytes = content.subarray(offset + HEADER_BYTES, end);
+        if (Bun.hash.crc32(bytes) !== content.readUInt32BE(offset + LENGTH_BYTES)) {
+            if (end === content.length) break;
+            throw new Error(`Corrupt block store: record ${records.length} in ${path} fails its checksum`);
+        }
+        records.push(bytes);
+        offset = end;
+    }
+    return { records, intactLength: offset };
+}
+
+/**
+ * Checks whether a stored record holds a block that can be decoded
+ * @param bytes - The record's contents
+ * @returns Boolean indicating if Block.decode accepts it
+ */
+function decodes(bytes: Uint8Array): boolean {
+    try {
+        Block.decode(bytes);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Replaces a file's contents
+ * Writes to a temporary file and renames it over the old one, so a crash never leaves a partial file
+ * @param path - File to replace
+ * @param content - Its new contents
+ */
+function writeAtomically(path: string, content: Uint8Array): void {
+    const temporaryPath = path + ".tmp";
+    const fd = openSync(temporaryPath, "w");
+    try {
+        writeSync(fd, content);
+        fsyncSync(fd);
+    } finally {
+        closeSync(fd);
+    }
+    renameSync(temporaryPath, path);
+}
@@ -1,3 +1,50 @@
+import { addressFromPublicKey, getPublicKey, signMessage, verifySignature } from "./crypto";
+import { isScriptAddress, isValidScript, scriptAddress } from "./script";
+import { randomNonces, systemClock, type Clock, type NonceSource } from "./clock";
+import {
+    assertCanonical, ByteReader, ByteWriter, ENCODING_VERSION, hashBytes, isSupportedVersion, LEGACY_ENCODING_VERSION
+} from "./encoding";
+import type { TransactionInput } from "./utxo";
+
+/**
+ * Sender of system-generated transactions - mining rewards and genesis allocations - which create coins out of nothing
+ */
+export const COINBASE_ADDRESS = "MINING_REWARD";
+
+/**
+ * Optional transaction fields that only some ledger modes use
+ */
+export interface TransactionOptions {
+    inputs?: TransactionInput[];  // Outputs consumed by this transaction (UTXO mode only)
+    fee?: number;                 // Paid to the miner on top of the amount (defaults to 0)
+    sequence?: number;            // Sender's sequence number (nonce, required in account mode) - a pending transaction with the same one can be replaced by fee
+    lockingScript?: string;       // Conditions for spending the payment output (UTXO mode only) - toAddress must be the script's address
+    timestamp?: number;           // Creation time (defaults to the clock's time)
+    nonce?: string;               // Uniqueness value (defaults to the next from nonces) - fixed only for transactions every node must build identically, like genesis allocations
+    clock?: Clock;                // Where the creation time comes from (defaults to the system clock)
+    nonces?: NonceSource;         // Where the uniqueness value comes from (defaults to random; seed it for reproducible hashes)
+    version?: number;             // Encoding the hash is calculated from (defaults to ENCODING_VERSION - LEGACY_ENCODING_VERSION only rebuilds old transactions)
+}
+
+/**
+ * Plain-object form of a transaction, as produced by toJSON and accepted by fromJSON
+ */
+export interface TransactionJSON {
+    version?: number;            // Encoding the hash was calculated from (absent in data saved before versions existed, which is legacy)
+    fromAddress: string;
+    toAddress: string;
+    amount: number;
+    timestamp: number;
+    nonce: string;               // The random uniqueness value (private on the instance)
+    fee: number;
+    sequence: number | null;
+    inputs: TransactionInput[];
+    publicKey: string | null;
+    signature: string | null;
+    hash: string;
+    lockingScript?: string;      // Only present on script-locked payments
+}
+
 /**
  * Represents a single transaction in the blockchain
  * Transactions move value from one address to another
@@ -13,33 +60,68 @@ export class Transaction {
     public toAddress: string;      // Recipient's address (public key or identifier)
     public timestamp: number;      // When the transaction was created (milliseconds since epoch)
     public hash: string;           // Transaction's unique identifier (SHA-256 hash of all properties)
+    public inputs: TransactionInput[]; // Unspent outputs being consumed (empty in account mode and for mining rewards)
+    public readonly fee: number;       // Paid to the miner that confirms the transaction (debited on top of the amount)
+    public readonly sequence: number | null; // Per-sender nonce, also used for replace-by-fee (null = none, only allowed in UTXO mode)
+    public readonly lockingScript: string | null; // Script locking the payment output (null = owned by toAddress's key)
+    public readonly version: number;   // Encoding the hash is calculated from (see ENCODING_VERSION)
+
+    // Ownership proof
+    public publicKey: string | null = null;  // Sender's public key (must derive to fromAddress)
+    public signature: string | null = null;  // Sender's signature over the transaction hash
 
     /**
      * Creates a new transaction
-     * @param fromAddress - Sender's address (special value "MINING_REWARD" used for mining rewards)
-     * @param toAddress - Recipient's address
+     * @param fromAddress - Sender's address (COINBASE_ADDRESS for mining rewards and genesis allocations)
+     * @param toAddress - Recipient's address (the script's address for script-locked payments, see scriptAddress)
      * @param amount - Amount to transfer (must be positive and finite)
-     * @throws {Error} If amount is invalid or addresses are missing
+     * @param options - Optional fields such as the UTXO inputs being spent, the fee, the sequence number and the locking script
+     * @throws {Error} If amount, fee, sequence, locking script or version is invalid or addresses are missing
      * @returns A new Transaction instance
      */
-    constructor(fromAddress: string, toAddress: string, amount: number) {
+    constructor(fromAddress: string, toAddress: string, amount: number, options: TransactionOptions = {}) {
         // Validate amount before assigning - prevents invalid transactions from being created
         if (!this.isValidAmount(amount)) {
             throw new Error("Invalid transaction amount");
         }
 
         // Check for valid addresses
-        // Note: Empty fromAddress is only allowed for mining rewards in the blockchain class
-        // In a real implementation, would also validate address format/signature
+        // Note: Ownership of fromAddress is proven later by signTransaction()
         if (!fromAddress || !toAddress) {
             throw new Error("Both fromAddress and toAddress are required");
         }
 
+        const fee = options.fee ?? 0;
+        if (typeof fee !== 'number' || !isFinite(fee) || fee < 0) {
+            throw new Error("Invalid transaction fee");
+        }
+        const sequence = options.sequence ?? null;
+        if (sequence !== null && (!Number.isSafeInteger(sequence) || sequence < 0)) {
+            throw new Error("Invalid transaction sequence number");
+        }
+        const lockingScript = options.lockingScript ?? null;
+        if (lockingScript !== null && !isValidScript(lockingScript)) {
+            throw new Error("Invalid transaction locking script");
+        }
+        const version = options.version ?? ENCODING_VERSION;
+        if (!isSupportedVersion(version)) {
+            throw new Error(`Unsupported transaction encoding version ${version}`);
+        }
+        // A script address only ever holds outputs locked by its own script, so it can't be paid any other way
+        if (lockingScript === null ? isScriptAddress(toAddress) : toAddress !== scriptAddress(lockingScript)) {
+            throw new Error("Script-locked payments must be sent to their script's address");
+        }
+
         this.fromAddress = fromAddress;
         this.toAddress = toAddress;
         this._amount = amount;
-        this.timestamp = Date.now();
-        this._nonce = Math.random().toString(36).substring(2); // Generate random nonce for unique hash
+        this.inputs = (options.inputs ?? []).map(input => ({ ...input })); // Copy to prevent external modification
+        this.fee = fee;
+        this.sequence = sequence;
+        this.lockingScript = lockingScript;
+        this.version = version;
+        this.timestamp = options.timestamp ?? (options.clock ?? systemClock).now();
+        this._nonce = options.nonce ?? (options.nonces ?? randomNonces).next(); // Generate random nonce for unique hash
         this.hash = this.calculateHash(); // Calculate initial hash based on properties
         this._originalHash = this.hash; // Store original hash for tamper detection
     }
@@ -65,6 +147,23 @@ export class Transaction {
         this.hash = this.calculateHash(); // Important: recalculate hash when amount changes
     }
 
+    /**
+     * Total debited from the sender: the amount plus the fee
+     * @returns The transaction's cost to the sender
+     */
+    public getCost(): number {
+        return this._amount + this.fee;
+    }
+
+    /**
+     * Size of the transaction in bytes, measured as its binary encoding (see encode)
+     * Used for block size limits and for fee rates (fee per byte)
+     * @returns Encoded size in bytes
+     */
+    public getSize(): number {
+        return this.encode().length;
+    }
+
     /**
      * Validates if an amount is acceptable for a transaction
      * Performs multiple checks to ensure the amount is valid
@@ -85,9 +184,24 @@ export class Transaction {
      * Calculates the SHA-256 hash of the transaction
      * Hash includes all transaction data to ensure integrity
      * This hash serves as a unique identifier and tamper detection mechanism
+     * It covers the body of the binary encoding (everything but the signature and unlocking scripts, see encode),
+     * or for legacy transactions the old text form
+     * @throws {Error} If a field can't be encoded (e.g. a fractional timestamp)
      * @returns Hexadecimal string representation of the SHA-256 hash
      */
     public calculateHash(): string {
+        if (this.version === LEGACY_ENCODING_VERSION) {
+            return this.calculateLegacyHash();
+        }
+        return hashBytes(this.writeBody(new ByteWriter()).finish());
+    }
+
+    /**
+     * Calculates the hash the way transactions were hashed before the binary encoding:
+     * the fields joined as text, which leaves their boundaries ambiguous when a field contains the delimiter
+     * @returns Hexadecimal string representation of the SHA-256 hash
+     */
+    private calculateLegacyHash(): string {
         // Convert all values to strings and concatenate with a delimiter
         // Pipe character (|) used as delimiter to prevent hash collisions 
         // (e.g., "a|b" and "a" + "|b" will be different)
@@ -96,7 +210,12 @@ export class Transaction {
             this.toAddress,             // Who is receiving
             this._amount.toString(),    // How much is being sent
             this.timestamp.toString(),  // When it was created
-            this._nonce                 // Random value to ensure uniqueness
+            this._nonce,                // Random value to ensure uniqueness
+            this.inputs.map(input => `${input.txHash}:${input.outputIndex}`).join(','), // Which outputs are spent
+            this.fee.toString(),        // What the miner is paid
+            this.sequence === null ? "" : this.sequence.toString(), // Position in the sender's sequence
+            // Only hashed when set, so transactions without one keep their hashes
+            ...(this.lockingScript === null ? [] : [this.lockingScript]) // How the payment is locked
         ].join('|');
 
         // Use Bun's cryptographic hasher to generate SHA-256 hash
@@ -105,12 +224,157 @@ export class Transaction {
         return hash.digest("hex");
     }
 
+    /**
+     * Writes the fields the hash commits to, starting with the version byte
+     * @param writer - Where to write them
+     * @returns The writer
+     */
+    private writeBody(writer: ByteWriter): ByteWriter {
+        writer
+            .u8(this.version)
+            .string(this.fromAddress)
+            .string(this.toAddress)
+            .f64(this._amount)
+            .u64(this.timestamp)
+            .string(this._nonce)
+            .u32(this.inputs.length);
+        for (const input of this.inputs) {
+            writer.string(input.txHash).u32(input.outputIndex);
+        }
+        return writer
+            .f64(this.fee)
+            .optionalU64(this.sequence)
+            .optionalString(this.lockingScript);
+    }
+
+    /**
+     * Converts the transaction into its canonical binary form, as stored on disk and sent between nodes
+     * The body (see calculateHash) is followed by the witness - the public key, the signature and each input's
+     * unlocking script - which proves the transaction may spend but isn't part of its hash
+     * @throws {Error} If a field can't be encoded
+     * @returns The encoding
+     */
+    public encode(): Uint8Array {
+        const writer = this.writeBody(new ByteWriter())
+            .optionalString(this.publicKey)
+            .optionalString(this.signature);
+        for (const input of this.inputs) {
+            writer.optionalString(input.unlockingScript ?? null);
+        }
+        return writer.finish();
+    }
+
+    /**
+     * Rebuilds a transaction from its binary form (see encode)
+     * The bytes must be exactly what encode produces for the result, and the signature must verify
+     * @param bytes - The encoding
+     * @throws {Error} If the encoding is malformed or not canonical, or the transaction isn't validly signed
+     * @returns The decoded transaction
+     */
+    public static decode(bytes: Uint8Array): Transaction {
+        const reader = new ByteReader(bytes);
+        const version = reader.version();
+        const fromAddress = reader.string();
+        const toAddress = reader.string();
+        const amount = reader.f64();
+        const timestamp = reader.u64();
+        const nonce = reader.string();
+        const inputs: TransactionInput[] = Array.from({ length: reader.u32() }, () => ({
+            txHash: reader.string(),
+            outputIndex: reader.u32()
+        }));
+        const fee = reader.f64();
+        const sequence = reader.optionalU64();
+        const lockingScript = reader.optionalString();
+        const publicKey = reader.optionalString();
+        const signature = reader.optionalString();
+        for (const input of inputs) {
+            const unlockingScript = reader.optionalString();
+            if (unlockingScript !== null) input.unlockingScript = unlockingScript;
+        }
+        reader.end();
+
+        // The constructor re-checks the amount, fee, sequence, locking script and addresses
+        const transaction = new Transaction(fromAddress, toAddress, amount, {
+            inputs,
+            fee,
+            sequence: sequence ?? undefined,
+            lockingScript: lockingScript ?? undefined,
+            timestamp,
+            nonce,
+            version
+        });
+        transaction.publicKey = publicKey;
+        transaction.signature = signature;
+        assertCanonical(transaction.encode(), bytes);
+
+        if (!transaction.isValid()) {
+            throw new Error(`Invalid transaction data: transaction ${transaction.hash} is not validly signed`);
+        }
+        return transaction;
+    }
+
+    /**
+     * Signs the transaction with the sender's private key
+     * The key must belong to fromAddress - nobody can sign on behalf of another wallet
+     * @param privateKey - Hex-encoded private key of the sender
+     * @throws {Error} If the key does not own fromAddress
+     */
+    public signTransaction(privateKey: string): void {
+        const publicKey = getPublicKey(privateKey);
+        if (addressFromPublicKey(publicKey) !== this.fromAddress) {
+            throw new Error("Cannot sign transactions for other wallets");
+        }
+
+        // Sign the hash, which already commits to every transaction property
+        this.publicKey = publicKey;
+        this.signature = signMessage(this.hash, privateKey);
+    }
+
+    /**
+     * Attaches the data that unlocks a script-locked input
+     * Unlocking scripts aren't part of the hash, so they can be added after signatures over it have been made
+     * @param index - Position of the input
+     * @param unlockingScript - Data pushed before the output's locking script runs (e.g. signatures, a secret)
+     * @throws {Error} If there is no such input or the script does more than push data
+     */
+    public unlockInput(index: number, unlockingScript: string): void {
+        const input = this.inputs[index];
+        if (!input) {
+            throw new Error(`Transaction ${this.hash} has no input ${index}`);
+        }
+        if (!isValidScript(unlockingScript, true)) {
+            throw new Error("Unlocking scripts may only push data");
+        }
+        input.unlockingScript = unlockingScript;
+    }
+
+    /**
+     * Checks that the transaction carries a valid signature from the owner of fromAddress
+     * Mining rewards are system-generated and carry no signature
+     * Spends from a script address carry no signature either - each input's unlocking script authorizes it,
+     * and is checked against the output's locking script when the transaction is applied (see UTXOSet)
+     * @returns Boolean indicating if the signature is valid
+     */
+    private hasValidSignature(): boolean {
+        if (this.fromAddress === COINBASE_ADDRESS) return true;
+        if (isScriptAddress(this.fromAddress)) {
+            return this.inputs.length > 0 && this.inputs.every(input => input.unlockingScript !== undefined);
+        }
+
+        if (!this.publicKey || !this.signature) return false;        // Unsigned transactions can't spend
+        if (addressFromPublicKey(this.publicKey) !== this.fromAddress) return false; // Signer must own the sender address
+        return verifySignature(this.hash, this.signature, this.publicKey);
+    }
+
     /**
      * Validates the transaction for integrity and correctness
      * Checks:
      * 1. Valid amount
      * 2. Valid addresses
      * 3. Hash integrity (tampering detection)
+     * 4. Well-formed scripts
+     * 5. Signature from the owner of fromAddress
      * @returns Boolean indicating if the transaction is valid
      */
     public isValid(): boolean {
@@ -118,7 +382,7 @@ export class Transaction {
         if (!this.isValidAmount(this._amount)) return false;
 
         // Address validation with special case for mining rewards
-        // Mining rewards can use "" or "MINING_REWARD" as fromAddress
+        // Mining rewards can use "" or COINBASE_ADDRESS as fromAddress
         if (this.fromAddress === "") {
             // Special case for system-generated transactions (mining rewards)
             if (!this.toAddress) return false; // Still need recipient
@@ -130,7 +394,89 @@ export class Transaction {
         // Tamper detection: compare current hash with original hash
         // If properties were modified without updating hash through proper setters,
         // this comparison will fail, indicating tampering
-        return this.hash === this._originalHash;
+        if (this.hash !== this._originalHash) return false;
+
+        // Public fields such as inputs can be edited directly, so the hash must still match the contents
+        if (this.hash !== this.calculateHash()) return false;
+
+        // Scripts must parse; whether they unlock their outputs depends on the chain, so that's checked when applied
+        if (!this.inputs.every(input => input.unlockingScript === undefined || isValidScript(input.unlockingScript, true))) return false;
+
+        // Ownership: the sender must have signed this exact transaction
+        return this.hasValidSignature();
+    }
+
+    /**
+     * Converts the transaction into a plain object that can be stored or sent as JSON
+     * Includes the private nonce so the hash can be recomputed when the transaction is reloaded
+     * @returns Plain-object form of the transaction
+     */
+    public toJSON(): TransactionJSON {
+        return {
+            version: this.version,
+            fromAddress: this.fromAddress,
+            toAddress: this.toAddress,
+            amount: this._amount,
+            timestamp: this.timestamp,
+            nonce: this._nonce,
+            fee: this.fee,
+            sequence: this.sequence,
+            inputs: this.inputs.map(input => ({ ...input })),
+            publicKey: this.publicKey,
+            signature: this.signature,
+            hash: this.hash,
+            ...(this.lockingScript === null ? {} : { lockingScript: this.lockingScript })
+        };
+    }
+
+    /**
+     * Rebuilds an exact Transaction instance from its JSON form
+     * The stored hash must match the contents and the signature must verify, so tampered input is rejected
+     * @param data - Object produced by toJSON (e.g. after JSON.parse)
+     * @throws {Error} If the data is malformed, tampered with, or not validly signed
+     * @returns The rehydrated transaction
+     */
+    public static fromJSON(data: TransactionJSON): Transaction {
+        if (!data || typeof data !== 'object' ||
+            (data.version !== undefined && !isSupportedVersion(data.version)) ||
+            typeof data.timestamp !== 'number' ||
+            typeof data.nonce !== 'string' ||
+            typeof data.hash !== 'string' ||
+            typeof data.fee !== 'number' ||
+            (data.sequence !== null && typeof data.sequence !== 'number') ||
+            !Array.isArray(data.inputs) ||
+            !data.inputs.every(input => input && typeof input.txHash === 'string' && Number.isInteger(input.outputIndex) &&
+                (input.unlockingScript === undefined || typeof input.unlockingScript === 'string')) ||
+            (data.lockingScript !== undefined && typeof data.lockingScript !== 'string') ||
+            (data.publicKey !== null && typeof data.publicKey !== 'string') ||
+            (data.signature !== null && typeof data.signature !== 'string')) {
+            throw new Error("Invalid transaction data: malformed transaction");
+        }
+
+        // The constructor re-checks the amount, fee, sequence, locking script and addresses
+        const transaction = new Transaction(data.fromAddress, data.toAddress, data.amount, {
+            inputs: data.inputs,
+            fee: data.fee,
+            sequence: data.sequence ?? undefined,
+            lockingScript: data.lockingScript,
+            version: data.version ?? LEGACY_ENCODING_VERSION  // Data without a version was hashed the old way
+        });
+
+        // Restore the fields the constructor would otherwise generate
+        transaction.timestamp = data.timestamp;
+        transaction._nonce = data.nonce;
+        transaction.hash = transaction.calculateHash();
+        if (transaction.hash !== data.hash) {
+            throw new Error(`Invalid transaction data: hash ${data.hash} does not match its contents`);
+        }
+        transaction._originalHash = transaction.hash;
+        transaction.publicKey = data.publicKey;
+        transaction.signature = data.signature;
+
+        if (!transaction.isValid()) {
+            throw new Error(`Invalid transaction data: transaction ${data.hash} is not validly signed`);
+        }
+        return transaction;
     }
 
     /**
@@ -0,0 +1,197 @@
+import { verifyScript } from "./script";
+import type { SpendContext } from "./script";
+import { COINBASE_ADDRESS, type Transaction } from "./transaction";
+
+/**
+ * Reference to an output created by an earlier transaction
+ */
+export interface OutputReference {
+    txHash: string;       // Hash of the transaction that created the output
+    outputIndex: number;  // Position of the output within that transaction (0 = payment, 1 = change)
+}
+
+/**
+ * An output consumed by a UTXO-mode transaction
+ */
+export interface TransactionInput extends OutputReference {
+    unlockingScript?: string;  // Data satisfying the output's locking script (only for script-locked outputs)
+}
+
+/**
+ * An output that has been created but not yet consumed by any transaction
+ */
+export interface UnspentOutput extends OutputReference {
+    address: string;         // Owner of the output (only they can spend it)
+    amount: number;          // Value locked in the output
+    lockingScript?: string;  // Conditions a spend must also satisfy (only set for script-locked outputs)
+}
+
+// Spend context used when none is given: no time or height lock can be met
+const NO_CONTEXT: SpendContext = { time: 0, height: 0 };
+
+/**
+ * Tracks the set of unspent transaction outputs (UTXOs) for a chain
+ * Every transaction consumes the outputs referenced by its inputs and creates up to two new ones:
+ * output 0 pays `amount` to toAddress, output 1 returns any leftover input value to fromAddress as change
+ * The fee is the part of the inputs left out of both outputs - the miner collects it in the mining reward
+ * Mining rewards have no inputs and create a single output for the miner
+ */
+export class UTXOSet {
+    private outputs: Map<string, UnspentOutput> = new Map();  // Unspent outputs keyed by "txHash:outputIndex"
+
+    /**
+     * Builds the lookup key for an output reference
+     * @param input - The output reference
+     * @returns Key in the form "txHash:outputIndex"
+     */
+    public static keyOf(input: OutputReference): string {
+        return `${input.txHash}:${input.outputIndex}`;
+    }
+
+    /**
+     * Makes an independent copy of the set
+     * Used to trial-apply a block without touching the live set
+     * @returns A copy that can be modified separately
+     */
+    public clone(): UTXOSet {
+        const copy = new UTXOSet();
+        for (const [key, output] of this.outputs) {
+            copy.outputs.set(key, { ...output });
+        }
+        return copy;
+    }
+
+    /**
+     * Looks up an unspent output
+     * @param input - The output reference
+     * @returns The unspent output, or undefined if it doesn't exist or was already spent
+     */
+    public get(input: OutputReference): UnspentOutput | undefined {
+        return this.outputs.get(UTXOSet.keyOf(input));
+    }
+
+    /**
+     * Lists every unspent output owned by an address
+     * @param address - Owner address
+     * @returns Copies of the address's unspent outputs
+     */
+    public getUnspentOutputs(address: string): UnspentOutput[] {
+        const result: UnspentOutput[] = [];
+        for (const output of this.outputs.values()) {
+            if (output.address === address) {
+                result.push({ ...output });  // Copy to prevent external modification
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Calculates an address's balance as the sum of its unspent outputs
+     * @param address - Owner address
+     * @returns Total unspent value owned by the address
+     */
+    public getBalance(address: string): number {
+        let balance = 0;
+        for (const output of this.outputs.values()) {
+            if (output.address === address) {
+                balance += output.amount;
+            }
+        }
+        return balance;
+    }
+
+    /**
+     * Sums the value of a transaction's inputs after checking they can be spent by its sender
+     * Catches inputs that were never created, are already spent, belong to someone else,
+     * are listed twice in the same transaction (a double spend within one transaction),
+     * or are script-locked and not unlocked by the input's unlocking script
+     * @param transaction - The transaction whose inputs should be checked
+     * @param context - Time and height of the spend, for time and height locks
+     * @throws {Error} If any input is not spendable by the sender
+     * @returns Total value of the inputs
+     */
+    public getInputTotal(transaction: Transaction, context: SpendContext = NO_CONTEXT): number {
+        const seen = new Set<string>();
+        let total = 0;
+
+        for (const input of transaction.inputs) {
+            const key = UTXOSet.keyOf(input);
+            if (seen.has(key)) {
+                throw new Error(`Double spend: output ${key} is used twice by transaction ${transaction.hash}`);
+            }
+            seen.add(key);
+
+            const output = this.outputs.get(key);
+            if (!output) {
+                throw new Error(`Double spend: output ${key} used by transaction ${transaction.hash} is missing or already spent`);
+            }
+            if (output.address !== transaction.fromAddress) {
+                throw new Error(`Output ${key} used by transaction ${transaction.hash} is not owned by ${transaction.fromAddress}`);
+            }
+            if (output.lockingScript !== undefined) {
+                try {
+                    verifyScript(input.unlockingScript ?? "", output.lockingScript, { ...context, txHash: transaction.hash });
+                } catch (error) {
+                    throw new Error(`Output ${key} used by transaction ${transaction.hash} can't be unlocked: ${(error as Error).message}`);
+                }
+            }
+            total += output.amount;
+        }
+        return total;
+    }
+
+    /**
+     * Applies a transaction: spends its inputs and records its new outputs
+     * The set is left untouched if the transaction is rejected
+     * The payment output carries the transaction's locking script, if any; change from a script address
+     * stays locked by that address's script
+     * @param transaction - The transaction to apply
+     * @param context - Time and height of the spend, for time and height locks
+     * @throws {Error} If an input is not spendable or the inputs don't cover the amount plus the fee
+     */
+    public applyTransaction(transaction: Transaction, context: SpendContext = NO_CONTEXT): void {
+        // Mining rewards create new coins out of nothing
+        if (transaction.fromAddress === COINBASE_ADDRESS) {
+            this.addOutput(transaction.hash, 0, transaction.toAddress, transaction.amount);
+            return;
+        }
+
+        if (transaction.inputs.length === 0) {
+            throw new Error(`Transaction ${transaction.hash} has no inputs`);
+        }
+
+        const inputTotal = this.getInputTotal(transaction, context);
+        if (inputTotal < transaction.getCost()) {
+            throw new Error(
+                `Inputs of transaction ${transaction.hash} are worth ${inputTotal} but it sends ${transaction.getCost()}`
+            );
+        }
+
+        // Consume the inputs, then create the payment and (if any value is left over after the fee) the change output
+        const changeScript = this.get(transaction.inputs[0]!)?.lockingScript;  // Inputs share their owner, so their script
+        for (const input of transaction.inputs) {
+            this.outputs.delete(UTXOSet.keyOf(input));
+        }
+        this.addOutput(transaction.hash, 0, transaction.toAddress, transaction.amount, transaction.lockingScript ?? undefined);
+        const change = inputTotal - transaction.getCost();
+        if (change > 0) {
+            this.addOutput(transaction.hash, 1, transaction.fromAddress, change, changeScript);
+        }
+    }
+
+    /**
+     * Records a newly created output
+     * @param txHash - Hash of the creating transaction
+     * @param outputIndex - Position of the output within the transaction
+     * @param address - Owner of the output
+     * @param amount - Value of the output
+     * @param lockingScript - Script the output is locked by, if any
+     */
+    private addOutput(txHash: string, outputIndex: number, address: string, amount: number, lockingScript?: string): void {
+        const output: UnspentOutput = { txHash, outputIndex, address, amount };
+        if (lockingScript !== undefined) {
+            output.lockingScript = lockingScript;  // Only set when present, so unlocked outputs keep their shape
+        }
+        this.outputs.set(UTXOSet.keyOf({ txHash, outputIndex }), output);
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * What a validation issue is about
+ * - BAD_GENESIS: the first block isn't a valid genesis block for this chain (or the chain is empty)
+ * - HASH_MISMATCH: a block's stored hash doesn't match its contents
+ * - MERKLE_MISMATCH: a block's Merkle root doesn't match its transactions
+ * - INVALID_TX: a transaction fails its own checks (e.g. a missing or forged signature)
+ * - BROKEN_LINK: a block's previousHash isn't the hash of the block before it
+ * - BAD_INDEX: a block's index isn't one more than the block before it
+ * - BAD_VERSION: a block uses an older encoding than the block before it, or holds transactions
+ *   that use a different encoding from its own
+ * - BAD_TIMESTAMP: a block's timestamp isn't later than the median of the blocks before it,
+ *   or is further ahead of the clock than maxFutureBlockTime allows
+ * - BAD_DIFFICULTY: a block wasn't mined at the difficulty required at its height
+ * - INSUFFICIENT_WORK: a block's hash doesn't meet its difficulty target
+ * - BAD_SEAL: a block isn't signed by the validator chosen to produce it, or its signature is invalid
+ *   (proof of authority and proof of stake)
+ * - BLOCK_TOO_LARGE: a block has more transactions or bytes than the block limits allow
+ * - BAD_COINBASE: a block's mining reward is missing, misplaced, duplicated or worth the wrong amount
+ * - DUPLICATE_TX: a transaction (mining rewards included) is confirmed more than once
+ * - BAD_SEQUENCE: a transaction doesn't use its sender's next sequence number (account mode)
+ * - OVERDRAFT: a sender spends more than its balance (account mode)
+ * - INVALID_SPEND: a transaction spends outputs that are missing, already spent, not its sender's,
+ *   locked by a script its unlocking script doesn't satisfy, or worth less than it sends (UTXO mode),
+ *   or locks its payment with a script (account mode, which can't enforce scripts)
+ */
+export type ValidationCode =
+    | "BAD_GENESIS"
+    | "HASH_MISMATCH"
+    | "MERKLE_MISMATCH"
+    | "INVALID_TX"
+    | "BROKEN_LINK"
+    | "BAD_INDEX"
+    | "BAD_VERSION"
+    | "BAD_TIMESTAMP"
+    | "BAD_DIFFICULTY"
+    | "INSUFFICIENT_WORK"
+    | "BAD_SEAL"
+    | "BLOCK_TOO_LARGE"
+    | "BAD_COINBASE"
+    | "DUPLICATE_TX"
+    | "BAD_SEQUENCE"
+    | "OVERDRAFT"
+    | "INVALID_SPEND";
+
+/**
+ * One reason a block or chain failed validation
+ */
+export interface ValidationIssue {
+    code: ValidationCode;
+    message: string;                  // Human-readable description
+    blockIndex: number;               // Index of the block the issue was found in
+    txHash: string | null;            // Transaction at fault (null for block-level issues)
+    expected: string | number | null; // What the rules require, when there is a single right value
+    actual: string | number | null;   // What the block or transaction has instead
+}
+
+/**
+ * Builds a validation issue, filling in the optional details
+ * @param code - What the issue is about
+ * @param blockIndex - Index of the block the issue was found in
+ * @param message - Human-readable description
+ * @param details - Transaction at fault, and the expected and actual values
+ * @returns The issue
+ */
+export function createIssue(
+    code: ValidationCode,
+    blockIndex: number,
+    message: string,
+    details: { txHash?: string; expected?: string | number; actual?: string | number } = {}
+): ValidationIssue {
+    return {
+        code,
+        message,
+        blockIndex,
+        txHash: details.txHash ?? null,
+        expected: details.expected ?? null,
+        actual: details.actual ?? null
+    };
+}
@@ -0,0 +1,352 @@
+import { createCipheriv, createDecipheriv, createHmac, pbkdf2Sync, randomBytes, scryptSync } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import type { Blockchain } from "./blockchain";
+import { addressFromPublicKey, generateKeyPair, getPublicKey, isValidAddress, type KeyPair } from "./crypto";
+import { isScriptAddress } from "./script";
+import { Transaction } from "./transaction";
+import { UTXOSet } from "./utxo";
+
+/**
+ * Password-encrypted private key, as written to a keystore file
+ * The key is derived from the password with scrypt and the private key is sealed with AES-256-GCM,
+ * using the address as additional authenticated data so neither can be swapped without detection
+ */
+export interface KeystoreJSON {
+    version: 1;
+    address: string;             // Address of the key inside (readable without the password)
+    kdf: "scrypt";
+    kdfParams: { n: number; r: number; p: number; salt: string };
+    cipher: "aes-256-gcm";
+    iv: string;
+    tag: string;                 // GCM authentication tag - a wrong password or edited file fails to decrypt
+    ciphertext: string;
+}
+
+/**
+ * Options for building a transaction from a wallet
+ */
+export interface WalletTransactionOptions {
+    fee?: number;                 // Paid to the miner on top of the amount (defaults to 0)
+    lockingScript?: string;       // Locks the payment behind a script (UTXO mode; toAddress must be the script's address)
+}
+
+// Seed phrases encode 16 bytes of entropy plus a checksum byte, one word per byte
+const ENTROPY_LENGTH = 16;
+
+// Key stretching for seed phrases (as in BIP-39) and keystore passwords
+const SEED_ITERATIONS = 2048;
+const SCRYPT_PARAMS = { n: 16384, r: 8, p: 1 };
+
+// Accounts are derived along m/44'/0'/0'/0'/<index>' (Ed25519 only supports hardened derivation)
+const DERIVATION_PATH_PREFIX = "m/44'/0'/0'/0'";
+const HARDENED_OFFSET = 0x80000000;
+
+// One word per byte value
+const WORDLIST = [
+    "able", "acid", "acre", "act", "adult", "aim", "air", "alarm", "album", "alley", "amber", "angle",
+    "ankle", "apple", "april", "arch", "arena", "arm", "army", "art", "ash", "atom", "aunt", "autumn",
+    "avoid", "award", "axis", "baby", "bacon", "badge", "bag", "ball", "bamboo", "banana", "band", "bank",
+    "barn", "basket", "beach", "bean", "bear", "beef", "bell", "belt", "bench", "berry", "bike", "bird",
+    "blade", "blanket", "blue", "board", "boat", "body", "bone", "book", "boss", "bottle", "bowl", "box",
+    "brain", "brass", "bread", "brick", "bridge", "brush", "bubble", "bucket", "cabin", "cable", "cactus", "cake",
+    "camel", "camp", "canal", "candy", "canoe", "canvas", "card", "carpet", "carrot", "castle", "cat", "cave",
+    "cello", "chair", "chalk", "cherry", "chess", "chief", "child", "cider", "circle", "city", "clay", "cliff",
+    "clock", "cloud", "coast", "coffee", "coin", "comet", "copper", "coral", "corn", "cotton", "crane", "crater",
+    "cream", "crow", "crystal", "cube", "cup", "curtain", "cycle", "daisy", "dance", "dawn", "deer", "desert",
+    "desk", "diamond", "dinner", "dog", "dolphin", "door", "dragon", "drum", "duck", "eagle", "earth", "echo",
+    "eel", "egg", "elbow", "elephant", "ember", "engine", "falcon", "farm", "feather", "fence", "fern", "field",
+    "finger", "fire", "fish", "flag", "flame", "flute", "fog", "forest", "fossil", "fox", "frog", "fruit",
+    "galaxy", "garden", "garlic", "gate", "gem", "giant", "ginger", "glass", "globe", "glove", "goat", "gold",
+    "grape", "grass", "gravel", "guitar", "hammer", "harbor", "hat", "hawk", "heart", "helmet", "hill", "honey",
+    "horse", "house", "ice", "island", "ivory", "jacket", "jar", "jelly", "jungle", "kettle", "key", "kite",
+    "kitten", "knife", "ladder", "lake", "lamp", "lemon", "lens", "lily", "lion", "lizard", "lobster", "magnet",
+    "mango", "maple", "marble", "meadow", "melon", "mirror", "monkey", "moon", "moss", "mountain", "mouse", "mushroom",
+    "needle", "nest", "night", "noodle", "oak", "ocean", "olive", "onion", "orange", "orbit", "otter", "owl",
+    "paddle", "palm", "panda", "paper", "parrot", "peach", "pearl", "pencil", "pepper", "piano", "pillow", "pine",
+    "planet", "plum", "pocket", "pond", "potato", "pumpkin", "puzzle", "quartz", "rabbit", "radio", "rain", "raven",
+    "reef", "ribbon", "river", "robot"];
+
+/**
+ * Generates a new random seed phrase
+ * Write it down - every key derived from it can be recovered from the phrase alone
+ * @returns 17 space-separated words (16 bytes of entropy and a checksum)
+ */
+export function generateSeedPhrase(): string {
+    const entropy = randomBytes(ENTROPY_LENGTH);
+    return [...entropy, phraseChecksum(entropy)].map(byte => WORDLIST[byte]!).join(" ");
+}
+
+/**
+ * Checks that a seed phrase is made of known words and its checksum matches, catching typos
+ * @param phrase - Seed phrase to check
+ * @returns Boolean indicating if the phrase is valid
+ */
+export function isValidSeedPhrase(phrase: string): boolean {
+    const words = normalizePhrase(phrase).split(" ");
+    const bytes = words.map(word => WORDLIST.indexOf(word));
+    if (bytes.length !== ENTROPY_LENGTH + 1 || bytes.includes(-1)) {
+        return false;
+    }
+    return bytes[ENTROPY_LENGTH] === phraseChecksum(Buffer.from(bytes.slice(0, ENTROPY_LENGTH)));
+}
+
+/**
+ * Stretches a seed phrase into the 64-byte seed that keys are derived from (PBKDF2-HMAC-SHA512, as in BIP-39)
+ * @param phrase - Seed phrase from generateSeedPhrase
+ * @param passphrase - Optional extra secret; a different passphrase gives an unrelated set of keys
+ * @throws {Error} If the seed phrase is invalid
+ * @returns The seed
+ */
+export function seedFromPhrase(phrase: string, passphrase: string = ""): Buffer {
+    if (!isValidSeedPhrase(phrase)) {
+        throw new Error("Invalid seed phrase");
+    }
+    return pbkdf2Sync(normalizePhrase(phrase), "mnemonic" + passphrase.normalize("NFKD"), SEED_ITERATIONS, 64, "sha512");
+}
+
+/**
+ * Derives a key pair from a seed along a hierarchical path (SLIP-0010 for Ed25519)
+ * Each segment derives a child key from its parent, so one seed yields any number of independent keys
+ * @param seed - Seed from seedFromPhrase
+ * @param path - Path of hardened segments, e.g. "m/44'/0'/0'/0'/0'"
+ * @throws {Error} If the path is malformed or has a non-hardened segment
+ * @returns The derived key pair
+ */
+export function deriveKeyPair(seed: Buffer, path: string): KeyPair {
+    if (!/^m(\/\d+')*$/.test(path)) {
+        throw new Error(`Invalid derivation path ${path}: only hardened segments like m/44'/0' are supported`);
+    }
+
+    let node = createHmac("sha512", "ed25519 seed").update(seed).digest();
+    for (const segment of path.split("/").slice(1)) {
+        const index = Number(segment.slice(0, -1));
+        if (index >= HARDENED_OFFSET) {
+            throw new Error(`Invalid derivation path ${path}: segment ${segment} is out of range`);
+        }
+        const data = Buffer.alloc(37);  // 0x00 || parent key || index
+        node.copy(data, 1, 0, 32);
+        data.writeUInt32BE(index + HARDENED_OFFSET, 33);
+        node = createHmac("sha512", node.subarray(32)).update(data).digest();
+    }
+
+    const privateKey = node.subarray(0, 32).toString("hex");
+    return { privateKey, publicKey: getPublicKey(privateKey) };
+}
+
+/**
+ * A key pair with its address, able to build and sign transactions and to be stored encrypted
+ */
+export class Wallet {
+    public readonly publicKey: string;
+    public readonly address: string;
+    private readonly privateKey: string;
+
+    /**
+     * Creates a wallet for an existing private key
+     * @param privateKey - Hex-encoded private key
+     * @throws {Error} If the private key is malformed
+     */
+    constructor(privateKey: string) {
+        this.publicKey = getPublicKey(privateKey);
+        this.address = addressFromPublicKey(this.publicKey);
+        this.privateKey = privateKey.toLowerCase();
+    }
+
+    /**
+     * Creates a wallet with a fresh random key
+     * @returns The new wallet
+     */
+    public static generate(): Wallet {
+        return new Wallet(generateKeyPair().privateKey);
+    }
+
+    /**
+     * Recreates one of the wallets derived from a seed phrase
+     * @param phrase - Seed phrase from generateSeedPhrase
+     * @param index - Account number (0, 1, 2, ...) - each gives a different key
+     * @param passphrase - Optional extra secret the phrase was used with
+     * @throws {Error} If the seed phrase or index is invalid
+     * @returns The wallet at m/44'/0'/0'/0'/<index>'
+     */
+    public static fromSeedPhrase(phrase: string, index: number = 0, passphrase: string = ""): Wallet {
+        if (!Number.isSafeInteger(index) || index < 0) {
+            throw new Error("Account index must be a non-negative integer");
+        }
+        return new Wallet(deriveKeyPair(seedFromPhrase(phrase, passphrase), `${DERIVATION_PATH_PREFIX}/${index}'`).privateKey);
+    }
+
+    /**
+     * Builds and signs a payment ready for Blockchain.createTransaction
+     * In account mode it takes the sender's next sequence number; in UTXO mode it spends the wallet's
+     * unspent outputs not already claimed by pending transactions, oldest first, until they cover the amount plus the fee
+     * Its timestamp and nonce come from the chain's clock and nonce source
+     * @param blockchain - Chain the transaction is for
+     * @param toAddress - Recipient's address (a key's checksummed address or a script address)
+     * @param amount - Amount to send
+     * @param options - Optional fee and locking script
+     * @throws {Error} If the recipient address is invalid or (UTXO mode) the wallet can't cover the cost
+     * @returns The signed transaction
+     */
+    public createTransaction(blockchain: Blockchain, toAddress: string, amount: number, options: WalletTransactionOptions = {}): Transaction {
+        if (!isValidAddress(toAddress) && !isScriptAddress(toAddress)) {
+            throw new Error(`Invalid recipient address ${toAddress}: check it for typos`);
+        }
+        const fee = options.fee ?? 0;
+
+        let transaction: Transaction;
+        if (blockchain.getLedgerMode() === "utxo") {
+            const claimed = new Set(blockchain.getPendingTransactions().flatMap(pending => pending.inputs.map(input => UTXOSet.keyOf(input))));
+            const inputs = [];
+            let total = 0;
+            for (const { txHash, outputIndex, amount: value } of blockchain.getUnspentOutputs(this.address)) {
+                if (total >= amount + fee) break;
+                if (claimed.has(UTXOSet.keyOf({ txHash, outputIndex }))) continue;
+                inputs.push({ txHash, outputIndex });
+                total += value;
+            }
+            if (total < amount + fee) {
+                throw new Error(`Insufficient funds: address ${this.address} can spend ${total} but the transaction costs ${amount + fee}`);
+            }
+            transaction = new Transaction(this.address, toAddress, amount, {
+                inputs,
+                fee,
+                lockingScript: options.lockingScript,
+                clock: blockchain.getClock(),
+                nonces: blockchain.getNonceSource()
+            });
+        } else {
+            transaction = new Transaction(this.address, toAddress, amount, {
+                fee,
+                sequence: blockchain.getNextNonce(this.address),
+                lockingScript: options.lockingScript,
+                clock: blockchain.getClock(),
+                nonces: blockchain.getNonceSource()
+            });
+        }
+        this.sign(transaction);
+        return transaction;
+    }
+
+    /**
+     * Signs a transaction sent from this wallet
+     * @param transaction - The transaction to sign
+     * @throws {Error} If the transaction isn't from this wallet's address
+     */
+    public sign(transaction: Transaction): void {
+        transaction.signTransaction(this.privateKey);
+    }
+
+    /**
+     * Encrypts the wallet's private key with a password
+     * @param password - Password needed to decrypt it again
+     * @throws {Error} If the password is empty
+     * @returns The keystore
+     */
+    public toKeystore(password: string): KeystoreJSON {
+        if (typeof password !== 'string' || password === "") {
+            throw new Error("A keystore password is required");
+        }
+        const salt = randomBytes(32);
+        const iv = randomBytes(12);
+        const cipher = createCipheriv("aes-256-gcm", keystoreKey(password, salt, SCRYPT_PARAMS), iv);
+        cipher.setAAD(Buffer.from(this.address));
+        const ciphertext = Buffer.concat([cipher.update(this.privateKey, "hex"), cipher.final()]);
+
+        return {
+            version: 1,
+            address: this.address,
+            kdf: "scrypt",
+            kdfParams: { ...SCRYPT_PARAMS, salt: salt.toString("hex") },
+            cipher: "aes-256-gcm",
+            iv: iv.toString("hex"),
+            tag: cipher.getAuthTag().toString("hex"),
+            ciphertext: ciphertext.toString("hex")
+        };
+    }
+
+    /**
+     * Decrypts a wallet from a keystore
+     * @param keystore - Object produced by toKeystore (e.g. after JSON.parse)
+     * @param password - The keystore's password
+     * @throws {Error} If the keystore is malformed, the password is wrong or the keystore was tampered with
+     * @returns The wallet
+     */
+    public static fromKeystore(keystore: KeystoreJSON, password: string): Wallet {
+        if (!keystore || typeof keystore !== 'object' || keystore.version !== 1 ||
+            keystore.kdf !== "scrypt" || keystore.cipher !== "aes-256-gcm" ||
+            !keystore.kdfParams || typeof keystore.kdfParams !== 'object' ||
+            ![keystore.address, keystore.kdfParams.salt, keystore.iv, keystore.tag, keystore.ciphertext].every(field => typeof field === 'string')) {
+            throw new Error("Invalid keystore: malformed keystore");
+        }
+
+        let privateKey: string;
+        try {
+            const { n, r, p, salt } = keystore.kdfParams;
+            const decipher = createDecipheriv("aes-256-gcm", keystoreKey(password, Buffer.from(salt, "hex"), { n, r, p }),
+                Buffer.from(keystore.iv, "hex"));
+            decipher.setAAD(Buffer.from(keystore.address));
+            decipher.setAuthTag(Buffer.from(keystore.tag, "hex"));
+            privateKey = Buffer.concat([decipher.update(keystore.ciphertext, "hex"), decipher.final()]).toString("hex");
+        } catch {
+            throw new Error("Invalid keystore: wrong password or corrupted keystore");
+        }
+
+        const wallet = new Wallet(privateKey);
+        if (wallet.address !== keystore.address) {
+            throw new Error(`Invalid keystore: key does not match address ${keystore.address}`);
+        }
+        return wallet;
+    }
+
+    /**
+     * Writes the wallet to a password-encrypted keystore file (readable only by the current user)
+     * @param path - File to write
+     * @param password - Password needed to load it again
+     * @throws {Error} If the password is empty or the file can't be written
+     */
+    public save(path: string, password: string): void {
+        writeFileSync(path, JSON.stringify(this.toKeystore(password), null, 2), { mode: 0o600 });
+    }
+
+    /**
+     * Loads a wallet from a keystore file
+     * @param path - File written by save
+     * @param password - The keystore's password
+     * @throws {Error} If the file can't be read or parsed, or the password is wrong
+     * @returns The wallet
+     */
+    public static load(path: string, password: string): Wallet {
+        return Wallet.fromKeystore(JSON.parse(readFileSync(path, "utf8")) as KeystoreJSON, password);
+    }
+}
+
+/**
+ * Derives the AES key for a keystore from its password
+ * @param password - Keystore password
+ * @param salt - Random salt stored in the keystore
+ * @param params - scrypt cost parameters
+ * @returns 32-byte key
+ */
+function keystoreKey(password: string, salt: Buffer, params: { n: number; r: number; p: number }): Buffer {
+    return scryptSync(password.normalize("NFKD"), salt, 32, { N: params.n, r: params.r, p: params.p, maxmem: 256 * 1024 * 1024 });
+}
+
+/**
+ * Computes the checksum word's byte for a seed phrase
+ * @param entropy - The phrase's entropy bytes
+ * @returns First byte of the entropy's SHA-256
+ */
+function phraseChecksum(entropy: Buffer): number {
+    const hash = new Bun.CryptoHasher("sha256");
+    hash.update(entropy);
+    return hash.digest()[0]!;
+}
+
+/**
+ * Normalizes a seed phrase so spacing and case don't matter
+ * @param phrase - Seed phrase as typed
+ * @returns Lowercase words separated by single spaces
+ */
+function normalizePhrase(phrase: string): string {
+    return phrase.normalize("NFKD").trim().toLowerCase().split(/\s+/).join(" ");
+}
@@ -0,0 +1,155 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { ApiServer } from "../src/api";
+import { Blockchain } from "../src/blockchain";
+import { Transaction } from "../src/transaction";
+import { ProofOfAuthority } from "../src/consensus";
+import { addressFromPublicKey, generateKeyPair } from "../src/crypto";
+
+const running: ApiServer[] = [];
+
+// Starts a server on an ephemeral localhost port; stopped automatically after the test
+function startServer(blockchain: Blockchain = new Blockchain()): ApiServer {
+    const server = new ApiServer(blockchain);
+    running.push(server);
+    server.start();
+    return server;
+}
+
+// Sends a request and returns the status with the parsed JSON body
+async function request(server: ApiServer, method: string, path: string, body?: unknown): Promise<{ status: number; body: any }> {
+    const response = await fetch(server.url + path, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+}
+
+afterEach(() => {
+    for (const server of running.splice(0)) {
+        server.stop();
+    }
+});
+
+describe("ApiServer", () => {
+    test("should list blocks a page at a time", async () => {
+        const blockchain = new Blockchain();
+        for (let i = 0; i < 4; i++) {
+            blockchain.minePendingTransactions("miner");
+        }
+        const server = startServer(blockchain);
+
+        const { status, body } = await request(server, "GET", "/blocks?offset=1&limit=2");
+        expect(status).toBe(200);
+        expect(body).toEqual({
+            items: [blockchain.chain[1]!.toJSON(), blockchain.chain[2]!.toJSON()],
+            offset: 1,
+            limit: 2,
+            total: 5
+        });
+
+        expect((await request(server, "GET", "/blocks")).body.limit).toBe(20);
+        expect((await request(server, "GET", "/blocks?limit=1000")).status).toBe(400);
+        expect((await request(server, "GET", "/blocks?offset=-1")).status).toBe(400);
+    });
+
+    test("should look up a block by index or hash", async () => {
+        const blockchain = new Blockchain();
+        blockchain.minePendingTransactions("miner");
+        const server = startServer(blockchain);
+        const block = blockchain.chain[1]!;
+
+        expect((await request(server, "GET", "/blocks/1")).body).toEqual(block.toJSON());
+        expect((await request(server, "GET", `/blocks/${block.hash}`)).body).toEqual(block.toJSON());
+        expect((await request(server, "GET", "/blocks/7")).status).toBe(404);
+    });
+
+    test("should submit, mine and look up a transaction", async () => {
+        const keys = generateKeyPair();
+        const address = addressFromPublicKey(keys.publicKey);
+        const blockchain = new Blockchain();
+        blockchain.minePendingTransactions(address);
+        const server = startServer(blockchain);
+
+        expect((await request(server, "GET", `/addresses/${address}/nonce`)).body).toEqual({ address, nonce: 0 });
+        const transaction = new Transaction(address, "bob", 1, { sequence: 0 });
+        transaction.signTransaction(keys.privateKey);
+        const submitted = await request(server, "POST", "/transactions", transaction);
+        expect(submitted).toEqual({ status: 201, body: { hash: transaction.hash, blockIndex: 2 } });
+
+        const pending = await request(server, "GET", `/transactions/${transaction.hash}`);
+        expect(pending.body).toEqual({ transaction: transaction.toJSON(), status: "pending", blockIndex: null, blockHash: null });
+
+        const mined = await request(server, "POST", "/mine", { rewardAddress: "miner" });
+        expect(mined.status).toBe(201);
+        expect(mined.body.index).toBe(2);
+
+        const confirmed = await request(server, "GET", `/transactions/${transaction.hash}`);
+        expect(confirmed.body.status).toBe("confirmed");
+        expect(confirmed.body.blockHash).toBe(mined.body.hash);
+
+        expect((await request(server, "GET", "/addresses/bob/balance")).body).toEqual({ address: "bob", balance: 1 });
+        expect((await request(server, "GET", `/addresses/${address}/nonce`)).body).toEqual({ address, nonce: 1 });
+        expect((await request(server, "GET", "/validate")).body).toEqual({ valid: true, height: 3, issues: [] });
+    });
+
+    test("should reject bad transactions with 4xx errors", async () => {
+        const keys = generateKeyPair();
+        const server = startServer();
+
+        expect(await request(server, "POST", "/transactions", "{")).toEqual({
+            status: 400,
+            body: { error: "Request body must be valid JSON" }
+        });
+        expect((await request(server, "POST", "/transactions", { amount: 1 })).status).toBe(400);
+        for (const body of ["null", "[]", "42"]) {
+            expect(await request(server, "POST", "/transactions", body)).toEqual({
+                status: 400,
+                body: { error: "Request body must be a JSON object" }
+            });
+        }
+
+        // Well-formed and signed, but the sender has no funds
+        const overdraft = new Transaction(addressFromPublicKey(keys.publicKey), "bob", 1, { sequence: 0 });
+        overdraft.signTransaction(keys.privateKey);
+        const rejected = await request(server, "POST", "/transactions", overdraft);
+        expect(rejected.status).toBe(422);
+        expect(rejected.body.error).toContain("Insufficient balance");
+        expect((await request(server, "POST", "/transactions", new Transaction("MINING_REWARD", "mallory", 50))).status).toBe(422);
+
+        expect((await request(server, "GET", "/transactions/unknown")).status).toBe(404);
+    });
+
+    test("should require a reward address to mine", async () => {
+        const server = startServer();
+        expect((await request(server, "POST", "/mine", {})).status).toBe(400);
+        expect((await request(server, "POST", "/mine", { rewardAddress: 7 })).status).toBe(400);
+        for (const body of ["null", "[]", "\"miner\""]) {
+            expect((await request(server, "POST", "/mine", body)).status).toBe(400);
+        }
+    });
+
+    test("should tell a validator's turn apart from a node that can't mine", async () => {
+        const alice = generateKeyPair();
+        const bob = generateKeyPair();
+        const validators = [alice.publicKey, bob.publicKey];
+
+        // Block 1 is alice's to seal
+        const bobServer = startServer(new Blockchain({ consensus: new ProofOfAuthority(validators, { signer: bob }) }));
+        const notMyTurn = await request(bobServer, "POST", "/mine", { rewardAddress: "bob" });
+        expect(notMyTurn.status).toBe(403);
+        expect(notMyTurn.body.error).toContain("must be sealed by validator");
+
+        const keylessServer = startServer(new Blockchain({ consensus: new ProofOfAuthority(validators) }));
+        const noKey = await request(keylessServer, "POST", "/mine", { rewardAddress: "miner" });
+        expect(noKey.status).toBe(500);
+        expect(noKey.body.error).toContain("validator key is required");
+    });
+
+    test("should answer unknown routes and methods", async () => {
+        const server = startServer();
+        expect((await request(server, "GET", "/nowhere")).status).toBe(404);
+        expect((await request(server, "DELETE", "/blocks")).status).toBe(405);
+        expect((await request(server, "GET", "/mine")).status).toBe(405);
+    });
+});
@@ -1,5 +1,9 @@
 import { describe, test, expect } from "bun:test";
 import { Block } from "../src/block";
+import { Transaction } from "../src/transaction";
+import { verifyMerkleProof } from "../src/merkle";
+import { hashBytes, LEGACY_ENCODING_VERSION } from "../src/encoding";
+import { addressFromPublicKey, generateKeyPair } from "../src/crypto";
 
 describe("Block", () => {
     test("should create a valid block", () => {
@@ -95,4 +99,154 @@ describe("Block", () => {
         expect(block.previousHash).toBe("invalid_hash_format");
         expect(block.isValid()).toBe(true); // Hash format is not validated
     });
-}); 
\ No newline at end of file
+
+    test("should commit to the Merkle root of its transactions", () => {
+        const transactions = [new Transaction("a", "b", 1), new Transaction("b", "c", 2)];
+        const block = new Block(1, "0", transactions, 0);
+        expect(block.merkleRoot).toBe(block.calculateMerkleRoot());
+
+        // Changing the root changes the block hash
+        const originalHash = block.calculateHash();
+        block.merkleRoot = "0".repeat(64);
+        expect(block.calculateHash()).not.toBe(originalHash);
+    });
+
+    test("should not share a hash with a copy that repeats its last transaction", () => {
+        const [a, b, c] = [1, 2, 3].map(amount => new Transaction("a", "b", amount)) as [Transaction, Transaction, Transaction];
+        const block = new Block(1, "0", [a, b, c], 0);
+        const padded = new Block(1, "0", [a, b, c, c], 0);
+        padded.timestamp = block.timestamp;
+        padded.hash = padded.calculateHash();
+        expect(padded.merkleRoot).not.toBe(block.merkleRoot);
+        expect(padded.hash).not.toBe(block.hash);
+
+        // Legacy blocks keep their original tree, which doesn't tell them apart
+        block.version = padded.version = LEGACY_ENCODING_VERSION;
+        expect(padded.merkleRoot).toBe(block.merkleRoot);
+    });
+
+    test("should detect a Merkle root that doesn't match the transactions", () => {
+        const block = new Block(1, "0", [new Transaction("a", "b", 1)], 0);
+        block.merkleRoot = new Block(1, "0", [new Transaction("a", "b", 2)], 0).merkleRoot;
+        block.hash = block.calculateHash();
+        expect(block.isValid()).toBe(false);
+    });
+
+    test("should report why a block is invalid", () => {
+        const invalid = new Transaction("a", "b", 1);
+        invalid.makeInvalid();
+        const block = new Block(1, "0", [invalid], 0);
+        expect(block.validateBlock()).toEqual([{
+            code: "INVALID_TX",
+            message: `transaction ${invalid.hash} in block 1 is invalid`,
+            blockIndex: 1,
+            txHash: invalid.hash,
+            expected: null,
+            actual: null
+        }]);
+
+        const tampered = new Block(1, "0", [], 0);
+        const originalHash = tampered.hash;
+        tampered.nonce = 1;
+        tampered.merkleRoot = "f".repeat(64);
+        const issues = tampered.validateBlock();
+        expect(issues.map(issue => issue.code)).toEqual(["HASH_MISMATCH", "MERKLE_MISMATCH"]);
+        expect(issues[0]).toMatchObject({ expected: tampered.calculateHash(), actual: originalHash });
+        expect(issues[1]).toMatchObject({ expected: tampered.calculateMerkleRoot(), actual: "f".repeat(64) });
+    });
+
+    test("should prove a transaction is included without the other transactions", () => {
+        const transactions = Array.from({ length: 5 }, (_, i) => new Transaction("a", "b", i + 1));
+        const block = new Block(1, "0", transactions, 0);
+
+        const proof = block.getMerkleProof(transactions[3]!.hash);
+        expect(proof).not.toBeNull();
+        expect(verifyMerkleProof(proof!, block.merkleRoot)).toBe(true);
+        expect(verifyMerkleProof(proof!, new Block(1, "0", transactions.slice(1), 0).merkleRoot)).toBe(false);
+    });
+
+    test("should not prove transactions outside the block", () => {
+        const block = new Block(1, "0", [new Transaction("a", "b", 1)], 0);
+        expect(block.getMerkleProof(new Transaction("a", "b", 1).hash)).toBeNull();
+    });
+
+    test("should round-trip through JSON with its original timestamp", () => {
+        const original = new Block(3, "abc", [new Transaction("MINING_REWARD", "miner", 1)], 7, 4);
+        original.timestamp = 1_000;
+        original.hash = original.calculateHash();
+
+        const restored = Block.fromJSON(JSON.parse(JSON.stringify(original)));
+        expect(restored).toBeInstanceOf(Block);
+        expect(restored.timestamp).toBe(1_000);
+        expect(restored.hash).toBe(original.hash);
+        expect(restored.transactions[0]).toBeInstanceOf(Transaction);
+        expect(restored.isValid()).toBe(true);
+    });
+
+    test("should reject JSON with a tampered header", () => {
+        const data = new Block(1, "0", [], 0).toJSON();
+        expect(() => Block.fromJSON({ ...data, timestamp: data.timestamp + 1 })).toThrow(
+            "Invalid block data: hash of block 1 does not match its contents"
+        );
+    });
+
+    test("should reject JSON whose transactions don't match the Merkle root", () => {
+        const data = new Block(1, "0", [new Transaction("MINING_REWARD", "miner", 1)], 0).toJSON();
+        const other = new Transaction("MINING_REWARD", "thief", 1).toJSON();
+        expect(() => Block.fromJSON({ ...data, transactions: [other] })).toThrow("Merkle root of block 1 does not match");
+    });
+
+    test("should reject malformed JSON", () => {
+        expect(() => Block.fromJSON({ index: "1" } as any)).toThrow("Invalid block data: malformed block");
+    });
+
+    test("should hash its encoded header", () => {
+        const block = new Block(2, "abc", [new Transaction("MINING_REWARD", "miner", 1)], 5, 3);
+        block.validator = "validator";
+        block.hash = block.calculateHash();
+
+        expect(block.hash).toBe(hashBytes(block.encodeHeader()));
+        expect(Block.decodeHeader(block.encodeHeader())).toEqual(block.getHeader());
+        expect(() => Block.decodeHeader(block.encode())).toThrow("Invalid encoding: unexpected trailing bytes");
+    });
+
+    test("should round-trip through the binary encoding", () => {
+        const keys = generateKeyPair();
+        const payment = new Transaction(addressFromPublicKey(keys.publicKey), "to", 2);
+        payment.signTransaction(keys.privateKey);
+        const original = new Block(3, "abc", [payment, new Transaction("MINING_REWARD", "miner", 1)], 7, 4);
+        original.signature = "signature";
+
+        const restored = Block.decode(original.encode());
+        expect(restored.hash).toBe(original.hash);
+        expect(restored.toJSON()).toEqual(original.toJSON());
+        expect(restored.transactions[0]).toBeInstanceOf(Transaction);
+    });
+
+    test("should reject encodings that don't match their contents or aren't canonical", () => {
+        const block = new Block(1, "0", [new Transaction("MINING_REWARD", "miner", 1)], 0);
+        const header = block.encodeHeader();
+
+        const badFlag = Buffer.from(block.encode());
+        badFlag[header.length - 1] = 2;  // Validator presence flag, the last byte of the header
+        expect(() => Block.decode(badFlag)).toThrow("Invalid encoding: presence flag must be 0 or 1");
+
+        const other = Buffer.from(new Block(1, "0", [new Transaction("MINING_REWARD", "thief", 1)], 0).encode());
+        const swapped = Buffer.concat([header, other.subarray(header.length)]);
+        expect(() => Block.decode(swapped)).toThrow("Merkle root of block 1 does not match");
+        expect(() => new Block(1, "0", [{ data: "not a transaction" }], 0).encode()).toThrow("holds something other than transactions");
+    });
+
+    test("should rebuild blocks saved before versions existed with the legacy hash", () => {
+        const legacy = new Block(1, "0", [new Transaction("MINING_REWARD", "miner", 1, { version: LEGACY_ENCODING_VERSION })], 0);
+        legacy.version = LEGACY_ENCODING_VERSION;
+        legacy.hash = legacy.calculateHash();
+        const { version, ...data } = legacy.toJSON();
+
+        const restored = Block.fromJSON(JSON.parse(JSON.stringify(data)));
+        expect(restored.version).toBe(LEGACY_ENCODING_VERSION);
+        expect(restored.hash).toBe(legacy.hash);
+        expect(restored.hash).not.toBe(hashBytes(restored.encodeHeader()));
+        expect(Block.decode(restored.encode()).hash).toBe(legacy.hash);
+    });
+});
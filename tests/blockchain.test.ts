@@ -1,6 +1,60 @@
-import { describe, test, expect } from "bun:test";
-import { Blockchain } from "../src/blockchain";
-import { Transaction } from "../src/transaction";
+import { describe, test, expect, spyOn } from "bun:test";
+import { Blockchain, MiningCancelledError, type BlockchainJSON, type ReorgEvent } from "../src/blockchain";
+import { COINBASE_ADDRESS, Transaction, type TransactionOptions } from "../src/transaction";
+import { Block } from "../src/block";
+import { meetsDifficulty } from "../src/difficulty";
+import { addressFromPublicKey, generateKeyPair, signMessage, type KeyPair } from "../src/crypto";
+import { ProofOfAuthority, ProofOfStake } from "../src/consensus";
+import { hashLockScript, hashSecret, multisigScript, scriptAddress, timeLockScript } from "../src/script";
+import { SeededNonceSource, SimulatedClock } from "../src/clock";
+import { Wallet } from "../src/wallet";
+import { createGenesisBlock } from "../src/config";
+import { ENCODING_VERSION, LEGACY_ENCODING_VERSION } from "../src/encoding";
+
+// Test wallets, generated on first use and looked up by name
+const wallets = new Map<string, KeyPair>();
+
+function walletOf(name: string): KeyPair {
+    let keys = wallets.get(name);
+    if (!keys) {
+        keys = generateKeyPair();
+        wallets.set(name, keys);
+    }
+    return keys;
+}
+
+function addressOf(name: string): string {
+    return addressFromPublicKey(walletOf(name).publicKey);
+}
+
+// Mines empty blocks to a named wallet so it has confirmed funds to spend (1 per block)
+function fund(blockchain: Blockchain, name: string, blocks: number): void {
+    for (let i = 0; i < blocks; i++) {
+        blockchain.minePendingTransactions(addressOf(name));
+    }
+}
+
+// Builds a transaction between two named wallets, signed by the sender
+function transfer(from: string, to: string, amount: number, options: TransactionOptions = {}): Transaction {
+    const transaction = new Transaction(addressOf(from), addressOf(to), amount, options);
+    transaction.signTransaction(walletOf(from).privateKey);
+    return transaction;
+}
+
+// Builds the next block after a parent, unmined (fine at difficulty 1) and dated after the parent as the timestamp rules require
+function blockAfter(parent: Block, transactions: Transaction[]): Block {
+    const block = new Block(parent.index + 1, parent.hash, transactions, 0, 1);
+    block.timestamp = Math.max(block.timestamp, parent.timestamp + 1);
+    block.hash = block.calculateHash();
+    return block;
+}
+
+// Signs a transfer with the sender's next nonce and submits it (account mode)
+function send(blockchain: Blockchain, from: string, to: string, amount: number, options: TransactionOptions = {}): Transaction {
+    const transaction = transfer(from, to, amount, { sequence: blockchain.getNextNonce(addressOf(from)), ...options });
+    blockchain.createTransaction(transaction);
+    return transaction;
+}
 
 describe("Blockchain", () => {
     test("should create a new blockchain with genesis block", () => {
@@ -12,63 +66,65 @@ describe("Blockchain", () => {
 
     test("should create and process transactions", () => {
         const blockchain = new Blockchain();
-        const transaction = new Transaction("address1", "address2", 100);
+        fund(blockchain, "address1", 2);
+        const transaction = transfer("address1", "address2", 2, { sequence: 0 });
         const blockIndex = blockchain.createTransaction(transaction);
-        expect(blockIndex).toBe(1);
+        expect(blockIndex).toBe(3);
     });
 
     test("should mine pending transactions", () => {
         const blockchain = new Blockchain();
-        const transaction = new Transaction("address1", "address2", 100);
-        blockchain.createTransaction(transaction);
+        fund(blockchain, "address1", 1);
+        send(blockchain, "address1", "address2", 1);
         blockchain.minePendingTransactions("miner");
-        expect(blockchain.chain.length).toBe(2);
-        expect(blockchain.chain[1]!.transactions.length).toBe(2); // Includes mining reward
+        expect(blockchain.chain.length).toBe(3);
+        expect(blockchain.chain[2]!.transactions.length).toBe(2); // Includes mining reward
     });
 
     test("should calculate correct balance", () => {
         const blockchain = new Blockchain();
-        const transaction1 = new Transaction("address1", "address2", 100);
-        const transaction2 = new Transaction("address2", "address1", 50);
+        fund(blockchain, "address1", 3);
 
-        blockchain.createTransaction(transaction1);
-        blockchain.createTransaction(transaction2);
+        send(blockchain, "address1", "address2", 2);
+        blockchain.minePendingTransactions("miner");
+        send(blockchain, "address2", "address1", 1);
         blockchain.minePendingTransactions("miner");
 
-        expect(blockchain.getBalanceOfAddress("address1")).toBe(-50);
-        expect(blockchain.getBalanceOfAddress("address2")).toBe(50);
-        expect(blockchain.getBalanceOfAddress("miner")).toBe(1);
+        expect(blockchain.getBalanceOfAddress(addressOf("address1"))).toBe(2);  // 3 mined - 2 sent + 1 received
+        expect(blockchain.getBalanceOfAddress(addressOf("address2"))).toBe(1);  // 2 received - 1 sent
+        expect(blockchain.getBalanceOfAddress("miner")).toBe(2);
     });
 
     test("should validate the chain", () => {
         const blockchain = new Blockchain();
-        const transaction = new Transaction("address1", "address2", 100);
-        blockchain.createTransaction(transaction);
+        fund(blockchain, "address1", 1);
+        send(blockchain, "address1", "address2", 1);
         blockchain.minePendingTransactions("miner");
         expect(blockchain.isChainValid()).toBe(true);
     });
 
     test("should detect invalid chain", () => {
         const blockchain = new Blockchain();
-        const transaction = new Transaction("address1", "address2", 100);
-        blockchain.createTransaction(transaction);
+        fund(blockchain, "address1", 1);
+        send(blockchain, "address1", "address2", 1);
         blockchain.minePendingTransactions("miner");
-        blockchain.chain[1]!.transactions = [new Transaction("tampered", "data", 1000)];
+        blockchain.chain[2]!.transactions = [new Transaction("tampered", "data", 1000)];
         expect(blockchain.isChainValid()).toBe(false);
     });
 
     test("should handle multiple blocks correctly", () => {
         const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 2);
 
         // Add and mine first set of transactions
-        blockchain.createTransaction(new Transaction("addr1", "addr2", 100));
+        send(blockchain, "addr1", "addr2", 2);
         blockchain.minePendingTransactions("miner1");
 
         // Add and mine second set of transactions
-        blockchain.createTransaction(new Transaction("addr2", "addr1", 50));
+        send(blockchain, "addr2", "addr1", 1);
         blockchain.minePendingTransactions("miner2");
 
-        expect(blockchain.chain.length).toBe(3);
+        expect(blockchain.chain.length).toBe(5);
         expect(blockchain.isChainValid()).toBe(true);
         expect(blockchain.getBalanceOfAddress("miner1")).toBe(1);
         expect(blockchain.getBalanceOfAddress("miner2")).toBe(1);
@@ -78,7 +134,7 @@ describe("Blockchain", () => {
         const blockchain = new Blockchain();
 
         // Create a valid transaction
-        const transaction = new Transaction("addr1", "addr2", 100);
+        const transaction = transfer("addr1", "addr2", 100);
 
         // Make it invalid using the testing method
         transaction.makeInvalid();
@@ -91,28 +147,31 @@ describe("Blockchain", () => {
 
     test("should handle mining difficulty changes", () => {
         const blockchain = new Blockchain();
-        const originalDifficulty = blockchain["difficulty"];
+        const originalDifficulty = blockchain.getDifficulty();
 
-        // Add a transaction and mine it
-        blockchain.createTransaction(new Transaction("addr1", "addr2", 100));
+        // Mine a block
         blockchain.minePendingTransactions("miner");
 
         // Verify the mined block's hash meets difficulty requirement
         const minedBlock = blockchain.chain[1]!;
-        expect(minedBlock.hash.substring(0, originalDifficulty)).toBe("0".repeat(originalDifficulty));
+        expect(minedBlock.difficulty).toBe(originalDifficulty);
+        expect(meetsDifficulty(minedBlock.hash, originalDifficulty)).toBe(true);
+        expect(minedBlock.hash.substring(0, 2)).toBe("00"); // Default difficulty is about two leading hex zeros
     });
 
     test("should calculate balances correctly with multiple transactions", () => {
         const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 5);
+        fund(blockchain, "addr2", 1);
 
         // Add multiple transactions
-        blockchain.createTransaction(new Transaction("addr1", "addr2", 100));
-        blockchain.createTransaction(new Transaction("addr2", "addr1", 50));
-        blockchain.createTransaction(new Transaction("addr1", "addr2", 25));
+        send(blockchain, "addr1", "addr2", 3);
+        send(blockchain, "addr2", "addr1", 1);
+        send(blockchain, "addr1", "addr2", 2);
         blockchain.minePendingTransactions("miner");
 
-        expect(blockchain.getBalanceOfAddress("addr1")).toBe(-75); // -100 + 50 - 25
-        expect(blockchain.getBalanceOfAddress("addr2")).toBe(75);  // +100 - 50 + 25
+        expect(blockchain.getBalanceOfAddress(addressOf("addr1"))).toBe(1); // 5 - 3 + 1 - 2
+        expect(blockchain.getBalanceOfAddress(addressOf("addr2"))).toBe(5); // 1 + 3 - 1 + 2
         expect(blockchain.getBalanceOfAddress("miner")).toBe(1);
     });
 
@@ -120,35 +179,35 @@ describe("Blockchain", () => {
     test("should handle large number of transactions in a block", () => {
         const blockchain = new Blockchain();
         const numTransactions = 100;
+        fund(blockchain, "whale", numTransactions / 4);
 
         for (let i = 0; i < numTransactions; i++) {
-            blockchain.createTransaction(
-                new Transaction(`addr${i}`, `addr${i + 1}`, i + 1)
-            );
+            send(blockchain, "whale", `addr${i}`, 0.25);
         }
 
         blockchain.minePendingTransactions("miner");
-        expect(blockchain.chain[1]!.transactions.length).toBe(numTransactions + 1); // +1 for mining reward
+        expect(blockchain.chain[blockchain.chain.length - 1]!.transactions.length).toBe(numTransactions + 1); // +1 for mining reward
         expect(blockchain.isChainValid()).toBe(true);
     });
 
     test("should handle circular transactions", () => {
         const blockchain = new Blockchain();
         const numAddresses = 5;
+        for (let i = 0; i < numAddresses; i++) {
+            fund(blockchain, `addr${i}`, 1);
+        }
 
         // Create circular transactions between addresses
         for (let i = 0; i < numAddresses; i++) {
             const nextAddr = (i + 1) % numAddresses;
-            blockchain.createTransaction(
-                new Transaction(`addr${i}`, `addr${nextAddr}`, 100)
-            );
+            send(blockchain, `addr${i}`, `addr${nextAddr}`, 1);
         }
 
         blockchain.minePendingTransactions("miner");
 
-        // All addresses except miner should have 0 balance
+        // Every address sent and received the same amount, so each keeps its mined coin
         for (let i = 0; i < numAddresses; i++) {
-            expect(blockchain.getBalanceOfAddress(`addr${i}`)).toBe(0);
+            expect(blockchain.getBalanceOfAddress(addressOf(`addr${i}`))).toBe(1);
         }
         expect(blockchain.getBalanceOfAddress("miner")).toBe(1);
     });
@@ -158,11 +217,12 @@ describe("Blockchain", () => {
         const numBlocks = 5;
 
         for (let i = 0; i < numBlocks; i++) {
-            blockchain.createTransaction(new Transaction("addr1", "addr2", 10));
-            blockchain.minePendingTransactions("miner");
+            blockchain.minePendingTransactions(addressOf("miner"));
+            send(blockchain, "miner", "addr2", 0.5);
         }
 
-        expect(blockchain.getBalanceOfAddress("miner")).toBe(numBlocks);
+        expect(blockchain.getBalanceOfAddress(addressOf("miner"))).toBe(numBlocks - 4 * 0.5);
+        expect(blockchain.getBalanceOfAddress(addressOf("addr2"))).toBe(4 * 0.5);
     });
 
     test("should handle empty blocks", () => {
@@ -177,19 +237,1537 @@ describe("Blockchain", () => {
 
     test("should maintain correct balances after complex transactions", () => {
         const blockchain = new Blockchain();
+        fund(blockchain, "A", 4);
 
         // Complex series of transactions
-        blockchain.createTransaction(new Transaction("A", "B", 100)); // A: -100, B: +100
+        send(blockchain, "A", "B", 4); // A: -4, B: +4
         blockchain.minePendingTransactions("M1"); // M1: +1
 
-        blockchain.createTransaction(new Transaction("B", "C", 75));  // B: +25, C: +75
-        blockchain.createTransaction(new Transaction("C", "A", 50));  // C: +25, A: -50
+        send(blockchain, "B", "C", 3);  // B: +1, C: +3
+        blockchain.minePendingTransactions("M2"); // M2: +1
+
+        send(blockchain, "C", "A", 2);  // C: +1, A: +2
         blockchain.minePendingTransactions("M2"); // M2: +1
 
-        expect(blockchain.getBalanceOfAddress("A")).toBe(-50);  // -100 + 50
-        expect(blockchain.getBalanceOfAddress("B")).toBe(25);   // +100 - 75
-        expect(blockchain.getBalanceOfAddress("C")).toBe(25);   // +75 - 50
+        expect(blockchain.getBalanceOfAddress(addressOf("A"))).toBe(2);  // 4 - 4 + 2
+        expect(blockchain.getBalanceOfAddress(addressOf("B"))).toBe(1);  // 4 - 3
+        expect(blockchain.getBalanceOfAddress(addressOf("C"))).toBe(1);  // 3 - 2
         expect(blockchain.getBalanceOfAddress("M1")).toBe(1);
-        expect(blockchain.getBalanceOfAddress("M2")).toBe(1);
+        expect(blockchain.getBalanceOfAddress("M2")).toBe(2);
+    });
+
+    test("should reject unsigned transactions", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 1);
+        expect(() => {
+            blockchain.createTransaction(new Transaction(addressOf("addr1"), addressOf("addr2"), 1));
+        }).toThrow("Invalid transaction");
+    });
+
+    test("should detect a forged sender in a mined block", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 1);
+        send(blockchain, "addr1", "addr2", 1);
+        blockchain.minePendingTransactions("miner");
+
+        // Re-point the signed transaction at someone else's wallet and re-hash the block around it
+        const block = blockchain.chain[2]!;
+        const forged = block.transactions[0] as Transaction;
+        forged.fromAddress = addressOf("victim");
+        block.transactions = [forged, ...block.transactions.slice(1)];
+        block.hash = block.calculateHash();
+        expect(blockchain.isChainValid()).toBe(false);
+    });
+
+    test("should reject transfers from an empty wallet", () => {
+        const blockchain = new Blockchain();
+        const transaction = transfer("broke", "addr2", 1, { sequence: 0 });
+        expect(() => {
+            blockchain.createTransaction(transaction);
+        }).toThrow(`Insufficient balance: address ${addressOf("broke")} has 0 available but transaction ${transaction.hash} sends 1`);
+    });
+
+    test("should count pending transfers against the sender's balance", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 3);
+
+        send(blockchain, "addr1", "addr2", 2);
+        expect(() => {
+            send(blockchain, "addr1", "addr3", 2); // Only 1 left after the pending transfer
+        }).toThrow("Insufficient balance");
+        send(blockchain, "addr1", "addr3", 1);
+    });
+
+    test("should not let incoming pending transfers fund a spend", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 1);
+
+        send(blockchain, "addr1", "addr2", 1);
+        expect(() => {
+            send(blockchain, "addr2", "addr3", 1); // addr2's coin isn't confirmed yet
+        }).toThrow("Insufficient balance");
+    });
+
+    test("should detect an overdraft smuggled into a mined block", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 1);
+        send(blockchain, "addr1", "addr2", 1);
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.isChainValid()).toBe(true);
+
+        // Slip a second spend of the same coin into the block behind admission's back
+        const block = blockchain.chain[2]!;
+        const overdraft = transfer("addr1", "addr3", 1, { sequence: 1 });
+        block.transactions = [...block.transactions, overdraft];
+        block.hash = block.calculateHash();
+
+        expect(blockchain.isChainValid()).toBe(false);
+        expect(() => blockchain.verifyBalances()).toThrow(
+            `Negative balance for address ${addressOf("addr1")} after transaction ${overdraft.hash} in block 2`
+        );
+    });
+
+    test("should snapshot all balances from the world-state index", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 2);
+        send(blockchain, "addr1", "addr2", 1);
+        blockchain.minePendingTransactions("miner");
+
+        expect(blockchain.getAllBalances()).toEqual(new Map([
+            [addressOf("addr1"), 1],
+            [addressOf("addr2"), 1],
+            ["miner", 1]
+        ]));
+    });
+
+    test("should keep the world-state index consistent with a full scan", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 3);
+        send(blockchain, "addr1", "addr2", 2);
+        blockchain.minePendingTransactions("miner");
+        send(blockchain, "addr2", "addr3", 1);
+        blockchain.minePendingTransactions("miner");
+
+        expect(() => blockchain.verifyStateConsistency()).not.toThrow();
+        for (const address of [addressOf("addr1"), addressOf("addr2"), addressOf("addr3"), "miner"]) {
+            expect(blockchain.getBalanceOfAddress(address)).toBe(blockchain.calculateBalanceFromChain(address));
+        }
+    });
+
+    test("should detect a stale index and rebuild it from the chain", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 1);
+
+        // Swap in a block the index never saw
+        const block = blockchain.chain[1]!;
+        block.transactions = [new Transaction("MINING_REWARD", addressOf("addr2"), 1)];
+
+        expect(() => blockchain.verifyStateConsistency()).toThrow(`World state mismatch for address ${addressOf("addr1")}`);
+        blockchain.rebuildState();
+        expect(() => blockchain.verifyStateConsistency()).not.toThrow();
+        expect(blockchain.getBalanceOfAddress(addressOf("addr2"))).toBe(1);
+        expect(blockchain.getBalanceOfAddress(addressOf("addr1"))).toBe(0);
+    });
+
+    test("should store the required difficulty in every block", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 16 });
+        fund(blockchain, "miner", 3);
+
+        expect(blockchain.chain[0]!.difficulty).toBe(16);
+        for (const block of blockchain.chain.slice(1)) {
+            expect(block.difficulty).toBe(16);
+            expect(block.hasValidProofOfWork()).toBe(true);
+        }
+    });
+
+    test("should raise difficulty when blocks arrive faster than targeted", () => {
+        // Blocks take milliseconds here, far below the hour-long target, so the maximum 4x step applies
+        const blockchain = new Blockchain({ initialDifficulty: 16, targetBlockTime: 3_600_000, retargetInterval: 3 });
+        fund(blockchain, "miner", 6);
+
+        expect(blockchain.chain.map(block => block.difficulty)).toEqual([16, 16, 16, 64, 64, 64, 256]);
+        expect(blockchain.getDifficulty()).toBe(256);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should detect a block mined below the required difficulty", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 16, targetBlockTime: 3_600_000, retargetInterval: 2 });
+        fund(blockchain, "miner", 2);
+
+        // Re-mine the retargeted block at the old, easier difficulty
+        const block = blockchain.chain[2]!;
+        expect(block.difficulty).toBe(64);
+        block.difficulty = 16;
+        block.nonce = 0;
+        block.hash = block.calculateHash();
+        while (!block.hasValidProofOfWork()) {
+            block.nonce++;
+            block.hash = block.calculateHash();
+        }
+
+        expect(block.isValid()).toBe(true);
+        expect(blockchain.isChainValid()).toBe(false);
+    });
+
+    test("should detect a block without enough proof-of-work", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1_000_000 });
+        blockchain.chain.push(new Block(1, blockchain.chain[0]!.hash, [], 0, 1_000_000));
+        expect(blockchain.isChainValid()).toBe(false);
+    });
+
+    test("should reject invalid difficulty settings", () => {
+        expect(() => new Blockchain({ initialDifficulty: 0 })).toThrow("Initial difficulty must be a positive integer");
+        expect(() => new Blockchain({ initialDifficulty: 1.5 })).toThrow("Initial difficulty must be a positive integer");
+        expect(() => new Blockchain({ retargetInterval: 1 })).toThrow("retarget interval at least 2 blocks");
+        expect(() => new Blockchain({ targetBlockTime: 0 })).toThrow("Target block time must be positive");
+    });
+
+    test("should round-trip through JSON into a working chain", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 16 });
+        fund(blockchain, "addr1", 3);
+        send(blockchain, "addr1", "addr2", 2);
+        blockchain.minePendingTransactions("miner");
+        send(blockchain, "addr2", "addr3", 1);  // Left pending
+
+        const restored = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+        expect(restored.isChainValid()).toBe(true);
+        expect(restored.chain.map(block => block.hash)).toEqual(blockchain.chain.map(block => block.hash));
+        expect(restored.getAllBalances()).toEqual(blockchain.getAllBalances());
+        expect(restored.getDifficulty()).toBe(16);
+
+        // The restored chain keeps working, including its pending pool
+        restored.minePendingTransactions("miner");
+        expect(restored.getBalanceOfAddress(addressOf("addr3"))).toBe(1);
+        expect(restored.isChainValid()).toBe(true);
+    });
+
+    test("should reject JSON with a tampered block", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 2);
+        const data = blockchain.toJSON();
+        data.chain[1]!.nonce += 1;
+        expect(() => Blockchain.fromJSON(data)).toThrow("Invalid block data: hash of block 1 does not match its contents");
+    });
+
+    test("should reject JSON with a broken chain", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 2);
+        const data = blockchain.toJSON();
+        data.chain.splice(1, 1);  // Drop a block - each block is intact but the links are not
+        expect(() => Blockchain.fromJSON(data)).toThrow("Invalid chain data: block 1 does not link to the hash of block 0");
+    });
+
+    test("should drop pending transactions that overdraw when loading JSON", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "addr1", 1);
+        const data = blockchain.toJSON();
+        const affordable = transfer("addr1", "addr2", 1, { sequence: 0 });
+        data.pendingTransactions = [affordable.toJSON(), transfer("addr1", "addr3", 1, { sequence: 1 }).toJSON()];
+
+        const loaded = Blockchain.fromJSON(data);
+        expect(loaded.getPendingTransactions().map(transaction => transaction.hash)).toEqual([affordable.hash]);
+    });
+
+    test("should reject malformed JSON", () => {
+        expect(() => Blockchain.fromJSON({ chain: [] } as any)).toThrow("Invalid chain data: malformed blockchain");
+    });
+});
+
+describe("Blockchain (fees and mempool)", () => {
+    test("should debit fees from the sender and pay them to the miner", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 2);
+
+        send(blockchain, "alice", "bob", 1, { fee: 0.5 });
+        blockchain.minePendingTransactions("miner");
+
+        expect(blockchain.getBalanceOfAddress(addressOf("alice"))).toBe(0.5);
+        expect(blockchain.getBalanceOfAddress(addressOf("bob"))).toBe(1);
+        expect(blockchain.getBalanceOfAddress("miner")).toBe(1.5);  // Reward plus fee
+        expect(blockchain.isChainValid()).toBe(true);
+        expect(() => blockchain.verifyStateConsistency()).not.toThrow();
+    });
+
+    test("should count fees toward overdrafts", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        expect(() => send(blockchain, "alice", "bob", 1, { fee: 0.1 })).toThrow(
+            "has 1 available but transaction"
+        );
+    });
+
+    test("should fill blocks by fee rate and leave the rest pending", () => {
+        const blockchain = new Blockchain({ maxBlockTransactions: 2 });
+        ["alice", "carol", "dave"].forEach(name => fund(blockchain, name, 1));
+
+        const cheap = send(blockchain, "alice", "bob", 0.5, { fee: 0.1 });
+        const dear = send(blockchain, "carol", "bob", 0.5, { fee: 0.3 });
+        const middle = send(blockchain, "dave", "bob", 0.5, { fee: 0.2 });
+        blockchain.minePendingTransactions("miner");
+
+        const mined = blockchain.chain[4]!.transactions.map(transaction => transaction.hash);
+        expect(mined).toEqual([dear.hash, middle.hash, mined[2]]);  // Reward last
+        expect(blockchain.getPendingTransactions()).toEqual([cheap]);
+    });
+
+    test("should reject blocks over the size limits", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 2);
+        const limited = Blockchain.fromJSON({ ...blockchain.toJSON(), options: { ...blockchain.toJSON().options, maxBlockTransactions: 1 } });
+
+        send(blockchain, "alice", "bob", 0.5);
+        send(blockchain, "alice", "bob", 0.5);
+        blockchain.minePendingTransactions("miner");
+
+        expect(() => limited.addBlock(blockchain.chain[3]!)).toThrow("exceeds the block size limits");
+    });
+
+    test("should replace a pending transaction that pays a higher fee", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+
+        const original = transfer("alice", "bob", 0.9, { fee: 0.05, sequence: 0 });
+        blockchain.createTransaction(original);
+
+        // The replaced transaction's funds are available to its replacement
+        const replacement = transfer("alice", "carol", 0.9, { fee: 0.1, sequence: 0 });
+        blockchain.createTransaction(replacement);
+        expect(blockchain.getPendingTransactions()).toEqual([replacement]);
+
+        expect(() => send(blockchain, "alice", "bob", 0.8, { fee: 0.1, sequence: 0 })).toThrow(
+            "must pay a higher fee"
+        );
+    });
+
+    test("should replace a pending UTXO transaction spending the same outputs", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const inputs = blockchain.getUnspentOutputs(addressOf("alice")).map(({ txHash, outputIndex }) => ({ txHash, outputIndex }));
+
+        blockchain.createTransaction(transfer("alice", "bob", 0.9, { inputs, fee: 0.05, sequence: 0 }));
+        const replacement = transfer("alice", "bob", 0.9, { inputs, fee: 0.1, sequence: 0 });
+        blockchain.createTransaction(replacement);
+        blockchain.minePendingTransactions("miner");
+
+        expect(blockchain.getUnspentOutputs("miner")[0]!.amount).toBeCloseTo(1.1);
+        expect(blockchain.getBalanceOfAddress(addressOf("alice"))).toBe(0);  // No change: 1 = 0.9 + 0.1 fee
+    });
+
+    test("should reject and drop expired transactions", () => {
+        const blockchain = new Blockchain({ pendingExpiry: 60_000 });
+        fund(blockchain, "alice", 2);
+
+        const stale = new Transaction(addressOf("alice"), addressOf("bob"), 1, { sequence: 0 });
+        stale.timestamp -= 120_000;
+        stale.hash = stale.calculateHash();
+        stale["_originalHash"] = stale.hash;
+        stale.signTransaction(walletOf("alice").privateKey);
+        expect(() => blockchain.createTransaction(stale)).toThrow("has expired");
+
+        const aging = send(blockchain, "alice", "bob", 1);
+        aging.timestamp -= 120_000;  // Let it go stale while pending
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.chain[3]!.transactions.length).toBe(1);  // Just the reward
+        expect(blockchain.getPendingTransactions()).toEqual([]);
+    });
+
+    test("should reject a transaction that is already pending", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 2);
+        const transaction = send(blockchain, "alice", "bob", 1);
+        expect(() => blockchain.createTransaction(transaction)).toThrow("is already pending");
+    });
+
+    test("should drop only the pending transactions a block confirms or invalidates", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1 });
+        ["alice", "carol"].forEach(name => fund(blockchain, name, 2));
+        const confirmed = send(blockchain, "carol", "bob", 0.5);
+        send(blockchain, "alice", "bob", 1);
+        send(blockchain, "alice", "bob", 0.5);
+        const untouched = send(blockchain, "carol", "bob", 0.5);
+        const checks = spyOn(untouched, "isValid");
+
+        // A block from elsewhere uses alice's first sequence number to spend everything she has
+        const spendAll = transfer("alice", "dave", 2, { sequence: 0 });
+        const latest = blockchain.chain[blockchain.chain.length - 1]!;
+        blockchain.addBlock(blockAfter(latest, [confirmed, spendAll, new Transaction(COINBASE_ADDRESS, "miner", 1)]));
+
+        expect(blockchain.getPendingTransactions()).toEqual([untouched]);
+        expect(checks).not.toHaveBeenCalled();  // Left in the pool without going through admission again
+    });
+});
+
+describe("Blockchain (validation reports)", () => {
+    test("should report no issues for a valid chain", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 2);
+        send(blockchain, "alice", "bob", 1);
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.validateChain()).toEqual([]);
+    });
+
+    test("should report every issue with its code and block", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 4);
+
+        blockchain.chain[0]!.difficulty = 1;  // Breaks the genesis rules (and its hash)
+        blockchain.chain[2]!.previousHash = "f".repeat(64);
+        blockchain.chain[4]!.index = 7;
+
+        const issues = blockchain.validateChain();
+        expect(issues.map(issue => `${issue.code}@${issue.blockIndex}`)).toEqual([
+            "BAD_GENESIS@0",
+            "HASH_MISMATCH@0",
+            "BAD_DIFFICULTY@1",      // Block 1 no longer matches the genesis difficulty
+            "HASH_MISMATCH@2",
+            "BROKEN_LINK@2",
+            "HASH_MISMATCH@4",       // Reported at its position, not the tampered index
+            "BAD_INDEX@4"
+        ]);
+        expect(issues.find(issue => issue.code === "BROKEN_LINK" && issue.blockIndex === 2)).toMatchObject({
+            expected: blockchain.chain[1]!.hash,
+            actual: "f".repeat(64)
+        });
+        expect(issues.find(issue => issue.code === "BAD_INDEX")).toMatchObject({ blockIndex: 4, expected: 4, actual: 7 });
+        expect(blockchain.isChainValid()).toBe(false);
+    });
+
+    test("should report ledger and coinbase issues with expected and actual values", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        const payment = send(blockchain, "alice", "bob", 1);
+        blockchain.minePendingTransactions("miner");
+
+        // Inflate the payment's block reward and slip in an overdraft, then re-hash the block around them
+        const block = blockchain.chain[2]!;
+        const overdraft = transfer("alice", "carol", 2, { sequence: 1 });
+        block.transactions = [payment, overdraft, new Transaction("MINING_REWARD", "miner", 3)];
+        block.hash = block.calculateHash();
+
+        const issues = blockchain.validateChain().filter(issue => issue.code !== "INSUFFICIENT_WORK");
+        expect(issues).toEqual([
+            expect.objectContaining({ code: "BAD_COINBASE", blockIndex: 2, expected: 1, actual: 3 }),
+            expect.objectContaining({ code: "OVERDRAFT", blockIndex: 2, txHash: overdraft.hash, expected: 0, actual: 2 })
+        ]);
+    });
+
+    test("should report out-of-sequence and duplicate transactions", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 2);
+        const payment = send(blockchain, "alice", "bob", 0.5);
+        blockchain.minePendingTransactions("miner");
+
+        const block = blockchain.chain[3]!;
+        const skipped = transfer("alice", "bob", 0.5, { sequence: 5 });
+        block.transactions = [payment, payment, skipped, ...block.transactions.slice(1)];
+        block.hash = block.calculateHash();
+
+        const ledger = blockchain.validateChain().filter(issue => ["DUPLICATE_TX", "BAD_SEQUENCE"].includes(issue.code));
+        expect(ledger).toEqual([
+            expect.objectContaining({ code: "DUPLICATE_TX", txHash: payment.hash }),
+            expect.objectContaining({ code: "BAD_SEQUENCE", txHash: skipped.hash, expected: 1, actual: 5 })
+        ]);
+    });
+});
+
+describe("Blockchain (nonces)", () => {
+    test("should count confirmed and pending transactions toward the next nonce", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 3);
+        expect(blockchain.getNextNonce(addressOf("alice"))).toBe(0);
+
+        send(blockchain, "alice", "bob", 1);
+        blockchain.minePendingTransactions("miner");
+        send(blockchain, "alice", "bob", 1);
+        expect(blockchain.getNextNonce(addressOf("alice"))).toBe(2);
+        expect(blockchain.getNextNonce(addressOf("bob"))).toBe(0);
+
+        expect(() => new Blockchain({ ledger: "utxo" }).getNextNonce("alice")).toThrow("only tracked in account mode");
+    });
+
+    test("should reject transactions out of sequence", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 2);
+
+        expect(() => blockchain.createTransaction(transfer("alice", "bob", 1))).toThrow("uses none but the next");
+        expect(() => blockchain.createTransaction(transfer("alice", "bob", 1, { sequence: 1 }))).toThrow(
+            `uses 1 but the next for address ${addressOf("alice")} is 0`
+        );
+
+        send(blockchain, "alice", "bob", 1);
+        blockchain.minePendingTransactions("miner");
+        expect(() => blockchain.createTransaction(transfer("alice", "bob", 1, { sequence: 0 }))).toThrow("uses 0 but the next");
+    });
+
+    test("should refuse to replay a confirmed transaction", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 2);
+        const payment = send(blockchain, "alice", "bob", 1);
+        blockchain.minePendingTransactions("miner");
+
+        expect(() => blockchain.createTransaction(payment)).toThrow(`Transaction ${payment.hash} is already confirmed in block 3`);
+        expect(blockchain.findTransaction(payment.hash)?.block).toBe(blockchain.chain[3]!);
+    });
+
+    test("should reject blocks that repeat a transaction or break the sequence", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1 });
+        fund(blockchain, "alice", 2);
+        const payment = send(blockchain, "alice", "bob", 0.5);
+        blockchain.minePendingTransactions("miner");
+
+        const latest = blockchain.chain[blockchain.chain.length - 1]!;
+        const reward = new Transaction("MINING_REWARD", "miner", 1);
+        const replay = blockAfter(latest, [payment, reward]);
+        expect(() => blockchain.addBlock(replay)).toThrow(`duplicate transaction ${payment.hash} in block 4`);
+
+        const skipped = blockAfter(latest, [transfer("alice", "bob", 0.5, { sequence: 2 }), reward]);
+        expect(() => blockchain.addBlock(skipped)).toThrow("should have sequence number 1");
+
+        // The same checks apply when validating the whole chain
+        const block = blockchain.chain[2]!;
+        block.transactions = [payment, ...block.transactions];
+        block.hash = block.calculateHash();
+        expect(() => blockchain.verifyBalances()).toThrow(`Duplicate transaction ${payment.hash} in block 3`);
+        expect(blockchain.isChainValid()).toBe(false);
+    });
+
+    test("should mine a sender's transactions in sequence even when a later one pays more", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 2);
+        const first = send(blockchain, "alice", "bob", 0.5, { fee: 0.1 });
+        const second = send(blockchain, "alice", "bob", 0.5, { fee: 0.9 });
+        blockchain.minePendingTransactions("miner");
+
+        expect(blockchain.chain[3]!.transactions.slice(0, 2)).toEqual([first, second]);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should keep later transactions pending after replacing an earlier one", () => {
+        const blockchain = new Blockchain({ maxBlockTransactions: 1 });
+        fund(blockchain, "alice", 2);
+        send(blockchain, "alice", "bob", 0.5, { fee: 0.1 });
+        const second = send(blockchain, "alice", "bob", 0.5, { fee: 0.1 });
+        const replacement = send(blockchain, "alice", "carol", 0.5, { fee: 0.2, sequence: 0 });
+
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.chain[3]!.transactions[0]).toBe(replacement);
+        expect(blockchain.getPendingTransactions()).toEqual([second]);
+    });
+
+    test("should drop a sender's later transactions when an earlier one is evicted", () => {
+        const blockchain = new Blockchain({ maxPendingTransactions: 2 });
+        ["alice", "carol"].forEach(name => fund(blockchain, name, 2));
+        send(blockchain, "alice", "bob", 0.5, { fee: 0.01 });
+        send(blockchain, "alice", "bob", 0.5, { fee: 0.5 });
+
+        const richer = send(blockchain, "carol", "bob", 0.5, { fee: 0.3 });
+        expect(blockchain.getPendingTransactions()).toEqual([richer]);
+    });
+});
+
+describe("Blockchain (coinbase)", () => {
+    // Builds the next block on the main chain with the given transactions (these chains use difficulty 1, which any hash meets)
+    function nextBlock(blockchain: Blockchain, transactions: Transaction[]): Block {
+        const latest = blockchain.chain[blockchain.chain.length - 1]!;
+        return blockAfter(latest, transactions);
+    }
+
+    test("should refuse submitted mining rewards", () => {
+        const blockchain = new Blockchain();
+        expect(() => blockchain.createTransaction(new Transaction("MINING_REWARD", "mallory", 1))).toThrow(
+            "Mining reward transactions can't be submitted"
+        );
+    });
+
+    test("should accept a block paying exactly the subsidy plus fees", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1 });
+        fund(blockchain, "alice", 1);
+        const payment = transfer("alice", "bob", 0.5, { fee: 0.25, sequence: 0 });
+
+        const block = nextBlock(blockchain, [payment, new Transaction("MINING_REWARD", "miner", 1.25)]);
+        expect(blockchain.addBlock(block)).toBe("main");
+        expect(blockchain.getBalanceOfAddress("miner")).toBe(1.25);
+    });
+
+    test("should reject a block that repeats an earlier mining reward", () => {
+        const blockchain = new Blockchain({ ledger: "utxo", initialDifficulty: 1 });
+        blockchain.minePendingTransactions("miner");
+        const reward = blockchain.chain[1]!.transactions[0]!;
+
+        // A reward doesn't commit to its height, so a copy has the same hash and would replace the first one's output
+        const repeat = nextBlock(blockchain, [reward]);
+        expect(() => blockchain.addBlock(repeat)).toThrow(`duplicate transaction ${reward.hash} in block 2`);
+        expect(blockchain.getBalanceOfAddress("miner")).toBe(1);
+
+        blockchain.chain.push(repeat);
+        expect(blockchain.validateChain()).toContainEqual(expect.objectContaining({ code: "DUPLICATE_TX", blockIndex: 2, txHash: reward.hash }));
+    });
+
+    test("should reject a mining reward of the wrong amount", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1 });
+        expect(() => blockchain.addBlock(nextBlock(blockchain, [new Transaction("MINING_REWARD", "miner", 2)]))).toThrow(
+            "mining reward in block 1 is 2 but should be 1"
+        );
+
+        fund(blockchain, "miner", 1);
+        const block = blockchain.chain[1]!;
+        block.transactions = [new Transaction("MINING_REWARD", "miner", 5)];
+        block.hash = block.calculateHash();
+        expect(blockchain.isChainValid()).toBe(false);
+    });
+
+    test("should require exactly one mining reward, last in the block", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1 });
+        fund(blockchain, "alice", 1);
+        const reward = new Transaction("MINING_REWARD", "miner", 1);
+        const payment = transfer("alice", "bob", 0.5, { sequence: 0 });
+
+        expect(() => blockchain.addBlock(nextBlock(blockchain, [payment]))).toThrow("must end with exactly one mining reward");
+        expect(() => blockchain.addBlock(nextBlock(blockchain, [reward, payment]))).toThrow("must end with exactly one mining reward");
+        expect(() => blockchain.addBlock(nextBlock(blockchain, [
+            new Transaction("MINING_REWARD", "miner", 0.5),
+            new Transaction("MINING_REWARD", "miner", 0.5)
+        ]))).toThrow("must end with exactly one mining reward");
+        expect(blockchain.chain.length).toBe(2);
+    });
+
+    test("should halve the subsidy on schedule", () => {
+        const blockchain = new Blockchain({ initialReward: 4, halvingInterval: 2 });
+        fund(blockchain, "miner", 5);
+
+        const rewards = blockchain.chain.slice(1).map(block => block.transactions[0]!.amount);
+        expect(rewards).toEqual([4, 4, 2, 2, 1]);
+        expect(blockchain.getBlockSubsidy(6)).toBe(1);
+        expect(blockchain.getIssuedSupply()).toBe(13);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should stop paying subsidies at the supply cap but still pay fees", () => {
+        const blockchain = new Blockchain({ initialReward: 1, maxSupply: 2.5 });
+        fund(blockchain, "alice", 3);
+
+        expect(blockchain.chain[3]!.transactions[0]!.amount).toBe(0.5);  // Only 0.5 was left under the cap
+        expect(blockchain.getIssuedSupply()).toBe(2.5);
+
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.chain[4]!.transactions).toEqual([]);  // Nothing to pay
+
+        send(blockchain, "alice", "bob", 1, { fee: 0.5 });
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.getBalanceOfAddress("miner")).toBe(0.5);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should reject a mining reward in a block with nothing to pay", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1, maxSupply: 0 });
+        expect(() => blockchain.addBlock(nextBlock(blockchain, [new Transaction("MINING_REWARD", "miner", 1)]))).toThrow(
+            "has nothing to pay but includes a mining reward"
+        );
+    });
+});
+
+describe("Blockchain (forks)", () => {
+    // Another copy of the chain (same genesis block) that can be mined independently
+    function copyOf(blockchain: Blockchain): Blockchain {
+        return Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+    }
+
+    test("should keep a competing block with equal work as a side branch", () => {
+        const blockchain = new Blockchain();
+        const rival = copyOf(blockchain);
+        blockchain.minePendingTransactions("alice");
+        rival.minePendingTransactions("bob");
+
+        expect(blockchain.addBlock(rival.chain[1]!)).toBe("side");
+        expect(blockchain.chain[1]!.hash).not.toBe(rival.chain[1]!.hash);  // First seen wins a tie
+        expect(blockchain.getBalanceOfAddress("bob")).toBe(0);
+        expect(blockchain.addBlock(rival.chain[1]!)).toBe("known");
+    });
+
+    test("should reorganize onto a branch with more cumulative work", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        const rival = copyOf(blockchain);
+
+        const payment = send(blockchain, "alice", "bob", 1);
+        blockchain.minePendingTransactions("miner1");
+        const displaced = blockchain.chain[2]!;
+
+        rival.minePendingTransactions("miner2");
+        rival.minePendingTransactions("miner2");
+
+        const events: ReorgEvent[] = [];
+        blockchain.onReorg(event => events.push(event));
+        expect(blockchain.addBlock(rival.chain[2]!)).toBe("side");
+        expect(blockchain.addBlock(rival.chain[3]!)).toBe("main");
+
+        expect(blockchain.chain.map(block => block.hash)).toEqual(rival.chain.map(block => block.hash));
+        expect(blockchain.getChainWork()).toBe(rival.getChainWork());
+        expect(events.length).toBe(1);
+        expect(events[0]!.commonAncestor.hash).toBe(blockchain.chain[1]!.hash);
+        expect(events[0]!.depth).toBe(1);
+        expect(events[0]!.removedBlocks).toEqual([displaced]);
+        expect(events[0]!.addedBlocks.map(block => block.hash)).toEqual([rival.chain[2]!.hash, rival.chain[3]!.hash]);
+
+        // The displaced payment is no longer confirmed, so it goes back to the pending pool
+        expect(blockchain.getPendingTransactions().map(transaction => transaction.hash)).toEqual([payment.hash]);
+        expect(blockchain.getBalanceOfAddress(addressOf("bob"))).toBe(0);
+        expect(blockchain.getBalanceOfAddress("miner1")).toBe(0);
+        expect(blockchain.getBalanceOfAddress("miner2")).toBe(2);
+        expect(blockchain.isChainValid()).toBe(true);
+        expect(() => blockchain.verifyStateConsistency()).not.toThrow();
+    });
+
+    test("should hold orphans until their parent arrives", () => {
+        const blockchain = new Blockchain();
+        const rival = copyOf(blockchain);
+        rival.minePendingTransactions("bob");
+        rival.minePendingTransactions("bob");
+
+        expect(blockchain.addBlock(rival.chain[2]!)).toBe("orphan");
+        expect(blockchain.chain.length).toBe(1);
+
+        expect(blockchain.addBlock(rival.chain[1]!)).toBe("main");
+        expect(blockchain.chain.map(block => block.hash)).toEqual(rival.chain.map(block => block.hash));
+    });
+
+    test("should reject a side branch that overdraws", () => {
+        const blockchain = new Blockchain();
+        const rival = copyOf(blockchain);
+        blockchain.minePendingTransactions("miner");
+
+        // Mine a block on the rival copy, then swap in an unfunded transfer
+        rival.minePendingTransactions("miner");
+        const block = rival.chain[1]!;
+        block.transactions = [transfer("alice", "bob", 5, { sequence: 0 }), ...block.transactions];
+        block.hash = block.calculateHash();
+        while (!block.hasValidProofOfWork()) {
+            block.nonce++;
+            block.hash = block.calculateHash();
+        }
+
+        expect(() => blockchain.addBlock(block)).toThrow("Invalid block: Negative balance");
+        expect(blockchain.chain.length).toBe(2);
+    });
+});
+
+describe("Blockchain (background mining)", () => {
+    test("should mine pending transactions on worker threads", async () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        const transaction = send(blockchain, "alice", "bob", 1);
+
+        const progress: number[] = [];
+        const block = await blockchain.minePendingTransactionsAsync("miner", {
+            workers: 2,
+            onProgress: report => progress.push(report.hashes)
+        });
+
+        expect(blockchain.chain[2]).toBe(block);
+        expect(block.transactions.map(tx => tx.hash)).toContain(transaction.hash);
+        expect(blockchain.getBalanceOfAddress(addressOf("bob"))).toBe(1);
+        expect(blockchain.getPendingTransactions()).toEqual([]);
+        expect(progress.length).toBeGreaterThan(0);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should cancel mining when a competing block for the same height arrives", async () => {
+        const blockchain = new Blockchain();
+        const rival = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+        rival.minePendingTransactions("bob");
+
+        const mining = blockchain.minePendingTransactionsAsync("alice", { workers: 1 });
+        expect(blockchain.addBlock(rival.chain[1]!)).toBe("main");  // Arrives before the workers find a nonce
+
+        await expect(mining).rejects.toThrow("Mining cancelled: block 1");
+        await expect(mining).rejects.toBeInstanceOf(MiningCancelledError);
+        expect(blockchain.chain.length).toBe(2);
+        expect(blockchain.chain[1]!.hash).toBe(rival.chain[1]!.hash);
+        expect(blockchain.getBalanceOfAddress("alice")).toBe(0);
+    });
+
+    test("should stop mining when the caller aborts", async () => {
+        const blockchain = new Blockchain({ initialDifficulty: 2 ** 40 });
+        const controller = new AbortController();
+        const mining = blockchain.minePendingTransactionsAsync("alice", { workers: 1, signal: controller.signal });
+        controller.abort(new Error("Mining aborted"));
+
+        await expect(mining).rejects.toThrow("Mining aborted");
+        expect(blockchain.chain.length).toBe(1);
+    });
+});
+
+describe("Blockchain (consensus engines)", () => {
+    // The same chain as seen by another validator, sealing with its own key
+    function copyFor(blockchain: Blockchain, signer: KeyPair): Blockchain {
+        return Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)), signer);
+    }
+
+    test("should take turns sealing blocks under proof of authority", () => {
+        const validators = [walletOf("alice").publicKey, walletOf("bob").publicKey];
+        const aliceNode = new Blockchain({ consensus: new ProofOfAuthority(validators, { signer: walletOf("alice") }) });
+        const bobNode = copyFor(aliceNode, walletOf("bob"));
+
+        aliceNode.minePendingTransactions("alice");
+        expect(() => aliceNode.minePendingTransactions("alice")).toThrow("must be sealed by validator");
+        expect(bobNode.addBlock(aliceNode.chain[1]!)).toBe("main");
+        bobNode.minePendingTransactions("bob");
+        expect(aliceNode.addBlock(bobNode.chain[2]!)).toBe("main");
+
+        expect(aliceNode.chain.map(block => block.validator)).toEqual([null, ...validators]);
+        expect(aliceNode.chain.every(block => block.difficulty === 1)).toBe(true);
+        expect(aliceNode.getChainWork()).toBe(3);
+        expect(aliceNode.isChainValid()).toBe(true);
+        expect(aliceNode.toJSON().options.consensus).toEqual({ type: "poa", validators });
+    });
+
+    test("should reject blocks sealed by the wrong validator or with a forged signature", () => {
+        const validators = [walletOf("alice").publicKey, walletOf("bob").publicKey];
+        const blockchain = new Blockchain({ consensus: new ProofOfAuthority(validators) });
+        expect(() => copyFor(blockchain, walletOf("mallory"))).toThrow("Signer is not in the validator set");
+
+        const aliceNode = copyFor(blockchain, walletOf("alice"));
+        aliceNode.minePendingTransactions("alice");
+        const block = Block.fromJSON(aliceNode.chain[1]!.toJSON());
+        block.signature = block.signature!.replace(/^./, char => (char === "0" ? "1" : "0"));
+
+        expect(() => blockchain.addBlock(block)).toThrow("Invalid block: signature of block 1 is missing or invalid");
+        blockchain.chain.push(block);
+        expect(blockchain.validateChain().map(issue => issue.code)).toEqual(["BAD_SEAL"]);
+    });
+
+    test("should let the validator drawn by stake seal each block under proof of stake", () => {
+        const stakes = { [walletOf("alice").publicKey]: 1, [walletOf("bob").publicKey]: 2 };
+        const aliceNode = new Blockchain({ consensus: new ProofOfStake(stakes, { signer: walletOf("alice") }) });
+        const nodes = [aliceNode, copyFor(aliceNode, walletOf("bob"))];
+        const engine = new ProofOfStake(stakes);
+
+        for (let i = 0; i < 5; i++) {
+            const tip = aliceNode.chain[aliceNode.chain.length - 1]!;
+            const drawn = engine.validatorFor(tip.hash, tip.index + 1);
+            const [producer, other] = drawn === walletOf("alice").publicKey ? nodes : [nodes[1]!, nodes[0]!];
+            expect(() => other!.minePendingTransactions("miner")).toThrow("must be sealed by validator");
+            producer!.minePendingTransactions("miner");
+            expect(other!.addBlock(producer!.chain[i + 1]!)).toBe("main");
+        }
+
+        expect(nodes[1]!.chain.map(block => block.hash)).toEqual(aliceNode.chain.map(block => block.hash));
+        expect(aliceNode.isChainValid()).toBe(true);
+        expect(nodes[1]!.isChainValid()).toBe(true);
+    });
+});
+
+describe("Blockchain (events)", () => {
+    test("should announce accepted and rejected transactions", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        const log: string[] = [];
+        blockchain.on("transactionAdded", ({ transaction, blockIndex }) => log.push(`added ${transaction.amount} for block ${blockIndex}`));
+        blockchain.on("transactionRejected", ({ reason }) => log.push(`rejected: ${reason}`));
+
+        send(blockchain, "alice", "bob", 1);
+        expect(() => send(blockchain, "alice", "bob", 5)).toThrow("Insufficient balance");
+        blockchain.minePendingTransactions("miner");  // Re-admitting the rest of the pool isn't announced again
+
+        expect(log.length).toBe(2);
+        expect(log[0]).toBe("added 1 for block 2");
+        expect(log[1]).toStartWith("rejected: Insufficient balance");
+    });
+
+    test("should announce mined and added blocks, and stop after unsubscribing", () => {
+        const blockchain = new Blockchain();
+        const rival = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+        const log: string[] = [];
+        blockchain.on("blockMined", ({ block }) => log.push(`mined ${block.index}`));
+        const unsubscribe = blockchain.on("blockAdded", ({ block }) => log.push(`added ${block.index}`));
+
+        blockchain.minePendingTransactions("miner");
+        rival.minePendingTransactions("miner");
+        rival.minePendingTransactions("miner");
+        blockchain.addBlock(rival.chain[1]!);  // Side branch - not added to the main chain yet
+        blockchain.addBlock(rival.chain[2]!);  // Reorganizes onto the rival branch
+        unsubscribe();
+        blockchain.minePendingTransactions("miner");
+
+        expect(log).toEqual(["added 1", "mined 1", "added 1", "added 2", "mined 3"]);
+    });
+
+    test("should notify an address when it receives funds", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 2);
+        const received: number[] = [];
+        blockchain.on("blockAdded", ({ block }) => {
+            for (const transaction of block.transactions) {
+                if (transaction.toAddress === addressOf("bob")) received.push(transaction.amount);
+            }
+        }, { address: addressOf("bob") });
+
+        blockchain.minePendingTransactions("miner");  // Nothing for bob
+        send(blockchain, "alice", "bob", 2);
+        blockchain.minePendingTransactions("miner");
+
+        expect(received).toEqual([2]);
+    });
+
+    test("should accept a transaction or block even if a listener throws", () => {
+        const blockchain = new Blockchain();
+        const rival = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+        fund(rival, "alice", 1);
+        const errors = spyOn(console, "error").mockImplementation(() => {});
+        blockchain.on("transactionAdded", () => { throw new Error("listener failed"); });
+        blockchain.on("blockAdded", () => { throw new Error("listener failed"); });
+
+        try {
+            expect(blockchain.addBlock(rival.chain[1]!)).toBe("main");
+            expect(() => send(blockchain, "alice", "bob", 1)).not.toThrow();
+            expect(blockchain.getPendingTransactions().length).toBe(1);
+            blockchain.minePendingTransactions("miner");
+            expect(blockchain.chain.length).toBe(3);
+            expect(errors).toHaveBeenCalledTimes(3);
+        } finally {
+            errors.mockRestore();
+        }
+    });
+
+    test("should announce an invalid chain with its issues", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        const reports: number[] = [];
+        blockchain.on("chainInvalidated", ({ issues }) => reports.push(issues.length));
+
+        expect(blockchain.isChainValid()).toBe(true);
+        blockchain.chain[1]!.timestamp++;
+        expect(blockchain.isChainValid()).toBe(false);
+        expect(reports.length).toBe(1);
+        expect(reports[0]).toBeGreaterThan(0);
+    });
+});
+
+describe("Blockchain (UTXO mode)", () => {
+    // Spends every unspent output of a named wallet
+    function spendAll(blockchain: Blockchain, from: string, to: string, amount: number): Transaction {
+        const inputs = blockchain.getUnspentOutputs(addressOf(from)).map(({ txHash, outputIndex }) => ({ txHash, outputIndex }));
+        return transfer(from, to, amount, { inputs });
+    }
+
+    test("should track mining rewards as unspent outputs", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 2);
+
+        const outputs = blockchain.getUnspentOutputs(addressOf("alice"));
+        expect(outputs.length).toBe(2);
+        expect(outputs.every(output => output.amount === 1 && output.outputIndex === 0)).toBe(true);
+        expect(blockchain.getBalanceOfAddress(addressOf("alice"))).toBe(2);
+    });
+
+    test("should spend outputs and return change to the sender", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 3);
+
+        const payment = spendAll(blockchain, "alice", "bob", 2);
+        blockchain.createTransaction(payment);
+        blockchain.minePendingTransactions("miner");
+
+        expect(blockchain.getUnspentOutputs(addressOf("bob"))).toEqual([
+            { txHash: payment.hash, outputIndex: 0, address: addressOf("bob"), amount: 2 }
+        ]);
+        expect(blockchain.getUnspentOutputs(addressOf("alice"))).toEqual([
+            { txHash: payment.hash, outputIndex: 1, address: addressOf("alice"), amount: 1 }
+        ]);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should reject a transaction without inputs", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        expect(() => blockchain.createTransaction(transfer("alice", "bob", 1))).toThrow("has no inputs");
+    });
+
+    test("should reject inputs that don't cover the amount", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        expect(() => blockchain.createTransaction(spendAll(blockchain, "alice", "bob", 2))).toThrow("Insufficient balance");
+    });
+
+    test("should reject spending an output already spent by a pending transaction", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+
+        blockchain.createTransaction(spendAll(blockchain, "alice", "bob", 1));
+        expect(() => blockchain.createTransaction(spendAll(blockchain, "alice", "carol", 1))).toThrow(
+            "is already spent by a pending transaction"
+        );
+    });
+
+    test("should reject spending an output already spent on chain", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const inputs = blockchain.getUnspentOutputs(addressOf("alice")).map(({ txHash, outputIndex }) => ({ txHash, outputIndex }));
+
+        blockchain.createTransaction(transfer("alice", "bob", 1, { inputs }));
+        blockchain.minePendingTransactions("miner");
+        expect(() => blockchain.createTransaction(transfer("alice", "carol", 1, { inputs }))).toThrow("Double spend");
+    });
+
+    test("should reject spending another wallet's outputs", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const inputs = blockchain.getUnspentOutputs(addressOf("alice")).map(({ txHash, outputIndex }) => ({ txHash, outputIndex }));
+
+        expect(() => blockchain.createTransaction(transfer("mallory", "bob", 1, { inputs }))).toThrow("is not owned by");
+    });
+
+    test("should detect a double spend across blocks when validating", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const inputs = blockchain.getUnspentOutputs(addressOf("alice")).map(({ txHash, outputIndex }) => ({ txHash, outputIndex }));
+
+        blockchain.createTransaction(transfer("alice", "bob", 1, { inputs }));
+        blockchain.minePendingTransactions("miner");
+        blockchain.minePendingTransactions("miner");
+
+        // Smuggle a second spend of the same output into the later block
+        const block = blockchain.chain[3]!;
+        const doubleSpend = transfer("alice", "carol", 1, { inputs });
+        block.transactions = [doubleSpend, ...block.transactions];
+        block.hash = block.calculateHash();
+
+        expect(blockchain.isChainValid()).toBe(false);
+        expect(() => blockchain.verifyBalances()).toThrow(`used by transaction ${doubleSpend.hash} is missing or already spent in block 3`);
+    });
+
+    test("should detect a double spend within a single block when validating", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const inputs = blockchain.getUnspentOutputs(addressOf("alice")).map(({ txHash, outputIndex }) => ({ txHash, outputIndex }));
+
+        blockchain.createTransaction(transfer("alice", "bob", 1, { inputs }));
+        blockchain.minePendingTransactions("miner");
+
+        const block = blockchain.chain[2]!;
+        block.transactions = [block.transactions[0], transfer("alice", "carol", 1, { inputs }), ...block.transactions.slice(1)];
+        block.hash = block.calculateHash();
+
+        expect(blockchain.isChainValid()).toBe(false);
+    });
+
+    test("should not expose unspent outputs in account mode", () => {
+        const blockchain = new Blockchain();
+        expect(() => blockchain.getUnspentOutputs("alice")).toThrow("only tracked in UTXO mode");
+    });
+
+    test("should reject inputs in account mode", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        expect(() => {
+            blockchain.createTransaction(transfer("alice", "bob", 1, { inputs: [{ txHash: "abc", outputIndex: 0 }] }));
+        }).toThrow("only supported in UTXO mode");
+    });
+
+    test("should keep the index and unspent outputs consistent with a full scan", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 3);
+        blockchain.createTransaction(spendAll(blockchain, "alice", "bob", 2));
+        blockchain.minePendingTransactions("miner");
+
+        expect(blockchain.getBalanceOfAddress(addressOf("alice"))).toBe(1);
+        expect(() => blockchain.verifyStateConsistency()).not.toThrow();
+
+        blockchain.rebuildState();
+        expect(blockchain.getUnspentOutputs(addressOf("bob")).length).toBe(1);
+        expect(() => blockchain.verifyStateConsistency()).not.toThrow();
+    });
+
+    test("should restore the unspent outputs from JSON", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 2);
+        blockchain.createTransaction(spendAll(blockchain, "alice", "bob", 1));
+        blockchain.minePendingTransactions("miner");
+
+        const restored = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+        expect(restored.getUnspentOutputs(addressOf("alice"))).toEqual(blockchain.getUnspentOutputs(addressOf("alice")));
+        expect(restored.getUnspentOutputs(addressOf("bob"))).toEqual(blockchain.getUnspentOutputs(addressOf("bob")));
+    });
+});
+
+describe("Blockchain (scripts)", () => {
+    // Locks all of a named wallet's funds behind a script and confirms the payment
+    function lock(blockchain: Blockchain, from: string, amount: number, lockingScript: string): Transaction {
+        const inputs = blockchain.getUnspentOutputs(addressOf(from)).map(({ txHash, outputIndex }) => ({ txHash, outputIndex }));
+        const transaction = new Transaction(addressOf(from), scriptAddress(lockingScript), amount, { inputs, lockingScript });
+        transaction.signTransaction(walletOf(from).privateKey);
+        blockchain.createTransaction(transaction);
+        blockchain.minePendingTransactions("miner");
+        return transaction;
+    }
+
+    // Builds a spend of every output locked by a script; unlock supplies each input's unlocking script
+    function spendLocked(blockchain: Blockchain, lockingScript: string, to: string, amount: number,
+        unlock: (transaction: Transaction) => string): Transaction {
+        const from = scriptAddress(lockingScript);
+        const inputs = blockchain.getUnspentOutputs(from).map(({ txHash, outputIndex }) => ({ txHash, outputIndex }));
+        const transaction = new Transaction(from, addressOf(to), amount, { inputs });
+        transaction.inputs.forEach((_, i) => transaction.unlockInput(i, unlock(transaction)));
+        return transaction;
+    }
+
+    // Signs a transaction's hash with the named wallets, for multisig and single-key scripts
+    function signaturesOf(transaction: Transaction, ...names: string[]): string {
+        return names.map(name => signMessage(transaction.hash, walletOf(name).privateKey)).join(" ");
+    }
+
+    const escrow = () => multisigScript(2, ["alice", "bob", "carol"].map(name => walletOf(name).publicKey));
+
+    test("should release a 2-of-3 multisig escrow with two signatures", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 3);
+        const script = escrow();
+        lock(blockchain, "alice", 3, script);
+        expect(blockchain.getUnspentOutputs(scriptAddress(script))).toEqual([
+            expect.objectContaining({ address: scriptAddress(script), amount: 3, lockingScript: script })
+        ]);
+
+        const release = spendLocked(blockchain, script, "dave", 2, transaction => signaturesOf(transaction, "bob", "carol"));
+        blockchain.createTransaction(release);
+        blockchain.minePendingTransactions("miner");
+
+        expect(blockchain.getBalanceOfAddress(addressOf("dave"))).toBe(2);
+        // The change stays in escrow, under the same script
+        expect(blockchain.getUnspentOutputs(scriptAddress(script))).toEqual([
+            { txHash: release.hash, outputIndex: 1, address: scriptAddress(script), amount: 1, lockingScript: script }
+        ]);
+        expect(blockchain.isChainValid()).toBe(true);
+        expect(() => blockchain.verifyStateConsistency()).not.toThrow();
+    });
+
+    test("should not release a multisig escrow with one signature", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const script = escrow();
+        lock(blockchain, "alice", 1, script);
+
+        const release = spendLocked(blockchain, script, "mallory", 1, transaction => signaturesOf(transaction, "alice"));
+        expect(() => blockchain.createTransaction(release)).toThrow("can't be unlocked");
+    });
+
+    test("should detect a confirmed spend whose unlocking script was swapped", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const script = escrow();
+        lock(blockchain, "alice", 1, script);
+        const release = spendLocked(blockchain, script, "dave", 1, transaction => signaturesOf(transaction, "alice", "bob"));
+        blockchain.createTransaction(release);
+        blockchain.minePendingTransactions("miner");
+
+        // Unlocking scripts aren't hashed, so only running the scripts catches this
+        release.unlockInput(0, signaturesOf(release, "alice", "mallory"));
+        expect(blockchain.chain[3]!.isValid()).toBe(true);
+        expect(blockchain.isChainValid()).toBe(false);
+        expect(blockchain.validateChain()[0]).toMatchObject({ code: "INVALID_SPEND", blockIndex: 3, txHash: release.hash });
+    });
+
+    test("should hold a height lock until the chain reaches it", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const script = timeLockScript(blockchain.chain.length + 2, walletOf("bob").publicKey, "height");
+        lock(blockchain, "alice", 1, script);
+
+        const early = spendLocked(blockchain, script, "bob", 1, transaction => signaturesOf(transaction, "bob"));
+        expect(() => blockchain.createTransaction(early)).toThrow("height lock until block 4 has not passed");
+
+        blockchain.minePendingTransactions("miner");
+        blockchain.createTransaction(spendLocked(blockchain, script, "bob", 1, transaction => signaturesOf(transaction, "bob")));
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.getBalanceOfAddress(addressOf("bob"))).toBe(1);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should hold a time lock until it passes", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const script = timeLockScript(Date.now() + 60_000, walletOf("bob").publicKey);
+        lock(blockchain, "alice", 1, script);
+
+        const early = spendLocked(blockchain, script, "bob", 1, transaction => signaturesOf(transaction, "bob"));
+        expect(() => blockchain.createTransaction(early)).toThrow("time lock until");
+    });
+
+    test("should check time locks against the median time past, not a post-dated block", () => {
+        const START = Date.UTC(2024, 0, 1);
+        const clock = new SimulatedClock(START);
+        const blockchain = new Blockchain({ ledger: "utxo", initialDifficulty: 1, clock, maxFutureBlockTime: 3_600_000 });
+        fund(blockchain, "alice", 1);
+        const script = timeLockScript(START + 60_000, walletOf("bob").publicKey);
+        lock(blockchain, "alice", 1, script);
+
+        // Dated past the lock (and within the allowed drift), but the blocks before it aren't
+        const spend = spendLocked(blockchain, script, "bob", 1, transaction => signaturesOf(transaction, "bob"));
+        const early = blockAfter(blockchain.chain[blockchain.chain.length - 1]!, [spend, new Transaction(COINBASE_ADDRESS, "miner", 1)]);
+        early.timestamp = START + 120_000;
+        early.hash = early.calculateHash();
+        expect(() => blockchain.addBlock(early)).toThrow("time lock until");
+
+        // Once most of the recent blocks are past the lock, so is the median
+        clock.advance(60_000);
+        while (blockchain.chain.length < 8) {
+            blockchain.minePendingTransactions("miner");
+        }
+        blockchain.createTransaction(spend);
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.getBalanceOfAddress(addressOf("bob"))).toBe(1);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should release a hash lock to whoever knows the secret", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const script = hashLockScript(hashSecret("42"));
+        lock(blockchain, "alice", 1, script);
+
+        expect(() => blockchain.createTransaction(spendLocked(blockchain, script, "bob", 1, () => "41"))).toThrow("can't be unlocked");
+        blockchain.createTransaction(spendLocked(blockchain, script, "bob", 1, () => "42"));
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.getBalanceOfAddress(addressOf("bob"))).toBe(1);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should keep locking scripts when restoring from JSON", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        fund(blockchain, "alice", 1);
+        const script = escrow();
+        lock(blockchain, "alice", 1, script);
+
+        const restored = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+        expect(restored.getUnspentOutputs(scriptAddress(script))).toEqual(blockchain.getUnspentOutputs(scriptAddress(script)));
+    });
+
+    test("should reject locking scripts in account mode", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        const script = escrow();
+        const transaction = new Transaction(addressOf("alice"), scriptAddress(script), 1, { sequence: 0, lockingScript: script });
+        transaction.signTransaction(walletOf("alice").privateKey);
+        expect(() => blockchain.createTransaction(transaction)).toThrow("Locking scripts are only supported in UTXO mode");
+    });
+});
+
+describe("Blockchain (chain config)", () => {
+    const GENESIS_TIME = Date.UTC(2024, 0, 1);
+
+    // Network parameters that give every chain created from them the same genesis block
+    function testnet(allocations: Record<string, number> = {}) {
+        return { networkId: "testnet", genesisTimestamp: GENESIS_TIME, initialDifficulty: 1, allocations };
+    }
+
+    test("should derive the same genesis block on every node with the same config", () => {
+        const a = new Blockchain(testnet({ [addressOf("alice")]: 10 }));
+        const b = new Blockchain(testnet({ [addressOf("alice")]: 10 }));
+        expect(b.chain[0]!.hash).toBe(a.chain[0]!.hash);
+
+        // So blocks mined on one connect on the other
+        a.minePendingTransactions("miner");
+        expect(b.addBlock(Block.fromJSON(a.chain[1]!.toJSON()))).toBe("main");
+        expect(new Blockchain(testnet()).chain[0]!.hash).not.toBe(a.chain[0]!.hash);
+    });
+
+    test("should credit genesis allocations in account mode", () => {
+        const blockchain = new Blockchain(testnet({ [addressOf("alice")]: 10, [addressOf("bob")]: 5 }));
+        expect(blockchain.getBalanceOfAddress(addressOf("alice"))).toBe(10);
+        expect(blockchain.getIssuedSupply()).toBe(15);
+
+        send(blockchain, "alice", "carol", 4);
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.getBalanceOfAddress(addressOf("carol"))).toBe(4);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should create spendable outputs for genesis allocations in UTXO mode", () => {
+        const blockchain = new Blockchain({ ...testnet({ [addressOf("alice")]: 10 }), ledger: "utxo" });
+        const inputs = blockchain.getUnspentOutputs(addressOf("alice")).map(({ txHash, outputIndex }) => ({ txHash, outputIndex }));
+        expect(inputs.length).toBe(1);
+
+        blockchain.createTransaction(transfer("alice", "bob", 4, { inputs }));
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.getBalanceOfAddress(addressOf("alice"))).toBe(6);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should check the genesis block against the config", () => {
+        const blockchain = new Blockchain(testnet({ [addressOf("alice")]: 10 }));
+        const forged = new Blockchain(testnet({ [addressOf("alice")]: 1000 })).chain[0]!;
+        blockchain.chain[0] = forged;
+
+        expect(blockchain.isChainValid()).toBe(false);
+        expect(blockchain.validateChain()[0]).toMatchObject({
+            code: "BAD_GENESIS",
+            message: `genesis block Merkle root should be ${new Blockchain(testnet({ [addressOf("alice")]: 10 })).chain[0]!.merkleRoot} but is ${forged.merkleRoot}`
+        });
+    });
+
+    test("should keep its config through JSON", () => {
+        const blockchain = new Blockchain(testnet({ [addressOf("alice")]: 10 }));
+        blockchain.minePendingTransactions("miner");
+
+        const restored = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+        expect(restored.getConfig()).toEqual(blockchain.getConfig());
+        expect(restored.chain[0]!.hash).toBe(blockchain.chain[0]!.hash);
+    });
+
+    test("should load older JSON without network parameters", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1 });
+        blockchain.minePendingTransactions("miner");
+
+        const { networkId, genesisTimestamp, allocations, ...options } = blockchain.toJSON().options;
+        const restored = Blockchain.fromJSON({ ...blockchain.toJSON(), options: options as any });
+        expect(restored.getConfig().genesisTimestamp).toBe(blockchain.chain[0]!.timestamp);
+        expect(restored.isChainValid()).toBe(true);
+    });
+});
+
+describe("Blockchain (clock)", () => {
+    const START = Date.UTC(2024, 0, 1);
+
+    // Runs the same script of mining and payments on a fresh chain
+    function replay(seed: string): Blockchain {
+        const blockchain = new Blockchain({ initialDifficulty: 1, clock: new SimulatedClock(START, 1_000), nonces: new SeededNonceSource(seed) });
+        const alice = new Wallet("11".repeat(32));
+        const bob = new Wallet("22".repeat(32));
+        blockchain.minePendingTransactions(alice.address);
+        blockchain.minePendingTransactions(alice.address);
+        blockchain.createTransaction(alice.createTransaction(blockchain, bob.address, 1));
+        blockchain.minePendingTransactions(bob.address);
+        return blockchain;
+    }
+
+    test("should build byte-identical chains from the same clock and seed", () => {
+        const a = replay("replay");
+        const b = replay("replay");
+        expect(JSON.stringify(b.toJSON())).toBe(JSON.stringify(a.toJSON()));
+        expect(a.chain[0]!.timestamp).toBe(START);
+        expect(a.chain[3]!.timestamp).toBeGreaterThan(a.chain[2]!.timestamp);
+        expect(replay("other").chain[1]!.hash).not.toBe(a.chain[1]!.hash);
+    });
+
+    test("should expire pending transactions by the chain's clock", () => {
+        const clock = new SimulatedClock(START);
+        const blockchain = new Blockchain({ initialDifficulty: 1, pendingExpiry: 60_000, clock });
+        const alice = new Wallet("11".repeat(32));
+        blockchain.minePendingTransactions(alice.address);
+        blockchain.createTransaction(alice.createTransaction(blockchain, addressOf("bob"), 1));
+
+        clock.advance(60_001);
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.chain[2]!.transactions.length).toBe(1);  // Just the reward
+        expect(blockchain.getPendingTransactions()).toEqual([]);
+    });
+
+    test("should keep the clock and nonces of a chain rebuilt from JSON", () => {
+        const original = replay("replay");
+        const clock = new SimulatedClock(START + 60_000);
+        const restored = Blockchain.fromJSON(original.toJSON(), undefined, { clock, nonces: new SeededNonceSource("replay") });
+        expect(restored.getClock()).toBe(clock);
+        restored.minePendingTransactions("miner");
+        expect(restored.chain[4]!.timestamp).toBe(START + 60_000);
+    });
+
+    test("should load a chain whose saved pending transactions have since expired", () => {
+        const clock = new SimulatedClock(1_000_000);
+        const blockchain = new Blockchain({ clock, pendingExpiry: 60_000 });
+        blockchain.minePendingTransactions(addressOf("alice"));
+        send(blockchain, "alice", "bob", 1, { clock });
+        const data = JSON.parse(JSON.stringify(blockchain));
+
+        clock.advance(60_001);
+        const loaded = Blockchain.fromJSON(data, undefined, { clock });
+        expect(loaded.getPendingTransactions()).toEqual([]);
+        expect(loaded.chain.length).toBe(2);
+        loaded.minePendingTransactions("miner");
+        expect(loaded.isChainValid()).toBe(true);
+    });
+});
+
+describe("Blockchain (timestamps)", () => {
+    const START = Date.UTC(2024, 0, 1);
+
+    // Builds the next block on the main chain with the given timestamp (difficulty 1, so any hash meets it)
+    function blockAt(blockchain: Blockchain, timestamp: number): Block {
+        const block = blockAfter(blockchain.chain[blockchain.chain.length - 1]!, [new Transaction(COINBASE_ADDRESS, "miner", 1)]);
+        block.timestamp = timestamp;
+        block.hash = block.calculateHash();
+        return block;
+    }
+
+    test("should date mined blocks after the median even when the clock stands still", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1, clock: new SimulatedClock(START) });
+        fund(blockchain, "alice", 3);
+        // Each block only has to pass the median of those before it, not its parent
+        expect(blockchain.chain.map(block => block.timestamp)).toEqual([START, START + 1, START + 2, START + 2]);
+        expect(blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should reject a block that isn't later than the median of the blocks before it", () => {
+        const clock = new SimulatedClock(START);
+        const blockchain = new Blockchain({ initialDifficulty: 1, clock });
+        for (let i = 0; i < 3; i++) {
+            clock.advance(1_000);
+            blockchain.minePendingTransactions("miner");
+        }
+
+        // Median of START, +1s, +2s and +3s is START + 2s - a block at that time is too early, one after it is fine
+        expect(() => blockchain.addBlock(blockAt(blockchain, START + 2_000))).toThrow("is not later than the median");
+        expect(blockchain.addBlock(blockAt(blockchain, START + 2_001))).toBe("main");
+
+        blockchain.chain[4]!.timestamp = START;
+        blockchain.chain[4]!.hash = blockchain.chain[4]!.calculateHash();
+        const [issue] = blockchain.validateChain().filter(issue => issue.code === "BAD_TIMESTAMP");
+        expect(issue).toMatchObject({ blockIndex: 4, expected: START + 2_000, actual: START });
+    });
+
+    test("should reject a block dated too far ahead of the clock", () => {
+        const clock = new SimulatedClock(START);
+        const blockchain = new Blockchain({ initialDifficulty: 1, clock, maxFutureBlockTime: 60_000 });
+
+        expect(() => blockchain.addBlock(blockAt(blockchain, START + 60_001))).toThrow("is more than 60000ms in the future");
+        expect(blockchain.addBlock(blockAt(blockchain, START + 60_000))).toBe("main");
+
+        // Once the clock catches up the block is no longer in the future
+        const [issue] = blockchain.validateChain();
+        expect(issue).toBeUndefined();
+        blockchain.chain[1]!.timestamp = START + 120_000;
+        blockchain.chain[1]!.hash = blockchain.chain[1]!.calculateHash();
+        expect(blockchain.validateChain().map(issue => issue.code)).toContain("BAD_TIMESTAMP");
+    });
+});
+
+describe("Blockchain (encoding versions)", () => {
+    const LEGACY = LEGACY_ENCODING_VERSION;
+
+    // Builds a block paying the mining reward to alice, hashed with the given encoding
+    function rewardBlock(parent: Block, version: number, transactionVersion: number = version): Block {
+        const reward = new Transaction(COINBASE_ADDRESS, addressOf("alice"), 1, { version: transactionVersion });
+        const block = blockAfter(parent, [reward]);
+        block.version = version;
+        block.hash = block.calculateHash();
+        return block;
+    }
+
+    // JSON of a chain saved before encoding versions existed: a legacy genesis block and one mined block, with no version fields
+    function legacyChainData(): BlockchainJSON {
+        const data = new Blockchain({ initialDifficulty: 1, genesisTimestamp: Date.UTC(2024, 0, 1) }).toJSON();
+        const genesis = createGenesisBlock({ ...data.options, allocations: {} }, LEGACY);
+        const chain = [genesis, rewardBlock(genesis, LEGACY)].map(block => {
+            const { version, ...json } = block.toJSON();
+            return { ...json, transactions: json.transactions.map(({ version, ...transaction }) => transaction) };
+        });
+        return { ...data, chain };
+    }
+
+    test("should keep verifying a chain hashed the old way and continue it in the current encoding", () => {
+        const blockchain = Blockchain.fromJSON(legacyChainData());
+        expect(blockchain.chain.map(block => block.version)).toEqual([LEGACY, LEGACY]);
+        expect(blockchain.getBalanceOfAddress(addressOf("alice"))).toBe(1);
+
+        blockchain.minePendingTransactions(addressOf("alice"));
+        expect(blockchain.chain[2]!.version).toBe(ENCODING_VERSION);
+        expect(blockchain.validateChain()).toEqual([]);
+        expect(Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain))).chain.map(block => block.hash))
+            .toEqual(blockchain.chain.map(block => block.hash));
+    });
+
+    test("should reject blocks that go back to an older encoding or mix encodings", () => {
+        const blockchain = Blockchain.fromJSON(legacyChainData());
+        blockchain.minePendingTransactions(addressOf("alice"));
+        const tip = blockchain.chain[2]!;
+
+        expect(() => blockchain.addBlock(rewardBlock(tip, LEGACY))).toThrow("block 3 uses encoding version 0 after version 1");
+        expect(() => blockchain.addBlock(rewardBlock(tip, ENCODING_VERSION, LEGACY))).toThrow("in block 3 uses encoding version 0");
+
+        blockchain.chain.push(rewardBlock(tip, ENCODING_VERSION, LEGACY));
+        expect(blockchain.validateChain().map(issue => issue.code)).toEqual(["BAD_VERSION"]);
+    });
+
+    test("should only admit transactions in the current encoding", () => {
+        const blockchain = new Blockchain({ initialDifficulty: 1 });
+        fund(blockchain, "alice", 1);
+        const legacy = transfer("alice", "bob", 1, { sequence: 0, version: LEGACY });
+        expect(() => blockchain.createTransaction(legacy)).toThrow(`Transaction ${legacy.hash} uses encoding version 0: rebuild and sign it again`);
+
+        // One left pending in saved data is dropped when the chain is loaded
+        const data = blockchain.toJSON();
+        const loaded = Blockchain.fromJSON({ ...data, pendingTransactions: [legacy.toJSON()] });
+        expect(loaded.getPendingTransactions()).toEqual([]);
+    });
+});
+
+describe("Blockchain (explorer queries)", () => {
+    test("should look up main-chain blocks by hash and by range", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 3);
+
+        expect(blockchain.getBlockByHash(blockchain.chain[2]!.hash)).toBe(blockchain.chain[2]!);
+        expect(blockchain.getBlockByHash("unknown")).toBeNull();
+        expect(blockchain.getBlocksInRange(1, 2)).toEqual(blockchain.chain.slice(1, 3));
+        expect(blockchain.getBlocksInRange(2, 99)).toEqual(blockchain.chain.slice(2));
+        expect(blockchain.getBlocksInRange(9, 12)).toEqual([]);
+        expect(() => blockchain.getBlocksInRange(2, 1)).toThrow("Block range");
+        expect(() => blockchain.getBlocksInRange(-1, 1)).toThrow("Block range");
+    });
+
+    test("should report a transaction's block and confirmations", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        const payment = send(blockchain, "alice", "bob", 1);
+        expect(blockchain.getTransaction(payment.hash)).toEqual({ transaction: payment, block: null, confirmations: 0 });
+
+        blockchain.minePendingTransactions("miner");
+        fund(blockchain, "alice", 2);
+        const found = blockchain.getTransaction(payment.hash)!;
+        expect(found.block).toBe(blockchain.chain[2]!);
+        expect(found.confirmations).toBe(3);
+        expect(blockchain.getTransaction("unknown")).toBeNull();
+    });
+
+    test("should page an address's history with running balances", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 3);
+        send(blockchain, "alice", "bob", 2, { fee: 0.5 });
+        blockchain.minePendingTransactions("miner");
+
+        const first = blockchain.getAddressHistory(addressOf("alice"), { limit: 2 });
+        expect(first.entries.map(entry => [entry.blockIndex, entry.change, entry.balance])).toEqual([[4, -2.5, 0.5], [3, 1, 3]]);
+        const rest = blockchain.getAddressHistory(addressOf("alice"), { cursor: first.nextCursor, limit: 2 });
+        expect(rest.entries.map(entry => entry.balance)).toEqual([2, 1]);
+        expect(rest.nextCursor).toBeNull();
+
+        expect(blockchain.getAddressHistory(addressOf("bob")).entries.map(entry => entry.balance)).toEqual([2]);
+        expect(() => blockchain.getAddressHistory(addressOf("alice"), { limit: 0 })).toThrow("positive integer");
+    });
+
+    test("should keep the indexes in step with a reorganization", () => {
+        const blockchain = new Blockchain();
+        fund(blockchain, "alice", 1);
+        const rival = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+
+        const payment = send(blockchain, "alice", "bob", 1);
+        blockchain.minePendingTransactions("miner1");
+        const displaced = blockchain.chain[2]!;
+        const newest = blockchain.getAddressHistory(addressOf("alice"), { limit: 1 });
+        expect(newest.entries[0]!.transaction).toBe(payment);
+
+        rival.minePendingTransactions("miner2");
+        rival.minePendingTransactions("miner2");
+        blockchain.addBlock(rival.chain[2]!);
+        blockchain.addBlock(rival.chain[3]!);
+
+        expect(blockchain.getBlockByHash(displaced.hash)).toBeNull();
+        expect(blockchain.getBlockByHash(rival.chain[3]!.hash)).toBe(blockchain.chain[3]!);
+        expect(blockchain.getTransaction(payment.hash)!.confirmations).toBe(0);
+        expect(blockchain.getAddressHistory("miner1").entries).toEqual([]);
+        expect(blockchain.getAddressHistory("miner2").entries.map(entry => entry.balance)).toEqual([2, 1]);
+        expect(blockchain.getAddressHistory(addressOf("bob")).entries).toEqual([]);
+
+        // The cursor points below the fork, so it still leads to the same older entries
+        const older = blockchain.getAddressHistory(addressOf("alice"), { cursor: newest.nextCursor });
+        expect(older.entries.map(entry => entry.balance)).toEqual([1]);
     });
-}); 
\ No newline at end of file
+});
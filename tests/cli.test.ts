@@ -0,0 +1,199 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runCli, type CliInput } from "../src/cli";
+import { Block } from "../src/block";
+
+const PASSWORD = "correct horse battery staple";
+const input: CliInput = { env: { KEYSTORE_PASSWORD: PASSWORD }, promptPassword: () => null };
+
+const directories: string[] = [];
+
+// Creates a fresh directory that is removed after the test
+function tempDirectory(): string {
+    const directory = mkdtempSync(join(tmpdir(), "blockchain-cli-"));
+    directories.push(directory);
+    return directory;
+}
+
+afterEach(() => {
+    for (const directory of directories.splice(0)) {
+        rmSync(directory, { recursive: true, force: true });
+    }
+});
+
+// Runs the CLI against a chain file, capturing what it prints
+function run(chainPath: string, ...args: string[]): { code: number; out: string; err: string } {
+    return runWith(input, chainPath, ...args);
+}
+
+// Runs the CLI with keystore passwords read from the given input
+function runWith(cliInput: CliInput, chainPath: string, ...args: string[]): { code: number; out: string; err: string } {
+    const out: string[] = [];
+    const err: string[] = [];
+    const code = runCli([...args, "--chain", chainPath], {
+        log: line => out.push(line),
+        error: line => err.push(line)
+    }, cliInput);
+    return { code, out: out.join("\n"), err: err.join("\n") };
+}
+
+// Runs a command with --json and parses its output
+function runJson(chainPath: string, ...args: string[]): any {
+    const result = run(chainPath, ...args, "--json");
+    expect(result.code).toBe(0);
+    return JSON.parse(result.out);
+}
+
+describe("CLI", () => {
+    test("should send, mine and report balances against a chain file", () => {
+        const directory = tempDirectory();
+        const chainPath = join(directory, "chain.json");
+        expect(run(chainPath, "init").code).toBe(0);
+
+        const alice = runJson(chainPath, "keygen", join(directory, "alice.json"));
+        runJson(chainPath, "mine", alice.address);
+        runJson(chainPath, "mine", alice.address);
+
+        const sent = runJson(chainPath, "send", alice.keystore, "bob", "1.5");
+        expect(sent.blockIndex).toBe(3);
+        const block = runJson(chainPath, "mine", "miner");
+        expect(block.transactions.map((transaction: any) => transaction.hash)).toContain(sent.hash);
+
+        expect(runJson(chainPath, "balance", alice.address)).toEqual({ address: alice.address, balance: 0.5 });
+        expect(run(chainPath, "balance", "bob").out).toBe("bob: 1.5");
+        expect(runJson(chainPath, "show-block", "3").hash).toBe(block.hash);
+        expect(run(chainPath, "show-block", block.hash).out).toContain(`Block 3`);
+        expect(runJson(chainPath, "validate")).toEqual({ valid: true, height: 4, issues: [] });
+    });
+
+    test("should pick unspent outputs automatically in UTXO mode", () => {
+        const directory = tempDirectory();
+        const chainPath = join(directory, "chain.json");
+        run(chainPath, "init", "--ledger", "utxo");
+        const alice = runJson(chainPath, "keygen", join(directory, "alice.json"));
+        runJson(chainPath, "mine", alice.address);
+        runJson(chainPath, "mine", alice.address);
+
+        runJson(chainPath, "send", alice.keystore, "bob", "1.5");
+        runJson(chainPath, "mine", "miner");
+        expect(runJson(chainPath, "balance", alice.address).balance).toBe(0.5);
+        expect(runJson(chainPath, "balance", "bob").balance).toBe(1.5);
+    });
+
+    test("should exit non-zero when a transaction is rejected", () => {
+        const directory = tempDirectory();
+        const chainPath = join(directory, "chain.json");
+        run(chainPath, "init");
+        const alice = runJson(chainPath, "keygen", join(directory, "alice.json"));
+
+        const result = run(chainPath, "send", alice.keystore, "bob", "1");
+        expect(result.code).toBe(1);
+        expect(result.err).toContain("Insufficient balance");
+    });
+
+    test("should keep the private key out of keystore output and refuse to overwrite a keystore", () => {
+        const directory = tempDirectory();
+        const chainPath = join(directory, "chain.json");
+        const keystorePath = join(directory, "alice.json");
+
+        const alice = runJson(chainPath, "keygen", keystorePath);
+        expect(alice.privateKey).toBeUndefined();
+        expect(run(chainPath, "keygen", keystorePath).code).toBe(1);
+    });
+
+    test("should not send without the keystore's password", () => {
+        const directory = tempDirectory();
+        const chainPath = join(directory, "chain.json");
+        run(chainPath, "init");
+        const alice = runJson(chainPath, "keygen", join(directory, "alice.json"));
+        runJson(chainPath, "mine", alice.address);
+        runJson(chainPath, "mine", alice.address);
+
+        const wrongPassword = runWith({ env: { KEYSTORE_PASSWORD: "wrong" }, promptPassword: () => null },
+            chainPath, "send", alice.keystore, "bob", "1");
+        expect(wrongPassword.code).toBe(1);
+
+        const noPassword = runWith({ env: {}, promptPassword: () => null }, chainPath, "send", alice.keystore, "bob", "1");
+        expect(noPassword.code).toBe(1);
+        expect(noPassword.err).toContain("KEYSTORE_PASSWORD");
+
+        const prompted = runWith({ env: {}, promptPassword: () => PASSWORD }, chainPath, "send", alice.keystore, "bob", "1");
+        expect(prompted.code).toBe(0);
+        expect(runJson(chainPath, "validate").valid).toBe(true);
+    });
+
+    test("should exit non-zero for a tampered chain file", () => {
+        const chainPath = join(tempDirectory(), "chain.json");
+        run(chainPath, "init");
+        runJson(chainPath, "mine", "miner");
+
+        const data = JSON.parse(readFileSync(chainPath, "utf8"));
+        data.chain[1].transactions[0].amount = 100;
+        writeFileSync(chainPath, JSON.stringify(data));
+
+        const result = run(chainPath, "validate", "--json");
+        expect(result.code).toBe(1);
+        expect(JSON.parse(result.err).valid).toBe(false);
+    });
+
+    test("should list every issue of a tampered chain file, not just the first", () => {
+        const chainPath = join(tempDirectory(), "chain.json");
+        run(chainPath, "init");
+        runJson(chainPath, "mine", "miner");
+        runJson(chainPath, "mine", "miner");
+
+        // Backdate block 1 and re-hash it, so the file still loads but breaks more than one rule
+        const data = JSON.parse(readFileSync(chainPath, "utf8"));
+        const block = Block.fromJSON(data.chain[1]);
+        block.timestamp = 0;
+        block.hash = block.calculateHash();
+        data.chain[1] = block.toJSON();
+        writeFileSync(chainPath, JSON.stringify(data));
+
+        const result = run(chainPath, "validate", "--json");
+        expect(result.code).toBe(1);
+        const { valid, issues } = JSON.parse(result.err);
+        expect(valid).toBe(false);
+        const codes = new Set(issues.map((issue: { code: string }) => issue.code));
+        expect(codes.size).toBeGreaterThan(1);
+
+        const text = run(chainPath, "validate").err;
+        expect(text).toStartWith("Chain is invalid:");
+        for (const code of codes) {
+            expect(text).toContain(`${code} (block `);
+        }
+    });
+
+    test("should export and import a chain", () => {
+        const directory = tempDirectory();
+        const chainPath = join(directory, "chain.json");
+        const exportPath = join(directory, "export.json");
+        run(chainPath, "init");
+        runJson(chainPath, "mine", "miner");
+        expect(run(chainPath, "export", exportPath).code).toBe(0);
+
+        const copyPath = join(directory, "copy.json");
+        expect(runJson(copyPath, "import", exportPath)).toEqual({ chain: copyPath, height: 2 });
+        expect(runJson(copyPath, "balance", "miner").balance).toBe(1);
+
+        // export without a file prints the chain
+        expect(JSON.parse(run(copyPath, "export").out).chain.length).toBe(2);
+    });
+
+    test("should refuse to overwrite a chain without --force", () => {
+        const chainPath = join(tempDirectory(), "chain.json");
+        run(chainPath, "init");
+        expect(run(chainPath, "init").code).toBe(1);
+        expect(run(chainPath, "init", "--force").code).toBe(0);
+    });
+
+    test("should report usage errors with exit code 2", () => {
+        const chainPath = join(tempDirectory(), "chain.json");
+        expect(run(chainPath, "frobnicate").code).toBe(2);
+        expect(run(chainPath, "send", "key").code).toBe(2);
+        expect(run(chainPath, "balance", "bob", "--bogus").code).toBe(2);
+        expect(run(chainPath, "balance", "bob").err).toContain("No chain file at");
+    });
+});
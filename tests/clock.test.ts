@@ -0,0 +1,30 @@
+import { describe, test, expect } from "bun:test";
+import { SeededNonceSource, SimulatedClock } from "../src/clock";
+
+describe("Clock", () => {
+    test("should step a simulated clock after every reading", () => {
+        const clock = new SimulatedClock(1_000, 10);
+        expect([clock.now(), clock.now(), clock.now()]).toEqual([1_000, 1_010, 1_020]);
+
+        const still = new SimulatedClock(5);
+        expect([still.now(), still.now()]).toEqual([5, 5]);
+    });
+
+    test("should only move a simulated clock forward", () => {
+        const clock = new SimulatedClock(1_000);
+        clock.advance(500);
+        expect(clock.now()).toBe(1_500);
+        expect(() => clock.advance(-1)).toThrow("A clock can't move backwards");
+        expect(() => new SimulatedClock(-1)).toThrow("Clock start and step must be non-negative integers");
+        expect(() => new SimulatedClock(0, 0.5)).toThrow("Clock start and step must be non-negative integers");
+    });
+
+    test("should give the same nonces for the same seed", () => {
+        const a = new SeededNonceSource("seed");
+        const b = new SeededNonceSource("seed");
+        const sequence = [a.next(), a.next(), a.next()];
+        expect([b.next(), b.next(), b.next()]).toEqual(sequence);
+        expect(new Set(sequence).size).toBe(3);
+        expect(new SeededNonceSource("other").next()).not.toBe(sequence[0]);
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, test, expect } from "bun:test";
+import { allocatedSupply, createGenesisBlock, resolveChainConfig, type ChainConfig } from "../src/config";
+import { COINBASE_ADDRESS } from "../src/transaction";
+
+const GENESIS_TIME = Date.UTC(2024, 0, 1);
+
+// A complete config with two premined addresses
+function config(overrides: Partial<ChainConfig> = {}): ChainConfig {
+    return resolveChainConfig({ networkId: "testnet", genesisTimestamp: GENESIS_TIME, allocations: { bob: 5, alice: 10 }, ...overrides }, 0);
+}
+
+describe("Chain config", () => {
+    test("should fill in defaults for anything left out", () => {
+        expect(resolveChainConfig({}, 1234)).toEqual({
+            networkId: "",
+            genesisTimestamp: 1234,
+            allocations: {},
+            initialDifficulty: 256,
+            targetBlockTime: 10_000,
+            retargetInterval: 10,
+            maxFutureBlockTime: 10_000,
+            initialReward: 1,
+            halvingInterval: 210_000,
+            maxSupply: 420_000,
+            maxBlockTransactions: 1000,
+            maxBlockBytes: 1_000_000
+        });
+    });
+
+    test("should reject invalid parameters", () => {
+        expect(() => config({ genesisTimestamp: -1 })).toThrow("genesis timestamp a non-negative integer");
+        expect(() => config({ allocations: { alice: 0 } })).toThrow("Genesis allocations must pay positive amounts");
+        expect(() => config({ allocations: { [COINBASE_ADDRESS]: 1 } })).toThrow("Genesis allocations must pay positive amounts");
+        expect(() => config({ maxFutureBlockTime: -1 })).toThrow("Maximum future block time must be a non-negative integer");
+        expect(() => config({ maxBlockBytes: 0 })).toThrow("Block limits must be positive integers");
+        expect(() => config({ initialReward: 0 })).toThrow("Initial reward must be positive");
+    });
+
+    test("should build the same genesis block from the same config", () => {
+        const a = createGenesisBlock(config());
+        const b = createGenesisBlock(config({ allocations: { alice: 10, bob: 5 } }));
+        expect(b.hash).toBe(a.hash);
+        expect(a.timestamp).toBe(GENESIS_TIME);
+        expect(a.transactions.map(transaction => [transaction.fromAddress, transaction.toAddress, transaction.amount])).toEqual([
+            [COINBASE_ADDRESS, "alice", 10],
+            [COINBASE_ADDRESS, "bob", 5]
+        ]);
+    });
+
+    test("should give each network, time and allocation set its own genesis block", () => {
+        const hash = createGenesisBlock(config()).hash;
+        expect(createGenesisBlock(config({ networkId: "mainnet" })).hash).not.toBe(hash);
+        expect(createGenesisBlock(config({ genesisTimestamp: GENESIS_TIME + 1 })).hash).not.toBe(hash);
+        expect(createGenesisBlock(config({ allocations: { alice: 10 } })).hash).not.toBe(hash);
+    });
+
+    test("should keep the original previous hash on the default network", () => {
+        expect(createGenesisBlock(config({ networkId: "" })).previousHash).toBe("0");
+        expect(createGenesisBlock(config()).previousHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    test("should total the premined supply", () => {
+        expect(allocatedSupply(config())).toBe(15);
+    });
+});
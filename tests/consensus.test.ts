@@ -0,0 +1,121 @@
+import { describe, test, expect } from "bun:test";
+import { Block } from "../src/block";
+import { createConsensus, ProofOfAuthority, ProofOfStake, ProofOfWork, UnauthorizedSealerError } from "../src/consensus";
+import { generateKeyPair } from "../src/crypto";
+
+const alice = generateKeyPair();
+const bob = generateKeyPair();
+const carol = generateKeyPair();
+
+describe("ProofOfWork", () => {
+    test("should seal a block with a hash that meets its difficulty", () => {
+        const engine = new ProofOfWork();
+        const block = new Block(1, "0", [], 0, 256);
+        engine.seal(block);
+
+        expect(block.hasValidProofOfWork()).toBe(true);
+        expect(engine.verifySeal(block)).toEqual([]);
+        expect(engine.blockWork(block)).toBe(256);
+    });
+
+    test("should report a hash that misses the target", () => {
+        const block = new Block(1, "0", [], 0, 2 ** 40);
+        const [issue] = new ProofOfWork().verifySeal(block);
+        expect(issue?.code).toBe("INSUFFICIENT_WORK");
+        expect(issue?.actual).toBe(block.hash);
+    });
+});
+
+describe("ProofOfAuthority", () => {
+    test("should give validators round-robin turns", () => {
+        const engine = new ProofOfAuthority([alice.publicKey, bob.publicKey]);
+        expect([1, 2, 3, 4].map(index => engine.validatorFor(index)))
+            .toEqual([alice.publicKey, bob.publicKey, alice.publicKey, bob.publicKey]);
+    });
+
+    test("should only let the validator whose turn it is seal a block", () => {
+        const engine = new ProofOfAuthority([alice.publicKey, bob.publicKey], { signer: alice });
+        const block = new Block(1, "0", [], 0);
+        engine.seal(block);
+
+        expect(block.validator).toBe(alice.publicKey);
+        expect(block.hash).toBe(block.calculateHash());
+        expect(engine.verifySeal(block)).toEqual([]);
+        expect(() => engine.seal(new Block(2, block.hash, [], 0))).toThrow(`Block 2 must be sealed by validator ${bob.publicKey}`);
+        expect(() => engine.seal(new Block(2, block.hash, [], 0))).toThrow(UnauthorizedSealerError);
+        expect(() => new ProofOfAuthority([alice.publicKey]).seal(new Block(1, "0", [], 0))).toThrow("validator key is required");
+    });
+
+    test("should reject blocks from the wrong validator or with a bad signature", () => {
+        const engine = new ProofOfAuthority([alice.publicKey, bob.publicKey], { signer: alice });
+        const block = new Block(1, "0", [], 0);
+        engine.seal(block);
+
+        // Bob signs a block in Alice's turn
+        const outOfTurn = new Block(1, "0", [], 0);
+        new ProofOfAuthority([bob.publicKey], { signer: bob }).seal(outOfTurn);
+        expect(engine.verifySeal(outOfTurn)).toEqual([{
+            code: "BAD_SEAL",
+            message: `block 1 must be sealed by validator ${alice.publicKey}`,
+            blockIndex: 1,
+            txHash: null,
+            expected: alice.publicKey,
+            actual: bob.publicKey
+        }]);
+
+        block.signature = outOfTurn.signature;
+        expect(engine.verifySeal(block)[0]?.message).toBe("signature of block 1 is missing or invalid");
+        block.signature = null;
+        expect(engine.verifySeal(block)[0]?.code).toBe("BAD_SEAL");
+    });
+
+    test("should reject a malformed validator set", () => {
+        expect(() => new ProofOfAuthority([])).toThrow("non-empty list of distinct public keys");
+        expect(() => new ProofOfAuthority([alice.publicKey, alice.publicKey])).toThrow("distinct");
+        expect(() => new ProofOfAuthority(["not-a-key"])).toThrow("public keys");
+        expect(() => new ProofOfAuthority([alice.publicKey], { signer: bob })).toThrow("Signer is not in the validator set");
+    });
+});
+
+describe("ProofOfStake", () => {
+    test("should draw validators deterministically, weighted by stake", () => {
+        const engine = new ProofOfStake({ [alice.publicKey]: 1, [bob.publicKey]: 3 });
+        const reordered = new ProofOfStake({ [bob.publicKey]: 3, [alice.publicKey]: 1 });
+
+        let bobDraws = 0;
+        for (let index = 1; index <= 400; index++) {
+            const validator = engine.validatorFor("parent", index);
+            expect(reordered.validatorFor("parent", index)).toBe(validator);
+            if (validator === bob.publicKey) bobDraws++;
+        }
+        expect(bobDraws).toBeGreaterThan(240);  // Expected 300
+        expect(bobDraws).toBeLessThan(360);
+    });
+
+    test("should only let the drawn validator seal a block", () => {
+        const stakes = { [alice.publicKey]: 1, [bob.publicKey]: 1 };
+        const engines = [new ProofOfStake(stakes, { signer: alice }), new ProofOfStake(stakes, { signer: bob })];
+        const block = new Block(1, "0", [], 0);
+        const drawn = engines[0]!.validatorFor(block.previousHash, block.index);
+        const [winner, loser] = drawn === alice.publicKey ? engines : [engines[1]!, engines[0]!];
+
+        expect(() => loser!.seal(block)).toThrow(`Block 1 must be sealed by validator ${drawn}`);
+        winner!.seal(block);
+        expect(block.validator).toBe(drawn);
+        expect(loser!.verifySeal(block)).toEqual([]);
+        expect(() => new ProofOfStake(stakes, { signer: carol })).toThrow("Signer has no stake");
+        expect(() => new ProofOfStake({ [alice.publicKey]: 0 })).toThrow("positive integer stakes");
+    });
+});
+
+describe("createConsensus", () => {
+    test("should rebuild an engine from its settings", () => {
+        const poa = new ProofOfAuthority([alice.publicKey, bob.publicKey]);
+        const pos = new ProofOfStake({ [alice.publicKey]: 2 });
+
+        expect(createConsensus(new ProofOfWork().toJSON())).toBeInstanceOf(ProofOfWork);
+        expect(createConsensus(poa.toJSON()).toJSON()).toEqual(poa.toJSON());
+        expect(createConsensus(pos.toJSON(), alice).toJSON()).toEqual({ type: "pos", stakes: { [alice.publicKey]: 2 } });
+        expect(() => createConsensus({ type: "bft" } as any)).toThrow("Invalid consensus settings");
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, test, expect } from "bun:test";
+import { addressFromPublicKey, generateKeyPair, getPublicKey, isValidAddress, signMessage, verifySignature } from "../src/crypto";
+
+describe("crypto", () => {
+    test("should generate distinct hex key pairs", () => {
+        const a = generateKeyPair();
+        const b = generateKeyPair();
+        expect(a.privateKey).toMatch(/^[0-9a-f]{64}$/);
+        expect(a.publicKey).toMatch(/^[0-9a-f]{64}$/);
+        expect(a.privateKey).not.toBe(b.privateKey);
+    });
+
+    test("should derive the public key from the private key", () => {
+        const keys = generateKeyPair();
+        expect(getPublicKey(keys.privateKey)).toBe(keys.publicKey);
+    });
+
+    test("should sign and verify messages", () => {
+        const keys = generateKeyPair();
+        const signature = signMessage("hello", keys.privateKey);
+        expect(verifySignature("hello", signature, keys.publicKey)).toBe(true);
+        expect(verifySignature("hello!", signature, keys.publicKey)).toBe(false);
+        expect(verifySignature("hello", signature, generateKeyPair().publicKey)).toBe(false);
+    });
+
+    test("should treat malformed keys and signatures as invalid", () => {
+        const keys = generateKeyPair();
+        expect(verifySignature("hello", "zz", keys.publicKey)).toBe(false);
+        expect(verifySignature("hello", "00", "not-a-key")).toBe(false);
+        expect(() => signMessage("hello", "1234")).toThrow("Invalid private key");
+    });
+
+    test("should derive a stable address from a public key", () => {
+        const keys = generateKeyPair();
+        expect(addressFromPublicKey(keys.publicKey)).toBe(addressFromPublicKey(keys.publicKey));
+    });
+
+    test("should detect a mistyped address by its checksum", () => {
+        const address = addressFromPublicKey(generateKeyPair().publicKey);
+        expect(isValidAddress(address)).toBe(true);
+        expect(isValidAddress(address.replace(/.$/, last => (last === "0" ? "1" : "0")))).toBe(false);
+        expect(isValidAddress(address.slice(0, 64))).toBe(false);
+        expect(isValidAddress("miner")).toBe(false);
+    });
+});
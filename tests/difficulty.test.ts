@@ -0,0 +1,48 @@
+import { describe, test, expect } from "bun:test";
+import { difficultyToTarget, isValidDifficulty, MAX_TARGET, meetsDifficulty, retargetDifficulty } from "../src/difficulty";
+
+describe("difficulty", () => {
+    test("should accept any hash at difficulty 1", () => {
+        expect(difficultyToTarget(1)).toBe(MAX_TARGET);
+        expect(meetsDifficulty("f".repeat(64), 1)).toBe(true);
+    });
+
+    test("should halve the target when difficulty doubles", () => {
+        expect(difficultyToTarget(512)).toBe(difficultyToTarget(256) / 2n);
+    });
+
+    test("should match two leading hex zeros at difficulty 256", () => {
+        expect(meetsDifficulty("00" + "f".repeat(62), 256)).toBe(true);
+        expect(meetsDifficulty("01" + "0".repeat(62), 256)).toBe(false);
+    });
+
+    test("should support steps finer than a whole hex digit", () => {
+        // Between one and two leading zeros
+        const hash = "08" + "0".repeat(62);
+        expect(meetsDifficulty(hash, 16)).toBe(true);
+        expect(meetsDifficulty(hash, 31)).toBe(true);
+        expect(meetsDifficulty(hash, 32)).toBe(false);
+    });
+
+    test("should reject malformed hashes and difficulties", () => {
+        expect(meetsDifficulty("xyz", 1)).toBe(false);
+        expect(meetsDifficulty("0".repeat(64), 0)).toBe(false);
+        expect(isValidDifficulty(2.5)).toBe(false);
+        expect(() => difficultyToTarget(-1)).toThrow("Invalid difficulty");
+    });
+
+    test("should scale difficulty by how far the window missed its target", () => {
+        expect(retargetDifficulty(100, 1000, 1000)).toBe(100);  // On target
+        expect(retargetDifficulty(100, 500, 1000)).toBe(200);   // Twice as fast
+        expect(retargetDifficulty(100, 2000, 1000)).toBe(50);   // Twice as slow
+    });
+
+    test("should clamp adjustments to a factor of 4", () => {
+        expect(retargetDifficulty(100, 0, 1000)).toBe(400);
+        expect(retargetDifficulty(100, 1_000_000, 1000)).toBe(25);
+    });
+
+    test("should never drop below difficulty 1", () => {
+        expect(retargetDifficulty(1, 4000, 1000)).toBe(1);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, test, expect } from "bun:test";
+import { assertCanonical, ByteReader, ByteWriter, ENCODING_VERSION, isSupportedVersion, LEGACY_ENCODING_VERSION } from "../src/encoding";
+
+describe("Encoding", () => {
+    test("should read back every field it writes", () => {
+        const bytes = new ByteWriter()
+            .u8(ENCODING_VERSION)
+            .u32(70_000)
+            .u64(Number.MAX_SAFE_INTEGER)
+            .f64(0.1)
+            .string("héllo")
+            .optionalString(null)
+            .optionalU64(5)
+            .finish();
+
+        const reader = new ByteReader(bytes);
+        expect(reader.version()).toBe(ENCODING_VERSION);
+        expect(reader.u32()).toBe(70_000);
+        expect(reader.u64()).toBe(Number.MAX_SAFE_INTEGER);
+        expect(reader.f64()).toBe(0.1);
+        expect(reader.string()).toBe("héllo");
+        expect(reader.optionalString()).toBeNull();
+        expect(reader.optionalU64()).toBe(5);
+        expect(() => reader.end()).not.toThrow();
+    });
+
+    test("should prefix strings with their byte length", () => {
+        expect([...new ByteWriter().string("é").finish()]).toEqual([0, 0, 0, 2, 0xc3, 0xa9]);
+        expect(new ByteWriter().string("ab").string("c").finish()).not.toEqual(new ByteWriter().string("a").string("bc").finish());
+    });
+
+    test("should refuse values without a canonical encoding", () => {
+        expect(() => new ByteWriter().u64(1.5)).toThrow("Cannot encode 1.5 as a 64-bit unsigned integer");
+        expect(() => new ByteWriter().u64(-1)).toThrow("Cannot encode -1 as a 64-bit unsigned integer");
+        expect(() => new ByteWriter().f64(NaN)).toThrow("Cannot encode NaN as a finite number");
+        expect([...new ByteWriter().f64(-0).finish()]).toEqual([...new ByteWriter().f64(0).finish()]);
+    });
+
+    test("should reject truncated data and trailing bytes", () => {
+        expect(() => new ByteReader(Uint8Array.of(0, 0, 0, 5, 1)).string()).toThrow("Invalid encoding: unexpected end of data");
+        const reader = new ByteReader(Uint8Array.of(1, 2));
+        reader.u8();
+        expect(() => reader.end()).toThrow("Invalid encoding: unexpected trailing bytes");
+    });
+
+    test("should reject non-canonical flags, numbers and text", () => {
+        expect(() => new ByteReader(Uint8Array.of(2)).optionalString()).toThrow("Invalid encoding: presence flag must be 0 or 1");
+        expect(() => new ByteReader(Uint8Array.of(0x80, 0, 0, 0, 0, 0, 0, 0)).f64()).toThrow("Invalid encoding: non-canonical number");
+        expect(() => new ByteReader(Uint8Array.of(0x7f, 0xf8, 0, 0, 0, 0, 0, 0)).f64()).toThrow("Invalid encoding: non-canonical number");
+        expect(() => new ByteReader(Uint8Array.of(0, 0x20, 0, 0, 0, 0, 0, 0)).u64()).toThrow("Invalid encoding: integer out of range");
+        expect(() => new ByteReader(Uint8Array.of(0, 0, 0, 2, 0xc0, 0x80)).string()).toThrow("Invalid encoding: string is not valid UTF-8");
+        expect(() => new ByteReader(Uint8Array.of(9)).version()).toThrow("Invalid encoding: unsupported version 9");
+        expect(() => assertCanonical(Uint8Array.of(1), Uint8Array.of(1, 0))).toThrow("Invalid encoding: not in canonical form");
+    });
+
+    test("should support the current and legacy versions only", () => {
+        expect(isSupportedVersion(ENCODING_VERSION)).toBe(true);
+        expect(isSupportedVersion(LEGACY_ENCODING_VERSION)).toBe(true);
+        expect(isSupportedVersion(ENCODING_VERSION + 1)).toBe(false);
+        expect(isSupportedVersion("1")).toBe(false);
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, test, expect } from "bun:test";
+import { EventHub } from "../src/events";
+import { Block } from "../src/block";
+import { Transaction } from "../src/transaction";
+
+describe("EventHub", () => {
+    test("should call listeners until they are removed", () => {
+        const events = new EventHub();
+        const block = new Block(1, "0", [], 0);
+        const seen: Block[] = [];
+        const unsubscribe = events.on("blockAdded", event => seen.push(event.block));
+
+        events.emit("blockAdded", { block });
+        events.emit("blockMined", { block });  // Different event
+        unsubscribe();
+        events.emit("blockAdded", { block });
+
+        expect(seen).toEqual([block]);
+    });
+
+    test("should only deliver events involving a filtered address", () => {
+        const events = new EventHub();
+        const toBob = new Transaction("alice", "bob", 1);
+        const toCarol = new Transaction("alice", "carol", 1);
+        const received: string[] = [];
+        events.on("transactionAdded", ({ transaction }) => received.push(transaction.toAddress), { address: "bob" });
+        events.on("blockAdded", ({ block }) => received.push(`block ${block.index}`), { address: "bob" });
+        events.on("chainInvalidated", () => received.push("invalid"), { address: "bob" });
+
+        events.emit("transactionAdded", { transaction: toCarol, blockIndex: 1 });
+        events.emit("transactionAdded", { transaction: toBob, blockIndex: 1 });
+        events.emit("blockAdded", { block: new Block(1, "0", [toCarol], 0) });
+        events.emit("blockAdded", { block: new Block(2, "0", [toCarol, toBob], 0) });
+        events.emit("chainInvalidated", { issues: [] });  // Chain-wide, so not filtered
+
+        expect(received).toEqual(["bob", "block 2", "invalid"]);
+    });
+
+    test("should keep calling listeners after one throws, and hand its error to the handler", () => {
+        const failures: string[] = [];
+        const events = new EventHub((error, type) => failures.push(`${type}: ${(error as Error).message}`));
+        const block = new Block(1, "0", [], 0);
+        const seen: number[] = [];
+        events.on("blockAdded", () => { throw new Error("listener failed"); });
+        events.on("blockAdded", event => seen.push(event.block.index));
+
+        expect(() => events.emit("blockAdded", { block })).not.toThrow();
+        expect(seen).toEqual([1]);
+        expect(failures).toEqual(["blockAdded: listener failed"]);
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, test, expect } from "bun:test";
+import { AddressHistory } from "../src/history";
+import { Block } from "../src/block";
+import { Transaction } from "../src/transaction";
+
+describe("AddressHistory", () => {
+    test("should start with empty histories", () => {
+        const history = new AddressHistory();
+        expect(history.getPage("alice", 10)).toEqual({ entries: [], nextCursor: null });
+    });
+
+    test("should record running balances, newest first", () => {
+        const history = AddressHistory.fromChain([
+            new Block(0, "0", [new Transaction("MINING_REWARD", "alice", 5)], 0),
+            new Block(1, "a", [new Transaction("alice", "bob", 2, { fee: 0.5 })], 0)
+        ]);
+
+        const alice = history.getPage("alice", 10).entries;
+        expect(alice.map(entry => [entry.blockIndex, entry.change, entry.balance])).toEqual([[1, -2.5, 2.5], [0, 5, 5]]);
+        expect(history.getPage("bob", 10).entries.map(entry => entry.balance)).toEqual([2]);
+        expect(history.getPage("MINING_REWARD", 10).entries).toEqual([]);
+    });
+
+    test("should record a payment to oneself as a single entry costing the fee", () => {
+        const history = new AddressHistory();
+        history.applyBlock(new Block(0, "0", [
+            new Transaction("MINING_REWARD", "alice", 5),
+            new Transaction("alice", "alice", 3, { fee: 1 })
+        ], 0));
+
+        const entries = history.getPage("alice", 10).entries;
+        expect(entries.map(entry => [entry.change, entry.balance])).toEqual([[-1, 4], [5, 5]]);
+    });
+
+    test("should page through a history with cursors that survive new blocks", () => {
+        const history = new AddressHistory();
+        const rewards = [1, 2, 3, 4, 5].map(i => new Transaction("MINING_REWARD", "alice", i));
+        rewards.forEach((reward, i) => history.applyBlock(new Block(i, "0", [reward], 0)));
+
+        const first = history.getPage("alice", 2);
+        expect(first.entries.map(entry => entry.transaction)).toEqual([rewards[4]!, rewards[3]!]);
+
+        history.applyBlock(new Block(5, "0", [new Transaction("MINING_REWARD", "alice", 6)], 0));
+        const second = history.getPage("alice", 2, first.nextCursor);
+        expect(second.entries.map(entry => entry.transaction)).toEqual([rewards[2]!, rewards[1]!]);
+
+        const last = history.getPage("alice", 2, second.nextCursor);
+        expect(last.entries.map(entry => entry.transaction)).toEqual([rewards[0]!]);
+        expect(last.nextCursor).toBeNull();
+    });
+
+    test("should reject cursors that don't belong to the history", () => {
+        const history = new AddressHistory();
+        history.applyBlock(new Block(0, "0", [new Transaction("MINING_REWARD", "alice", 1)], 0));
+
+        expect(() => history.getPage("alice", 1, "garbage")).toThrow("does not match");
+        expect(() => history.getPage("alice", 1, "0:abc")).toThrow("does not match");
+        expect(() => history.getPage("alice", 1, "5:" + "0".repeat(64))).toThrow("does not match");
+    });
+});
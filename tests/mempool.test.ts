@@ -0,0 +1,113 @@
+import { describe, test, expect, spyOn } from "bun:test";
+import { Mempool } from "../src/mempool";
+import { Transaction, type TransactionOptions } from "../src/transaction";
+
+// Builds an unsigned transaction (the pool doesn't check signatures)
+function pending(from: string, fee: number, options: TransactionOptions = {}): Transaction {
+    return new Transaction(from, "bob", 1, { ...options, fee });
+}
+
+describe("Mempool", () => {
+    test("should select the highest fee rates first", () => {
+        const pool = new Mempool(10, 60_000);
+        const cheap = pending("alice", 0.1);
+        const dear = pending("carol", 0.9);
+        const middle = pending("dave", 0.5);
+        [cheap, dear, middle].forEach(transaction => pool.add(transaction));
+
+        expect(pool.getTransactions()).toEqual([cheap, dear, middle]);  // Admission order
+        expect(pool.selectForBlock({ maxTransactions: 10, maxBytes: 1_000_000 })).toEqual([dear, middle, cheap]);
+    });
+
+    test("should respect the block transaction count and byte limits", () => {
+        const pool = new Mempool(10, 60_000);
+        const transactions = [pending("alice", 0.3), pending("carol", 0.2), pending("dave", 0.1)];
+        transactions.forEach(transaction => pool.add(transaction));
+
+        expect(pool.selectForBlock({ maxTransactions: 2, maxBytes: 1_000_000 })).toEqual(transactions.slice(0, 2));
+
+        const size = transactions[0]!.getSize();
+        expect(pool.selectForBlock({ maxTransactions: 10, maxBytes: size + 1 })).toEqual([transactions[0]!]);
+        expect(pool.size).toBe(3);  // Selecting doesn't remove anything
+    });
+
+    test("should size each transaction once, when it joins the pool", () => {
+        const pool = new Mempool(2, 60_000);
+        const transactions = [pending("alice", 0.3), pending("carol", 0.2), pending("dave", 0.4)];
+        const sizings = transactions.map(transaction => spyOn(transaction, "getSize"));
+        transactions.forEach(transaction => pool.add(transaction));  // The last one evicts carol's
+
+        pool.selectForBlock({ maxTransactions: 10, maxBytes: 1_000_000 });
+        expect(sizings.map(sizing => sizing.mock.calls.length)).toEqual([1, 1, 1]);
+    });
+
+    test("should take a sender's numbered transactions in sequence order", () => {
+        const pool = new Mempool(10, 60_000);
+        const first = pending("alice", 0.1, { sequence: 0 });
+        const second = pending("alice", 0.9, { sequence: 1 });
+        const other = pending("carol", 0.5);
+        [second, other, first].forEach(transaction => pool.add(transaction));
+
+        expect(pool.selectForBlock({ maxTransactions: 10, maxBytes: 1_000_000 })).toEqual([other, first, second]);
+        expect(pool.selectForBlock({ maxTransactions: 1, maxBytes: 1_000_000 })).toEqual([other]);
+
+        // If the first doesn't fit, nothing after it can be mined either
+        const size = other.getSize();
+        expect(pool.selectForBlock({ maxTransactions: 10, maxBytes: size })).toEqual([other]);
+    });
+
+    test("should evict the cheapest transaction when full", () => {
+        const pool = new Mempool(2, 60_000);
+        const cheap = pending("alice", 0.1);
+        const dear = pending("carol", 0.9);
+        pool.add(cheap);
+        pool.add(dear);
+
+        const better = pending("dave", 0.5);
+        expect(pool.add(better)).toEqual([cheap]);
+        expect(pool.getTransactions()).toEqual([dear, better]);
+
+        expect(() => pool.add(pending("erin", 0.1))).toThrow("Mempool is full");
+        expect(pool.size).toBe(2);
+    });
+
+    test("should replace a transaction with the same sender and sequence number that pays more", () => {
+        const pool = new Mempool(10, 60_000);
+        const original = pending("alice", 0.1, { sequence: 0 });
+        pool.add(original);
+        pool.add(pending("alice", 0.1, { sequence: 1 }));
+
+        expect(() => pool.add(pending("alice", 0.1, { sequence: 0 }))).toThrow("must pay a higher fee than 0.1");
+
+        const replacement = pending("alice", 0.2, { sequence: 0 });
+        expect(pool.findConflict(replacement)).toBe(original);
+        expect(pool.add(replacement)).toEqual([original]);
+        expect(pool.has(original.hash)).toBe(false);
+        expect(pool.size).toBe(2);
+    });
+
+    test("should never treat transactions without a sequence number as conflicting", () => {
+        const pool = new Mempool(10, 60_000);
+        pool.add(pending("alice", 0.1));
+        expect(pool.findConflict(pending("alice", 0.5))).toBeUndefined();
+    });
+
+    test("should expire stale transactions", () => {
+        const pool = new Mempool(10, 60_000);
+        const stale = pending("alice", 0.1);
+        const fresh = pending("carol", 0.1);
+        stale.timestamp -= 120_000;
+        pool.add(stale);
+        pool.add(fresh);
+
+        expect(pool.expire(Date.now())).toEqual([stale]);
+        expect(pool.getTransactions()).toEqual([fresh]);
+    });
+
+    test("should reject a transaction that is already pending", () => {
+        const pool = new Mempool(10, 60_000);
+        const transaction = pending("alice", 0.1);
+        pool.add(transaction);
+        expect(() => pool.add(transaction)).toThrow("is already pending");
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, test, expect } from "bun:test";
+import { buildMerkleProof, computeMerkleRoot, EMPTY_MERKLE_ROOT, verifyMerkleProof } from "../src/merkle";
+
+// Produces distinct hex leaves for building trees
+function leaves(count: number): string[] {
+    return Array.from({ length: count }, (_, i) => {
+        const hash = new Bun.CryptoHasher("sha256");
+        hash.update(`leaf${i}`);
+        return hash.digest("hex");
+    });
+}
+
+describe("Merkle tree", () => {
+    test("should use a fixed root for an empty tree", () => {
+        expect(computeMerkleRoot([])).toBe(EMPTY_MERKLE_ROOT);
+    });
+
+    test("should hash even the only leaf of a single-leaf tree", () => {
+        const [leaf] = leaves(1);
+        expect(computeMerkleRoot([leaf!])).not.toBe(leaf!);
+        expect(computeMerkleRoot([leaf!], true)).toBe(leaf!);  // Legacy trees used the leaf itself
+    });
+
+    test("should give a repeated last leaf a different root", () => {
+        const [a, b, c] = leaves(3) as [string, string, string];
+        expect(computeMerkleRoot([a, b, c, c])).not.toBe(computeMerkleRoot([a, b, c]));
+        expect(computeMerkleRoot([a, b, c, c], true)).toBe(computeMerkleRoot([a, b, c], true));  // The legacy weakness
+    });
+
+    test("should not accept an inner node as a leaf", () => {
+        const tree = leaves(4);
+        for (const legacy of [false, true]) {
+            const inner = computeMerkleRoot(tree.slice(0, 2), legacy);  // Parent of the first two leaves
+            const sibling = buildMerkleProof(tree, 0, legacy).steps[1]!;
+            const forged = { leaf: inner, index: 0, steps: [sibling] };
+            expect(verifyMerkleProof(forged, computeMerkleRoot(tree, legacy), legacy)).toBe(legacy);  // Only legacy trees are fooled
+        }
+    });
+
+    test("should not accept the root itself as a leaf, whatever the proof claims", () => {
+        const root = computeMerkleRoot(leaves(4));
+        const forged = { leaf: root, index: 0, steps: [], legacy: true };  // The tree kind isn't read from the proof
+        expect(verifyMerkleProof(forged, root)).toBe(false);
+    });
+
+    test("should change the root when any leaf changes", () => {
+        const original = leaves(4);
+        const changed = [...original];
+        changed[2] = "ff".repeat(32);
+        expect(computeMerkleRoot(changed)).not.toBe(computeMerkleRoot(original));
+    });
+
+    test("should change the root when leaves are reordered", () => {
+        const original = leaves(2);
+        expect(computeMerkleRoot([original[1]!, original[0]!])).not.toBe(computeMerkleRoot(original));
+    });
+
+    test("should prove every leaf for trees of various sizes", () => {
+        for (const legacy of [false, true]) {
+            for (const size of [1, 2, 3, 5, 8, 13]) {
+                const tree = leaves(size);
+                const root = computeMerkleRoot(tree, legacy);
+                for (let i = 0; i < size; i++) {
+                    const proof = buildMerkleProof(tree, i, legacy);
+                    expect(proof.leaf).toBe(tree[i]!);
+                    expect(verifyMerkleProof(proof, root, legacy)).toBe(true);
+                }
+            }
+        }
+    });
+
+    test("should keep proofs logarithmic in the number of leaves", () => {
+        const tree = leaves(1000);
+        expect(buildMerkleProof(tree, 500).steps.length).toBe(10);
+    });
+
+    test("should reject a proof against the wrong root", () => {
+        const tree = leaves(4);
+        const proof = buildMerkleProof(tree, 1);
+        expect(verifyMerkleProof(proof, computeMerkleRoot(leaves(5)))).toBe(false);
+    });
+
+    test("should reject a proof for a substituted leaf", () => {
+        const tree = leaves(4);
+        const proof = buildMerkleProof(tree, 1);
+        expect(verifyMerkleProof({ ...proof, leaf: "00".repeat(32) }, computeMerkleRoot(tree))).toBe(false);
+    });
+
+    test("should reject out-of-range proof requests", () => {
+        expect(() => buildMerkleProof(leaves(2), 2)).toThrow("Leaf index out of range");
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, test, expect } from "bun:test";
+import { Block } from "../src/block";
+import { Transaction } from "../src/transaction";
+import { mineInWorkers, type MiningProgress } from "../src/miner";
+
+describe("mineInWorkers", () => {
+    test("should find a nonce that meets the block's difficulty", async () => {
+        const block = new Block(1, "0", [new Transaction("MINING_REWARD", "miner", 1)], 0, 256);
+        await mineInWorkers(block, { workers: 2 });
+
+        expect(block.hash).toBe(block.calculateHash());
+        expect(block.hasValidProofOfWork()).toBe(true);
+        expect(block.isValid()).toBe(true);
+    });
+
+    test("should report progress and stop when aborted", async () => {
+        const block = new Block(1, "0", [], 0, 2 ** 40);  // Far too hard to finish during the test
+        const controller = new AbortController();
+        const reports: MiningProgress[] = [];
+        const mining = mineInWorkers(block, {
+            workers: 2,
+            signal: controller.signal,
+            onProgress: progress => {
+                reports.push(progress);
+                controller.abort(new Error("Stopped by test"));
+            }
+        });
+
+        await expect(mining).rejects.toThrow("Stopped by test");
+        expect(reports.length).toBe(1);
+        expect(reports[0]!.hashes).toBeGreaterThan(0);
+        expect(reports[0]!.hashRate).toBeGreaterThanOrEqual(0);
+        expect(block.nonce).toBe(0);  // Left untouched
+    });
+
+    test("should reject a signal that is already aborted or a bad worker count", async () => {
+        const block = new Block(1, "0", [], 0, 256);
+        await expect(mineInWorkers(block, { signal: AbortSignal.abort(new Error("Too late")) })).rejects.toThrow("Too late");
+        expect(() => mineInWorkers(block, { workers: 0 })).toThrow("Worker count must be a positive integer");
+    });
+});
@@ -0,0 +1,229 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { Node } from "../src/node";
+import { Blockchain } from "../src/blockchain";
+import { Transaction } from "../src/transaction";
+import { addressFromPublicKey, generateKeyPair } from "../src/crypto";
+
+const running: Node[] = [];
+
+// Starts a node on an ephemeral localhost port; stopped automatically after the test
+async function startNode(blockchain: Blockchain, seeds: string[] = []): Promise<Node> {
+    const node = new Node(blockchain, { seeds });
+    running.push(node);
+    await node.start();
+    return node;
+}
+
+// Every node on a network shares the same genesis block
+function copyOf(blockchain: Blockchain): Blockchain {
+    return Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+}
+
+// Polls until a condition holds (gossip is asynchronous)
+async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error("Timed out waiting for condition");
+        }
+        await Bun.sleep(10);
+    }
+}
+
+afterEach(() => {
+    for (const node of running.splice(0)) {
+        node.stop();
+    }
+});
+
+describe("Node", () => {
+    test("should handshake with seeds and discover their peers", async () => {
+        const base = new Blockchain();
+        const a = await startNode(copyOf(base));
+        const b = await startNode(copyOf(base), [a.url]);
+        await waitFor(() => a.getPeers().length === 1);
+
+        // c only knows a, but learns about b from a's handshake
+        const c = await startNode(copyOf(base), [a.url]);
+        await waitFor(() => c.getPeers().length === 2 && b.getPeers().length === 2);
+        expect(c.getPeers().sort()).toEqual([a.url, b.url].sort());
+    });
+
+    test("should gossip transactions to every peer", async () => {
+        const keys = generateKeyPair();
+        const address = addressFromPublicKey(keys.publicKey);
+        const base = new Blockchain();
+        base.minePendingTransactions(address);
+
+        const a = await startNode(copyOf(base));
+        const b = await startNode(copyOf(base), [a.url]);
+        const c = await startNode(copyOf(base), [a.url]);
+        await waitFor(() => a.getPeers().length === 2);
+
+        const transaction = new Transaction(address, "bob", 1, { sequence: 0 });
+        transaction.signTransaction(keys.privateKey);
+        b.createTransaction(transaction);
+
+        await waitFor(() => [a, c].every(node => node.blockchain.getPendingTransactions().length === 1));
+        expect(c.blockchain.getPendingTransactions()[0]!.hash).toBe(transaction.hash);
+    });
+
+    test("should gossip mined blocks and clear confirmed transactions", async () => {
+        const keys = generateKeyPair();
+        const address = addressFromPublicKey(keys.publicKey);
+        const base = new Blockchain();
+        base.minePendingTransactions(address);
+
+        const a = await startNode(copyOf(base));
+        const b = await startNode(copyOf(base), [a.url]);
+        await waitFor(() => a.getPeers().length === 1);
+
+        const transaction = new Transaction(address, "bob", 1, { sequence: 0 });
+        transaction.signTransaction(keys.privateKey);
+        a.createTransaction(transaction);
+        await waitFor(() => b.blockchain.getPendingTransactions().length === 1);
+
+        const block = a.minePendingTransactions("miner");
+        await waitFor(() => b.blockchain.chain.length === 3);
+        expect(b.blockchain.chain[2]!.hash).toBe(block.hash);
+        expect(b.blockchain.getPendingTransactions()).toEqual([]);
+        expect(b.blockchain.getBalanceOfAddress("bob")).toBe(1);
+        expect(b.blockchain.isChainValid()).toBe(true);
+    });
+
+    test("should gossip blocks mined on the chain directly or on worker threads", async () => {
+        const base = new Blockchain();
+        const a = await startNode(copyOf(base));
+        const b = await startNode(copyOf(base), [a.url]);
+        await waitFor(() => a.getPeers().length === 1);
+
+        a.blockchain.minePendingTransactions("miner");
+        const block = await a.blockchain.minePendingTransactionsAsync("miner", { workers: 1 });
+        await waitFor(() => b.blockchain.chain.length === 3);
+        expect(b.blockchain.chain[2]!.hash).toBe(block.hash);
+    });
+
+    test("should request missing blocks from a peer that is ahead", async () => {
+        const base = new Blockchain();
+        const a = await startNode(copyOf(base));
+        for (let i = 0; i < 3; i++) {
+            a.minePendingTransactions("miner");
+        }
+
+        const late = await startNode(copyOf(base), [a.url]);
+        await waitFor(() => late.blockchain.chain.length === 4);
+        expect(late.blockchain.chain.map(block => block.hash)).toEqual(a.blockchain.chain.map(block => block.hash));
+    });
+
+    test("should switch to a peer's branch with more work", async () => {
+        const base = new Blockchain();
+        const a = await startNode(copyOf(base));
+        const b = await startNode(copyOf(base));
+        a.minePendingTransactions("alice");
+        for (let i = 0; i < 3; i++) {
+            b.minePendingTransactions("bob");
+        }
+
+        // a's block 1 conflicts with b's, so a has to find the fork point before it can catch up
+        await b.connect(a.url);
+        await waitFor(() => a.blockchain.chain.length === 4);
+        expect(a.blockchain.chain.map(block => block.hash)).toEqual(b.blockchain.chain.map(block => block.hash));
+        expect(a.blockchain.getBalanceOfAddress("alice")).toBe(0);
+    });
+
+    test("should refuse peers from a different network", async () => {
+        const a = await startNode(new Blockchain());
+        const b = await startNode(new Blockchain({ initialDifficulty: 16 }), [a.url]);
+        await Bun.sleep(100);
+        expect(a.getPeers()).toEqual([]);
+        expect(b.getPeers()).toEqual([]);
+    });
+
+    test("should ignore invalid gossip", async () => {
+        const base = new Blockchain();
+        const a = await startNode(copyOf(base));
+        const b = await startNode(copyOf(base), [a.url]);
+        await waitFor(() => a.getPeers().length === 1);
+
+        // An unsigned transaction is rejected by a's chain and not passed on, and undecodable data is dropped
+        const unsigned = Buffer.from(new Transaction("mallory", "bob", 5).encode()).toString("base64");
+        b["broadcast"]({ type: "transaction", transaction: unsigned });
+        b["broadcast"]({ type: "block", block: "not an encoded block" });
+        await Bun.sleep(100);
+        expect(a.blockchain.getPendingTransactions()).toEqual([]);
+        expect(a.blockchain.chain.length).toBe(1);
+    });
+
+    test("should gossip transactions added to the chain directly", async () => {
+        const keys = generateKeyPair();
+        const address = addressFromPublicKey(keys.publicKey);
+        const base = new Blockchain();
+        base.minePendingTransactions(address);
+
+        const a = await startNode(copyOf(base));
+        const b = await startNode(copyOf(base), [a.url]);
+        await waitFor(() => a.getPeers().length === 1);
+
+        // Not through the node, as the API and CLI do it
+        const transaction = new Transaction(address, "bob", 1, { sequence: 0 });
+        transaction.signTransaction(keys.privateKey);
+        a.blockchain.createTransaction(transaction);
+
+        await waitFor(() => b.blockchain.getPendingTransactions().length === 1);
+        expect(b.blockchain.getPendingTransactions()[0]!.hash).toBe(transaction.hash);
+    });
+
+    test("should survive malformed frames from a peer", async () => {
+        const base = new Blockchain();
+        const a = await startNode(copyOf(base));
+
+        const socket = new WebSocket(a.url);
+        await new Promise(resolve => socket.addEventListener("open", resolve));
+        const genesisHash = base.chain[0]!.hash;
+        for (const frame of ["null", "[]", "42", JSON.stringify({ type: "hello", nodeId: "x", url: "ws://127.0.0.1:1", genesisHash, work: 1 })]) {
+            socket.send(frame);
+        }
+        await Bun.sleep(100);
+        socket.close();
+
+        // Still serving: a well-behaved peer can connect and gossip
+        const b = await startNode(copyOf(base), [a.url]);
+        await waitFor(() => a.getPeers().length === 1);
+        b.minePendingTransactions("miner");
+        await waitFor(() => a.blockchain.chain.length === 2);
+        expect(a.getPeers()).toEqual([b.url]);
+    });
+
+    test("should not let a tampered copy or an early peer shut out a genuine transaction", async () => {
+        const keys = generateKeyPair();
+        const address = addressFromPublicKey(keys.publicKey);
+        const base = new Blockchain();
+        base.minePendingTransactions(address);
+        const a = await startNode(copyOf(base));
+
+        const transaction = new Transaction(address, "bob", 1, { sequence: 0 });
+        transaction.signTransaction(keys.privateKey);
+        const genuine = JSON.stringify({ type: "transaction", transaction: Buffer.from(transaction.encode()).toString("base64") });
+        const tampered = Transaction.decode(transaction.encode());
+        tampered.signature = transaction.signature!.replace(/^./, digit => (digit === "0" ? "1" : "0"));
+        expect(tampered.hash).toBe(transaction.hash);  // The hash doesn't cover the signature
+
+        const socket = new WebSocket(a.url);
+        await new Promise(resolve => socket.addEventListener("open", resolve));
+        socket.send(genuine);  // Before the handshake - ignored
+        socket.send(JSON.stringify({ type: "hello", nodeId: "x", url: "ws://127.0.0.1:1", genesisHash: base.chain[0]!.hash, work: 1, peers: [] }));
+        socket.send(JSON.stringify({ type: "transaction", transaction: Buffer.from(tampered.encode()).toString("base64") }));
+        await Bun.sleep(100);
+        expect(a.blockchain.getPendingTransactions()).toEqual([]);
+
+        socket.send(genuine);
+        await waitFor(() => a.blockchain.getPendingTransactions().length === 1);
+        expect(a.blockchain.getPendingTransactions()[0]!.signature).toBe(transaction.signature);
+        socket.close();
+    });
+
+    test("should skip seeds that can't be reached", async () => {
+        const a = await startNode(new Blockchain(), ["ws://127.0.0.1:1"]);
+        expect(a.getPeers()).toEqual([]);
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, test, expect } from "bun:test";
+import { blockSubsidy, isValidRewardSchedule, issuedSupply, type RewardSchedule } from "../src/reward";
+
+const schedule: RewardSchedule = { initialReward: 4, halvingInterval: 3, maxSupply: 24 };
+
+describe("reward", () => {
+    test("should pay nothing for the genesis block", () => {
+        expect(blockSubsidy(0, schedule)).toBe(0);
+    });
+
+    test("should halve the subsidy every interval", () => {
+        const subsidies = Array.from({ length: 10 }, (_, i) => blockSubsidy(i + 1, schedule));
+        expect(subsidies).toEqual([4, 4, 4, 2, 2, 2, 1, 1, 1, 0.5]);
+    });
+
+    test("should total the issued supply a whole era at a time", () => {
+        expect(issuedSupply(0, schedule)).toBe(0);
+        expect(issuedSupply(4, schedule)).toBe(14);
+        expect(issuedSupply(9, schedule)).toBe(21);
+    });
+
+    test("should stop issuing at the supply cap", () => {
+        const capped: RewardSchedule = { ...schedule, maxSupply: 10 };
+        expect(blockSubsidy(2, capped)).toBe(4);
+        expect(blockSubsidy(3, capped)).toBe(2);  // Only 2 left under the cap
+        expect(blockSubsidy(4, capped)).toBe(0);
+        expect(issuedSupply(100, capped)).toBe(10);
+    });
+
+    test("should never issue more than the schedule's total", () => {
+        expect(issuedSupply(10_000, schedule)).toBeLessThanOrEqual(24);
+        expect(blockSubsidy(10_000, schedule)).toBe(0);
+    });
+
+    test("should reject unusable schedules", () => {
+        expect(isValidRewardSchedule(schedule)).toBe(true);
+        expect(isValidRewardSchedule({ ...schedule, initialReward: 0 })).toBe(false);
+        expect(isValidRewardSchedule({ ...schedule, halvingInterval: 1.5 })).toBe(false);
+        expect(isValidRewardSchedule({ ...schedule, maxSupply: -1 })).toBe(false);
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, test, expect } from "bun:test";
+import {
+    hashLockScript, hashSecret, isScriptAddress, isValidScript, multisigScript, parseScript,
+    scriptAddress, timeLockScript, verifyScript, type ScriptContext
+} from "../src/script";
+import { generateKeyPair, signMessage } from "../src/crypto";
+
+const context: ScriptContext = { txHash: hashSecret("spending transaction"), time: 1_000, height: 10 };
+const keys = [generateKeyPair(), generateKeyPair(), generateKeyPair()];
+const publicKeys = keys.map(key => key.publicKey);
+
+// Signs the spending transaction's hash with the numbered test keys
+function signatures(...signers: number[]): string {
+    return signers.map(i => signMessage(context.txHash, keys[i]!.privateKey)).join(" ");
+}
+
+describe("Script", () => {
+    test("should parse opcodes and data items", () => {
+        expect(parseScript("  1 2 EQUAL ")).toEqual(["1", "2", "EQUAL"]);
+        expect(parseScript("")).toEqual([]);
+    });
+
+    test("should reject unknown tokens and unbalanced branches", () => {
+        expect(() => parseScript("1 RETURN")).toThrow("Invalid script token RETURN");
+        expect(() => parseScript("ABC")).toThrow("Invalid script token");
+        expect(() => parseScript("1 IF 1")).toThrow("IF without ENDIF");
+        expect(() => parseScript("1 ENDIF")).toThrow("ENDIF without IF");
+        expect(() => parseScript("a".repeat(1025))).toThrow("Invalid script token");
+    });
+
+    test("should only allow data in unlocking scripts", () => {
+        expect(isValidScript("01 02", true)).toBe(true);
+        expect(isValidScript("01 DUP", true)).toBe(false);
+        expect(isValidScript("01 DUP")).toBe(true);
+        expect(() => verifyScript("1 VERIFY", "1", context)).toThrow("unlocking script may only push data");
+    });
+
+    test("should require a true value on top of the stack", () => {
+        expect(() => verifyScript("1", "1 EQUAL", context)).not.toThrow();
+        expect(() => verifyScript("2", "1 EQUAL", context)).toThrow("did not finish with a true value");
+        expect(() => verifyScript("", "", context)).toThrow("did not finish with a true value");
+        expect(() => verifyScript("1", "000", context)).toThrow("did not finish with a true value");
+    });
+
+    test("should run only the branch selected by IF", () => {
+        const script = "IF 2 ELSE 3 ENDIF 3 EQUAL";
+        expect(() => verifyScript("0", script, context)).not.toThrow();
+        expect(() => verifyScript("1", script, context)).toThrow("did not finish with a true value");
+        expect(() => verifyScript("0", "IF 1 IF 0 ENDIF ELSE 1 ENDIF", context)).not.toThrow();
+    });
+
+    test("should fail on stack underflow", () => {
+        expect(() => verifyScript("", "DUP", context)).toThrow("DUP needs more items than the stack holds");
+    });
+
+    test("should bound evaluation by steps and stack size", () => {
+        expect(() => verifyScript("", "1 DROP ".repeat(300), context)).toThrow("exceeded 500 steps");
+        expect(() => verifyScript("", "1 ".repeat(101), context)).toThrow("stack exceeded 100 items");
+    });
+
+    test("should check a single signature over the transaction hash", () => {
+        const script = `${publicKeys[0]} CHECKSIG`;
+        expect(() => verifyScript(signatures(0), script, context)).not.toThrow();
+        expect(() => verifyScript(signatures(1), script, context)).toThrow("did not finish with a true value");
+    });
+
+    test("should unlock a multisig with enough signatures in key order", () => {
+        const script = multisigScript(2, publicKeys);
+        expect(() => verifyScript(signatures(0, 1), script, context)).not.toThrow();
+        expect(() => verifyScript(signatures(0, 2), script, context)).not.toThrow();
+        expect(() => verifyScript(signatures(1, 2), script, context)).not.toThrow();
+    });
+
+    test("should not unlock a multisig with too few, repeated or out-of-order signatures", () => {
+        const script = multisigScript(2, publicKeys);
+        expect(() => verifyScript(signatures(0), script, context)).toThrow("needs more items than the stack holds");
+        expect(() => verifyScript(signatures(0, 0), script, context)).toThrow("did not finish with a true value");
+        expect(() => verifyScript(signatures(2, 0), script, context)).toThrow("did not finish with a true value");
+    });
+
+    test("should reject invalid multisig settings", () => {
+        expect(() => multisigScript(0, publicKeys)).toThrow("Multisig needs between 1 and N signatures");
+        expect(() => multisigScript(4, publicKeys)).toThrow("Multisig needs between 1 and N signatures");
+        expect(() => verifyScript("", "1 2 3 1 CHECKMULTISIG", context)).toThrow("requires more signatures than it has keys");
+    });
+
+    test("should hold time and height locks until they pass", () => {
+        expect(() => verifyScript(signatures(0), timeLockScript(1_000, publicKeys[0]!), context)).not.toThrow();
+        expect(() => verifyScript(signatures(0), timeLockScript(1_001, publicKeys[0]!), context)).toThrow(
+            "time lock until 1001 has not passed"
+        );
+        expect(() => verifyScript(signatures(0), timeLockScript(10, publicKeys[0]!, "height"), context)).not.toThrow();
+        expect(() => verifyScript(signatures(0), timeLockScript(11, publicKeys[0]!, "height"), context)).toThrow(
+            "height lock until block 11 has not passed"
+        );
+    });
+
+    test("should unlock a hash lock with its secret", () => {
+        const script = hashLockScript(hashSecret("1234"));
+        expect(() => verifyScript("1234", script, context)).not.toThrow();
+        expect(() => verifyScript("4321", script, context)).toThrow("did not finish with a true value");
+    });
+
+    test("should derive a distinct address for each script", () => {
+        const address = scriptAddress(multisigScript(2, publicKeys));
+        expect(isScriptAddress(address)).toBe(true);
+        expect(isScriptAddress(publicKeys[0]!)).toBe(false);
+        expect(address).not.toBe(scriptAddress(multisigScript(1, publicKeys)));
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, test, expect } from "bun:test";
+import { WorldState } from "../src/state";
+import { Block } from "../src/block";
+import { Transaction } from "../src/transaction";
+
+describe("WorldState", () => {
+    test("should start with zero balances", () => {
+        const state = new WorldState();
+        expect(state.getBalance("alice")).toBe(0);
+        expect(state.getAllBalances().size).toBe(0);
+    });
+
+    test("should credit mining rewards without debiting the sentinel sender", () => {
+        const state = new WorldState();
+        state.applyTransaction(new Transaction("MINING_REWARD", "miner", 1));
+        expect(state.getBalance("miner")).toBe(1);
+        expect(state.getAllBalances().has("MINING_REWARD")).toBe(false);
+    });
+
+    test("should apply debits and credits from a block", () => {
+        const state = new WorldState();
+        state.applyBlock(new Block(1, "0", [
+            new Transaction("MINING_REWARD", "alice", 5),
+            new Transaction("alice", "bob", 2)
+        ], 0));
+
+        expect(state.getBalance("alice")).toBe(3);
+        expect(state.getBalance("bob")).toBe(2);
+    });
+
+    test("should count the transactions each address sends as its nonce", () => {
+        const state = new WorldState();
+        state.applyTransaction(new Transaction("MINING_REWARD", "alice", 5));
+        state.applyTransaction(new Transaction("alice", "bob", 1, { sequence: 0 }));
+        state.applyTransaction(new Transaction("alice", "bob", 1, { sequence: 1 }));
+
+        expect(state.getNonce("alice")).toBe(2);
+        expect(state.getNonce("bob")).toBe(0);
+        expect(state.getNonce("MINING_REWARD")).toBe(0);
+    });
+
+    test("should rebuild from a chain", () => {
+        const chain = [
+            new Block(0, "0", [], 0),
+            new Block(1, "a", [new Transaction("MINING_REWARD", "alice", 1)], 0),
+            new Block(2, "b", [new Transaction("alice", "bob", 1)], 0)
+        ];
+        const state = WorldState.fromChain(chain);
+        expect(state.getAllBalances()).toEqual(new Map([["alice", 0], ["bob", 1]]));
+    });
+
+    test("should return snapshots that don't change with later blocks", () => {
+        const state = new WorldState();
+        state.applyTransaction(new Transaction("MINING_REWARD", "alice", 1));
+        const snapshot = state.getAllBalances();
+        state.applyTransaction(new Transaction("MINING_REWARD", "alice", 1));
+
+        expect(snapshot.get("alice")).toBe(1);
+        expect(state.getBalance("alice")).toBe(2);
+    });
+});
@@ -0,0 +1,231 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileBlockStore } from "../src/storage";
+import { Blockchain } from "../src/blockchain";
+import { Transaction } from "../src/transaction";
+import { Block } from "../src/block";
+import { addressFromPublicKey, generateKeyPair } from "../src/crypto";
+
+const directories: string[] = [];
+
+// Creates a fresh store directory that is removed after the test
+function tempDirectory(): string {
+    const directory = mkdtempSync(join(tmpdir(), "blockchain-store-"));
+    directories.push(directory);
+    return directory;
+}
+
+// Splits a store file into its records (each kept with its length and checksum)
+function recordsOf(content: Buffer): Buffer[] {
+    const records: Buffer[] = [];
+    for (let offset = 0; offset < content.length; offset += 8 + content.readUInt32BE(offset)) {
+        records.push(content.subarray(offset, offset + 8 + content.readUInt32BE(offset)));
+    }
+    return records;
+}
+
+// Builds a record whose checksum matches its contents
+function recordOf(bytes: Uint8Array): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(bytes.length, 0);
+    header.writeUInt32BE(Bun.hash.crc32(bytes), 4);
+    return Buffer.concat([header, bytes]);
+}
+
+afterEach(() => {
+    for (const directory of directories.splice(0)) {
+        rmSync(directory, { recursive: true, force: true });
+    }
+});
+
+describe("FileBlockStore", () => {
+    test("should start empty", () => {
+        const store = new FileBlockStore(tempDirectory());
+        expect(store.loadBlocks()).toEqual([]);
+        expect(store.loadPending()).toEqual([]);
+    });
+
+    test("should persist the genesis block of a new chain", () => {
+        const directory = tempDirectory();
+        const blockchain = new Blockchain({ store: new FileBlockStore(directory) });
+        const stored = new FileBlockStore(directory).loadBlocks();
+        expect(stored.map(bytes => Block.decode(bytes).hash)).toEqual([blockchain.chain[0]!.hash]);
+        expect(Buffer.from(stored[0]!)).toEqual(Buffer.from(blockchain.chain[0]!.encode()));
+    });
+
+    test("should resume a chain after a restart", () => {
+        const directory = tempDirectory();
+        const keys = generateKeyPair();
+        const address = addressFromPublicKey(keys.publicKey);
+
+        const first = new Blockchain({ store: new FileBlockStore(directory) });
+        first.minePendingTransactions(address);
+        first.minePendingTransactions(address);
+        const transaction = new Transaction(address, "bob", 1, { sequence: 0 });
+        transaction.signTransaction(keys.privateKey);
+        first.createTransaction(transaction);
+
+        // A new process opens the same directory
+        const second = new Blockchain({ store: new FileBlockStore(directory) });
+        expect(second.chain.map(block => block.hash)).toEqual(first.chain.map(block => block.hash));
+        expect(second.getBalanceOfAddress(address)).toBe(2);
+        expect(second.isChainValid()).toBe(true);
+
+        // The pending pool survived too
+        second.minePendingTransactions("miner");
+        expect(second.getBalanceOfAddress("bob")).toBe(1);
+        expect(new FileBlockStore(directory).loadPending()).toEqual([]);
+    });
+
+    test("should truncate a half-written last block and recover", () => {
+        const directory = tempDirectory();
+        const first = new Blockchain({ store: new FileBlockStore(directory) });
+        first.minePendingTransactions("miner");
+
+        // Simulate a crash partway through appending the next block
+        const logPath = join(directory, "blocks.dat");
+        const intactLength = readFileSync(logPath).length;
+        const record = recordsOf(readFileSync(logPath))[1]!;
+        appendFileSync(logPath, record.subarray(0, 40));
+
+        const second = new Blockchain({ store: new FileBlockStore(directory) });
+        expect(second.chain.length).toBe(2);
+        expect(second.isChainValid()).toBe(true);
+        expect(readFileSync(logPath).length).toBe(intactLength);
+
+        // Appending continues cleanly after the recovery
+        second.minePendingTransactions("miner");
+        expect(new Blockchain({ store: new FileBlockStore(directory) }).chain.length).toBe(3);
+    });
+
+    test("should truncate a last record whose contents never reached the disk", () => {
+        const directory = tempDirectory();
+        const first = new Blockchain({ store: new FileBlockStore(directory) });
+        first.minePendingTransactions("miner");
+
+        // The length made it to disk but the rest of the record is zeros
+        const logPath = join(directory, "blocks.dat");
+        const intactLength = readFileSync(logPath).length;
+        const torn = Buffer.alloc(8 + 200);
+        torn.writeUInt32BE(200, 0);
+        appendFileSync(logPath, torn);
+
+        const second = new Blockchain({ store: new FileBlockStore(directory) });
+        expect(second.chain.map(block => block.hash)).toEqual(first.chain.map(block => block.hash));
+        expect(readFileSync(logPath).length).toBe(intactLength);
+
+        // A last record that passes its checksum but isn't a block is dropped the same way
+        appendFileSync(logPath, recordOf(new Uint8Array(200)));
+        expect(new Blockchain({ store: new FileBlockStore(directory) }).chain.length).toBe(2);
+        expect(readFileSync(logPath).length).toBe(intactLength);
+
+        second.minePendingTransactions("miner");
+        expect(new Blockchain({ store: new FileBlockStore(directory) }).chain.length).toBe(3);
+    });
+
+    test("should reject a corrupt record in the middle of the log", () => {
+        const directory = tempDirectory();
+        const blockchain = new Blockchain({ store: new FileBlockStore(directory) });
+        blockchain.minePendingTransactions("miner");
+
+        const logPath = join(directory, "blocks.dat");
+        const content = readFileSync(logPath);
+        content[8] = 9;  // The first block's version byte
+        writeFileSync(logPath, content);
+        expect(() => new Blockchain({ store: new FileBlockStore(directory) })).toThrow(
+            `Corrupt block store: record 0 in ${logPath} fails its checksum`
+        );
+
+        // A record that checks out but doesn't decode is corrupt too, unless it is the last one
+        const records = recordsOf(content);
+        records[0] = recordOf(records[0]!.subarray(8));
+        writeFileSync(logPath, Buffer.concat(records));
+        expect(() => new Blockchain({ store: new FileBlockStore(directory) })).toThrow(
+            "Invalid block store: record 0 can't be decoded (Invalid encoding: unsupported version 9)"
+        );
+    });
+
+    test("should reject a tampered stored chain", () => {
+        const directory = tempDirectory();
+        const blockchain = new Blockchain({ store: new FileBlockStore(directory) });
+        blockchain.minePendingTransactions("miner");
+        blockchain.minePendingTransactions("miner");
+
+        // Drop the middle block - every record is intact but the chain no longer links up
+        const logPath = join(directory, "blocks.dat");
+        const records = recordsOf(readFileSync(logPath));
+        records.splice(1, 1);
+        writeFileSync(logPath, Buffer.concat(records));
+
+        expect(() => new Blockchain({ store: new FileBlockStore(directory) })).toThrow("Invalid block store");
+    });
+
+    test("should resume on the same branch after a reorganization", () => {
+        const directory = tempDirectory();
+        const blockchain = new Blockchain({ store: new FileBlockStore(directory) });
+        const rival = Blockchain.fromJSON(JSON.parse(JSON.stringify(blockchain)));
+        blockchain.minePendingTransactions("alice");
+        rival.minePendingTransactions("bob");
+        rival.minePendingTransactions("bob");
+
+        blockchain.addBlock(rival.chain[1]!);
+        blockchain.addBlock(rival.chain[2]!);
+
+        // The log keeps the displaced block too; replaying it selects the same main chain
+        expect(new FileBlockStore(directory).loadBlocks().length).toBe(4);
+        const resumed = new Blockchain({ store: new FileBlockStore(directory) });
+        expect(resumed.chain.map(block => block.hash)).toEqual(rival.chain.map(block => block.hash));
+        expect(resumed.getBalanceOfAddress("alice")).toBe(0);
+    });
+
+    test("should drop stored pending transactions that no longer fit the chain", () => {
+        const directory = tempDirectory();
+        const keys = generateKeyPair();
+        const unfunded = new Transaction(addressFromPublicKey(keys.publicKey), "bob", 1, { sequence: 0 });
+        unfunded.signTransaction(keys.privateKey);
+
+        const store = new FileBlockStore(directory);
+        new Blockchain({ store });
+        store.savePending([unfunded]);
+
+        new Blockchain({ store: new FileBlockStore(directory) });
+        expect(new FileBlockStore(directory).loadPending()).toEqual([]);
+    });
+
+    test("should migrate a store of JSON files to the binary log", () => {
+        const directory = tempDirectory();
+        const keys = generateKeyPair();
+        const address = addressFromPublicKey(keys.publicKey);
+        const original = new Blockchain();
+        original.minePendingTransactions(address);
+        const transaction = new Transaction(address, "bob", 1, { sequence: 0 });
+        transaction.signTransaction(keys.privateKey);
+        original.createTransaction(transaction);
+
+        // The old layout: one JSON block per line (the last one cut short by a crash) and a JSON pending pool
+        const lines = original.chain.map(block => JSON.stringify(block) + "\n").join("");
+        writeFileSync(join(directory, "blocks.log"), lines + JSON.stringify(original.chain[1]).slice(0, 40));
+        writeFileSync(join(directory, "pending.json"), JSON.stringify([transaction]));
+
+        const resumed = new Blockchain({ store: new FileBlockStore(directory) });
+        expect(resumed.chain.map(block => block.hash)).toEqual(original.chain.map(block => block.hash));
+        expect(resumed.getPendingTransactions().map(pending => pending.hash)).toEqual([transaction.hash]);
+        expect(recordsOf(readFileSync(join(directory, "blocks.dat"))).length).toBe(2);
+    });
+
+    test("should reject a corrupt line in a JSON store being migrated", () => {
+        const directory = tempDirectory();
+        writeFileSync(join(directory, "blocks.log"), "{not json\n");
+        expect(() => new FileBlockStore(directory)).toThrow("Corrupt block store: record 0");
+    });
+
+    test("should treat an unreadable pending snapshot as empty", () => {
+        const directory = tempDirectory();
+        writeFileSync(join(directory, "pending.json"), "{");
+        expect(new FileBlockStore(directory).loadPending()).toEqual([]);
+        writeFileSync(join(directory, "pending.dat"), Buffer.from([0, 0, 0, 9, 1]));
+        expect(new FileBlockStore(directory).loadPending()).toEqual([]);
+    });
+});
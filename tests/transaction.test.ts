@@ -1,5 +1,16 @@
 import { describe, test, expect } from "bun:test";
 import { Transaction } from "../src/transaction";
+import { addressFromPublicKey, generateKeyPair } from "../src/crypto";
+import { hashLockScript, hashSecret, scriptAddress } from "../src/script";
+import { ENCODING_VERSION, LEGACY_ENCODING_VERSION } from "../src/encoding";
+
+// Creates a transaction from a fresh wallet and signs it
+function signedTransaction(toAddress: string, amount: number): Transaction {
+    const keys = generateKeyPair();
+    const transaction = new Transaction(addressFromPublicKey(keys.publicKey), toAddress, amount);
+    transaction.signTransaction(keys.privateKey);
+    return transaction;
+}
 
 describe("Transaction", () => {
     test("should create a valid transaction", () => {
@@ -19,7 +30,7 @@ describe("Transaction", () => {
     });
 
     test("should validate transaction", () => {
-        const transaction = new Transaction("from", "to", 100);
+        const transaction = signedTransaction("to", 100);
         expect(transaction.isValid()).toBe(true);
     });
 
@@ -52,7 +63,7 @@ describe("Transaction", () => {
     });
 
     test("should maintain valid hash after timestamp update", () => {
-        const transaction = new Transaction("from", "to", 100);
+        const transaction = signedTransaction("to", 100);
         const originalHash = transaction.hash;
         // Small delay to ensure timestamp change
         Bun.sleep(1);
@@ -62,29 +73,29 @@ describe("Transaction", () => {
 
     // New test cases
     test("should handle maximum safe integer amount", () => {
-        const transaction = new Transaction("from", "to", Number.MAX_SAFE_INTEGER);
+        const transaction = signedTransaction("to", Number.MAX_SAFE_INTEGER);
         expect(transaction.amount).toBe(Number.MAX_SAFE_INTEGER);
         expect(transaction.isValid()).toBe(true);
     });
 
     test("should handle special characters in addresses", () => {
-        const transaction = new Transaction("addr1!@#$", "addr2%^&*", 100);
+        const transaction = signedTransaction("addr2%^&*", 100);
         expect(transaction.isValid()).toBe(true);
     });
 
     test("should handle unicode characters in addresses", () => {
-        const transaction = new Transaction("αβγδ", "こんにちは", 100);
+        const transaction = signedTransaction("こんにちは", 100);
         expect(transaction.isValid()).toBe(true);
     });
 
     test("should handle floating point amounts", () => {
-        const transaction = new Transaction("from", "to", 100.123);
+        const transaction = signedTransaction("to", 100.123);
         expect(transaction.amount).toBe(100.123);
         expect(transaction.isValid()).toBe(true);
     });
 
     test("should handle very small amounts", () => {
-        const transaction = new Transaction("from", "to", 0.000001);
+        const transaction = signedTransaction("to", 0.000001);
         expect(transaction.isValid()).toBe(true);
     });
 
@@ -105,4 +116,199 @@ describe("Transaction", () => {
         const tx2 = new Transaction("from", "to", 100);
         expect(tx1.hash).not.toBe(tx2.hash); // Should be different due to timestamps
     });
-}); 
\ No newline at end of file
+
+    test("should reject unsigned transactions", () => {
+        const transaction = new Transaction("from", "to", 100);
+        expect(transaction.signature).toBeNull();
+        expect(transaction.isValid()).toBe(false);
+    });
+
+    test("should refuse to sign for another wallet", () => {
+        const owner = generateKeyPair();
+        const attacker = generateKeyPair();
+        const transaction = new Transaction(addressFromPublicKey(owner.publicKey), "to", 100);
+        expect(() => transaction.signTransaction(attacker.privateKey)).toThrow("Cannot sign transactions for other wallets");
+    });
+
+    test("should detect a signature copied from another transaction", () => {
+        const keys = generateKeyPair();
+        const from = addressFromPublicKey(keys.publicKey);
+        const original = new Transaction(from, "to", 100);
+        original.signTransaction(keys.privateKey);
+
+        const forged = new Transaction(from, "attacker", 100);
+        forged.publicKey = original.publicKey;
+        forged.signature = original.signature;
+        expect(forged.isValid()).toBe(false);
+    });
+
+    test("should detect a public key that does not own the sender address", () => {
+        const transaction = signedTransaction("to", 100);
+        transaction.publicKey = generateKeyPair().publicKey;
+        expect(transaction.isValid()).toBe(false);
+    });
+
+    test("should accept unsigned mining rewards", () => {
+        const reward = new Transaction("MINING_REWARD", "miner", 1);
+        expect(reward.isValid()).toBe(true);
+    });
+
+    test("should commit to its inputs", () => {
+        const transaction = signedTransaction("to", 1);
+        expect(transaction.inputs).toEqual([]);
+
+        const withInputs = new Transaction("from", "to", 1, { inputs: [{ txHash: "abc", outputIndex: 0 }] });
+        const hash = withInputs.hash;
+        withInputs.inputs.push({ txHash: "def", outputIndex: 1 });
+        expect(withInputs.calculateHash()).not.toBe(hash);
+    });
+
+    test("should detect inputs edited after signing", () => {
+        const keys = generateKeyPair();
+        const transaction = new Transaction(addressFromPublicKey(keys.publicKey), "to", 1, {
+            inputs: [{ txHash: "abc", outputIndex: 0 }]
+        });
+        transaction.signTransaction(keys.privateKey);
+        expect(transaction.isValid()).toBe(true);
+
+        transaction.inputs[0]!.outputIndex = 1;
+        expect(transaction.isValid()).toBe(false);
+    });
+
+    test("should commit to its fee and sequence number", () => {
+        const transaction = new Transaction("from", "to", 1, { fee: 0.5, sequence: 3 });
+        expect(transaction.fee).toBe(0.5);
+        expect(transaction.sequence).toBe(3);
+        expect(transaction.getCost()).toBe(1.5);
+
+        const data = transaction.toJSON();
+        expect(() => Transaction.fromJSON({ ...data, fee: 0 })).toThrow("does not match its contents");
+        expect(() => Transaction.fromJSON({ ...data, sequence: 4 })).toThrow("does not match its contents");
+    });
+
+    test("should default to no fee and no sequence number", () => {
+        const transaction = new Transaction("from", "to", 1);
+        expect(transaction.fee).toBe(0);
+        expect(transaction.sequence).toBeNull();
+        expect(transaction.getCost()).toBe(1);
+    });
+
+    test("should reject an invalid fee or sequence number", () => {
+        expect(() => new Transaction("from", "to", 1, { fee: -1 })).toThrow("Invalid transaction fee");
+        expect(() => new Transaction("from", "to", 1, { fee: NaN })).toThrow("Invalid transaction fee");
+        expect(() => new Transaction("from", "to", 1, { sequence: 1.5 })).toThrow("Invalid transaction sequence number");
+    });
+
+    test("should round-trip through JSON", () => {
+        const original = signedTransaction("to", 42);
+        const restored = Transaction.fromJSON(JSON.parse(JSON.stringify(original)));
+
+        expect(restored).toBeInstanceOf(Transaction);
+        expect(restored.hash).toBe(original.hash);
+        expect(restored.timestamp).toBe(original.timestamp);
+        expect(restored.calculateHash()).toBe(original.hash);
+        expect(restored.isValid()).toBe(true);
+        expect(restored.toJSON()).toEqual(original.toJSON());
+    });
+
+    test("should reject JSON with tampered contents", () => {
+        const data = signedTransaction("to", 42).toJSON();
+        expect(() => Transaction.fromJSON({ ...data, amount: 43 })).toThrow(
+            `Invalid transaction data: hash ${data.hash} does not match its contents`
+        );
+    });
+
+    test("should reject JSON that was re-hashed without re-signing", () => {
+        const original = signedTransaction("to", 42);
+        const forged = new Transaction(original.fromAddress, "attacker", 42);
+        const data = { ...forged.toJSON(), publicKey: original.publicKey, signature: original.signature };
+        expect(() => Transaction.fromJSON(data)).toThrow("is not validly signed");
+    });
+
+    test("should reject malformed JSON", () => {
+        const data = signedTransaction("to", 42).toJSON();
+        expect(() => Transaction.fromJSON({ ...data, nonce: 5 } as any)).toThrow("Invalid transaction data: malformed transaction");
+        expect(() => Transaction.fromJSON({ ...data, amount: -1 })).toThrow("Invalid transaction amount");
+    });
+
+    test("should only pay a script address with its locking script", () => {
+        const script = hashLockScript(hashSecret("secret"));
+        const locked = new Transaction("from", scriptAddress(script), 1, { lockingScript: script });
+        expect(locked.lockingScript).toBe(script);
+        expect(() => new Transaction("from", "to", 1, { lockingScript: script })).toThrow("must be sent to their script's address");
+        expect(() => new Transaction("from", scriptAddress(script), 1)).toThrow("must be sent to their script's address");
+        expect(() => new Transaction("from", "to", 1, { lockingScript: "RETURN" })).toThrow("Invalid transaction locking script");
+    });
+
+    test("should round-trip a locking script and unlocking scripts through JSON", () => {
+        const script = hashLockScript(hashSecret("secret"));
+        const spend = new Transaction(scriptAddress(script), "to", 1, { inputs: [{ txHash: "abc", outputIndex: 0 }] });
+        spend.unlockInput(0, "1234");
+        const restored = Transaction.fromJSON(JSON.parse(JSON.stringify(spend)));
+        expect(restored.inputs[0]!.unlockingScript).toBe("1234");
+
+        const payment = signedTransaction("to", 1);
+        expect("lockingScript" in payment.toJSON()).toBe(false);
+    });
+
+    test("should require unlocking scripts to spend from a script address", () => {
+        const script = hashLockScript(hashSecret("secret"));
+        const spend = new Transaction(scriptAddress(script), "to", 1, { inputs: [{ txHash: "abc", outputIndex: 0 }] });
+        expect(spend.isValid()).toBe(false);
+
+        expect(() => spend.unlockInput(0, "1234 DUP")).toThrow("Unlocking scripts may only push data");
+        expect(() => spend.unlockInput(1, "1234")).toThrow("has no input 1");
+        spend.unlockInput(0, "1234");
+        expect(spend.isValid()).toBe(true);
+    });
+
+    test("should round-trip through the binary encoding", () => {
+        const original = signedTransaction("to", 0.1);
+        const restored = Transaction.decode(original.encode());
+        expect(restored.hash).toBe(original.hash);
+        expect(restored.toJSON()).toEqual(original.toJSON());
+        expect(original.getSize()).toBe(original.encode().length);
+
+        const script = hashLockScript(hashSecret("secret"));
+        const spend = new Transaction(scriptAddress(script), "to", 1, { inputs: [{ txHash: "abc", outputIndex: 3 }], sequence: 0 });
+        spend.unlockInput(0, "1234");
+        expect(Transaction.decode(spend.encode()).toJSON()).toEqual(spend.toJSON());
+    });
+
+    test("should reject encodings that are tampered with or not canonical", () => {
+        const bytes = signedTransaction("to", 42).encode();
+        expect(() => Transaction.decode(bytes.subarray(0, bytes.length - 1))).toThrow("Invalid encoding: unexpected end of data");
+        expect(() => Transaction.decode(Buffer.concat([bytes, Buffer.from([0])]))).toThrow("Invalid encoding: unexpected trailing bytes");
+
+        const tampered = Buffer.from(bytes);
+        tampered[tampered.length - 2] = tampered[tampered.length - 2]! ^ 1;  // Inside the signature
+        expect(() => Transaction.decode(tampered)).toThrow("is not validly signed");
+
+        const unknownVersion = Buffer.from(bytes);
+        unknownVersion[0] = 7;
+        expect(() => Transaction.decode(unknownVersion)).toThrow("Invalid encoding: unsupported version 7");
+    });
+
+    test("should keep field boundaries apart where the legacy hash ran them together", () => {
+        const split = { inputs: [{ txHash: "a", outputIndex: 1 }, { txHash: "b", outputIndex: 2 }], timestamp: 1, nonce: "n" };
+        const joined = { inputs: [{ txHash: "a:1,b", outputIndex: 2 }], timestamp: 1, nonce: "n" };
+        const legacy = { version: LEGACY_ENCODING_VERSION };
+
+        expect(new Transaction("from", "to", 1, { ...split, ...legacy }).hash).toBe(new Transaction("from", "to", 1, { ...joined, ...legacy }).hash);
+        expect(new Transaction("from", "to", 1, split).hash).not.toBe(new Transaction("from", "to", 1, joined).hash);
+    });
+
+    test("should rebuild transactions saved before versions existed with the legacy hash", () => {
+        const keys = generateKeyPair();
+        const legacy = new Transaction(addressFromPublicKey(keys.publicKey), "to", 1, { version: LEGACY_ENCODING_VERSION });
+        legacy.signTransaction(keys.privateKey);
+        const { version, ...data } = legacy.toJSON();
+
+        const restored = Transaction.fromJSON(data);
+        expect(restored.version).toBe(LEGACY_ENCODING_VERSION);
+        expect(restored.hash).toBe(legacy.hash);
+        expect(Transaction.decode(restored.encode()).hash).toBe(legacy.hash);
+        expect(new Transaction("from", "to", 1).version).toBe(ENCODING_VERSION);
+        expect(() => new Transaction("from", "to", 1, { version: 2 })).toThrow("Unsupported transaction encoding version 2");
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, test, expect } from "bun:test";
+import { UTXOSet } from "../src/utxo";
+import { Transaction } from "../src/transaction";
+
+// Mining rewards are the only way to create outputs without inputs
+function reward(address: string, amount: number): Transaction {
+    return new Transaction("MINING_REWARD", address, amount);
+}
+
+describe("UTXOSet", () => {
+    test("should create an output for a mining reward", () => {
+        const utxos = new UTXOSet();
+        const coinbase = reward("alice", 5);
+        utxos.applyTransaction(coinbase);
+
+        expect(utxos.getUnspentOutputs("alice")).toEqual([
+            { txHash: coinbase.hash, outputIndex: 0, address: "alice", amount: 5 }
+        ]);
+        expect(utxos.getBalance("alice")).toBe(5);
+    });
+
+    test("should spend inputs and create payment and change outputs", () => {
+        const utxos = new UTXOSet();
+        const coinbase = reward("alice", 5);
+        utxos.applyTransaction(coinbase);
+
+        const payment = new Transaction("alice", "bob", 3, { inputs: [{ txHash: coinbase.hash, outputIndex: 0 }] });
+        utxos.applyTransaction(payment);
+
+        expect(utxos.get({ txHash: coinbase.hash, outputIndex: 0 })).toBeUndefined();
+        expect(utxos.getUnspentOutputs("bob")).toEqual([
+            { txHash: payment.hash, outputIndex: 0, address: "bob", amount: 3 }
+        ]);
+        expect(utxos.getUnspentOutputs("alice")).toEqual([
+            { txHash: payment.hash, outputIndex: 1, address: "alice", amount: 2 }
+        ]);
+    });
+
+    test("should not create a change output when inputs are spent exactly", () => {
+        const utxos = new UTXOSet();
+        const coinbase = reward("alice", 5);
+        utxos.applyTransaction(coinbase);
+        const payment = new Transaction("alice", "bob", 5, { inputs: [{ txHash: coinbase.hash, outputIndex: 0 }] });
+        utxos.applyTransaction(payment);
+
+        expect(utxos.getUnspentOutputs("alice")).toEqual([]);
+    });
+
+    test("should reject spending an output twice", () => {
+        const utxos = new UTXOSet();
+        const coinbase = reward("alice", 5);
+        utxos.applyTransaction(coinbase);
+        const input = { txHash: coinbase.hash, outputIndex: 0 };
+
+        utxos.applyTransaction(new Transaction("alice", "bob", 1, { inputs: [input] }));
+        expect(() => {
+            utxos.applyTransaction(new Transaction("alice", "carol", 1, { inputs: [input] }));
+        }).toThrow("Double spend");
+    });
+
+    test("should reject listing the same input twice", () => {
+        const utxos = new UTXOSet();
+        const coinbase = reward("alice", 5);
+        utxos.applyTransaction(coinbase);
+        const input = { txHash: coinbase.hash, outputIndex: 0 };
+
+        expect(() => {
+            utxos.applyTransaction(new Transaction("alice", "bob", 8, { inputs: [input, input] }));
+        }).toThrow("is used twice");
+        expect(utxos.getBalance("alice")).toBe(5); // Rejected transactions leave the set untouched
+    });
+
+    test("should reject spending someone else's output", () => {
+        const utxos = new UTXOSet();
+        const coinbase = reward("alice", 5);
+        utxos.applyTransaction(coinbase);
+
+        expect(() => {
+            utxos.applyTransaction(new Transaction("mallory", "bob", 1, { inputs: [{ txHash: coinbase.hash, outputIndex: 0 }] }));
+        }).toThrow("is not owned by mallory");
+    });
+
+    test("should reject inputs worth less than the amount", () => {
+        const utxos = new UTXOSet();
+        const coinbase = reward("alice", 5);
+        utxos.applyTransaction(coinbase);
+
+        expect(() => {
+            utxos.applyTransaction(new Transaction("alice", "bob", 6, { inputs: [{ txHash: coinbase.hash, outputIndex: 0 }] }));
+        }).toThrow("are worth 5 but it sends 6");
+    });
+
+    test("should reject transactions without inputs", () => {
+        const utxos = new UTXOSet();
+        expect(() => {
+            utxos.applyTransaction(new Transaction("alice", "bob", 1));
+        }).toThrow("has no inputs");
+    });
+});
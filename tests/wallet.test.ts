@@ -0,0 +1,125 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Blockchain } from "../src/blockchain";
+import { generateKeyPair, isValidAddress } from "../src/crypto";
+import { deriveKeyPair, generateSeedPhrase, isValidSeedPhrase, seedFromPhrase, Wallet } from "../src/wallet";
+
+const directories: string[] = [];
+
+afterEach(() => {
+    for (const directory of directories.splice(0)) {
+        rmSync(directory, { recursive: true, force: true });
+    }
+});
+
+describe("Wallet", () => {
+    test("should generate wallets with checksummed addresses", () => {
+        const wallet = Wallet.generate();
+        expect(isValidAddress(wallet.address)).toBe(true);
+        expect(wallet.address.startsWith(wallet.publicKey)).toBe(true);
+        expect(Wallet.generate().address).not.toBe(wallet.address);
+    });
+
+    test("should generate seed phrases that pass their checksum", () => {
+        const phrase = generateSeedPhrase();
+        expect(phrase.split(" ").length).toBe(17);
+        expect(isValidSeedPhrase(phrase)).toBe(true);
+        expect(isValidSeedPhrase(`  ${phrase.toUpperCase()} `)).toBe(true);
+        expect(generateSeedPhrase()).not.toBe(phrase);
+    });
+
+    test("should catch a mistyped seed phrase", () => {
+        const words = generateSeedPhrase().split(" ");
+        const wrongChecksum = words[16] === "able" ? "acid" : "able";
+        expect(isValidSeedPhrase(words.slice(1).join(" "))).toBe(false);
+        expect(isValidSeedPhrase([...words.slice(0, -1), "notaword"].join(" "))).toBe(false);
+        expect(isValidSeedPhrase([...words.slice(0, -1), wrongChecksum].join(" "))).toBe(false);
+        expect(() => seedFromPhrase("not a seed phrase")).toThrow("Invalid seed phrase");
+    });
+
+    test("should derive the same wallets from the same seed phrase", () => {
+        const phrase = generateSeedPhrase();
+        expect(Wallet.fromSeedPhrase(phrase, 0).address).toBe(Wallet.fromSeedPhrase(phrase, 0).address);
+        expect(Wallet.fromSeedPhrase(phrase, 1).address).not.toBe(Wallet.fromSeedPhrase(phrase, 0).address);
+        expect(Wallet.fromSeedPhrase(phrase, 0, "extra").address).not.toBe(Wallet.fromSeedPhrase(phrase, 0).address);
+        expect(() => Wallet.fromSeedPhrase(phrase, -1)).toThrow("Account index must be a non-negative integer");
+    });
+
+    test("should derive keys matching the SLIP-0010 Ed25519 test vector", () => {
+        const seed = Buffer.from("000102030405060708090a0b0c0d0e0f", "hex");
+        expect(deriveKeyPair(seed, "m").privateKey).toBe("2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7");
+        expect(deriveKeyPair(seed, "m/0'").privateKey).toBe("68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3");
+        expect(deriveKeyPair(seed, "m/0'/1'").publicKey).toBe("1932a5270f335bed617d5b935c80aedb1a35bd9fc1e31acafd5372c30f5c1187");
+    });
+
+    test("should reject non-hardened derivation paths", () => {
+        const seed = seedFromPhrase(generateSeedPhrase());
+        expect(() => deriveKeyPair(seed, "m/0")).toThrow("only hardened segments");
+        expect(() => deriveKeyPair(seed, "m/2147483648'")).toThrow("is out of range");
+    });
+
+    test("should round-trip through an encrypted keystore", () => {
+        const keys = generateKeyPair();
+        const wallet = new Wallet(keys.privateKey);
+        const keystore = wallet.toKeystore("correct horse");
+        expect(JSON.stringify(keystore)).not.toContain(keys.privateKey);
+        expect(Wallet.fromKeystore(keystore, "correct horse").address).toBe(wallet.address);
+    });
+
+    test("should refuse a wrong password or a tampered keystore", () => {
+        const keystore = Wallet.generate().toKeystore("correct horse");
+        expect(() => Wallet.fromKeystore(keystore, "wrong horse")).toThrow("wrong password or corrupted keystore");
+        expect(() => Wallet.fromKeystore({ ...keystore, address: Wallet.generate().address }, "correct horse")).toThrow(
+            "wrong password or corrupted keystore"
+        );
+        expect(() => Wallet.fromKeystore({ ...keystore, version: 2 } as any, "correct horse")).toThrow("malformed keystore");
+        expect(() => Wallet.generate().toKeystore("")).toThrow("A keystore password is required");
+    });
+
+    test("should save and load a keystore file readable only by its owner", () => {
+        const directory = mkdtempSync(join(tmpdir(), "wallet-"));
+        directories.push(directory);
+        const path = join(directory, "wallet.json");
+
+        const wallet = Wallet.generate();
+        wallet.save(path, "secret");
+        expect(statSync(path).mode & 0o777).toBe(0o600);
+        expect(Wallet.load(path, "secret").address).toBe(wallet.address);
+    });
+
+    test("should build signed transactions the chain accepts in account mode", () => {
+        const blockchain = new Blockchain();
+        const alice = Wallet.generate();
+        const bob = Wallet.generate();
+        blockchain.minePendingTransactions(alice.address);
+        blockchain.minePendingTransactions(alice.address);
+
+        blockchain.createTransaction(alice.createTransaction(blockchain, bob.address, 1));
+        blockchain.createTransaction(alice.createTransaction(blockchain, bob.address, 0.5));
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.getBalanceOfAddress(bob.address)).toBe(1.5);
+    });
+
+    test("should pick unclaimed outputs in UTXO mode", () => {
+        const blockchain = new Blockchain({ ledger: "utxo" });
+        const alice = Wallet.generate();
+        const bob = Wallet.generate();
+        blockchain.minePendingTransactions(alice.address);
+        blockchain.minePendingTransactions(alice.address);
+
+        blockchain.createTransaction(alice.createTransaction(blockchain, bob.address, 1));
+        blockchain.createTransaction(alice.createTransaction(blockchain, bob.address, 1));
+        expect(() => alice.createTransaction(blockchain, bob.address, 1)).toThrow("Insufficient funds");
+        blockchain.minePendingTransactions("miner");
+        expect(blockchain.getBalanceOfAddress(bob.address)).toBe(2);
+    });
+
+    test("should reject a mistyped recipient address", () => {
+        const blockchain = new Blockchain();
+        const alice = Wallet.generate();
+        const typo = Wallet.generate().address.replace(/^./, first => (first === "0" ? "1" : "0"));
+        expect(() => alice.createTransaction(blockchain, typo, 1)).toThrow("Invalid recipient address");
+    });
+});